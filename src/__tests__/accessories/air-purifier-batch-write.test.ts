@@ -30,11 +30,12 @@ describe('AirPurifierAccessory batched HomeKit writes', () => {
     'SerialNumber', 'TargetAirPurifierState',
   ];
 
-  function createHarness(options: { deviceType?: string; deviceStatus?: string; mode?: string } = {}) {
+  function createHarness(options: { deviceType?: string; deviceStatus?: string; mode?: string; config?: object } = {}) {
     const {
       deviceType = 'Core300S',
       deviceStatus = 'off',
       mode = 'manual',
+      config = {},
     } = options;
 
     const logger = createMockLogger();
@@ -57,7 +58,7 @@ describe('AirPurifierAccessory batched HomeKit writes', () => {
       updatePlatformAccessories: jest.fn(),
     } as unknown as jest.Mocked<API>;
 
-    const platform = new TSVESyncPlatform(logger as jest.Mocked<Logger>, {} as any, mockAPI);
+    const platform = new TSVESyncPlatform(logger as jest.Mocked<Logger>, config as any, mockAPI);
     (platform as any).api = mockAPI;
     (platform as any).client = createMockVeSync() as jest.Mocked<VeSync>;
 
@@ -119,6 +120,7 @@ describe('AirPurifierAccessory batched HomeKit writes', () => {
       autoMode: jest.fn().mockResolvedValue(true),
       manualMode: jest.fn().mockResolvedValue(true),
       sleepMode: jest.fn().mockResolvedValue(true),
+      setAutoPreference: jest.fn().mockResolvedValue(true),
       turnOn: jest.fn().mockResolvedValue(true),
       turnOff: jest.fn().mockResolvedValue(true),
     };
@@ -197,6 +199,53 @@ describe('AirPurifierAccessory batched HomeKit writes', () => {
     });
   });
 
+  describe('with an auto mode preference', () => {
+    const vital = (entry: object) => createHarness({
+      deviceType: 'LAP-V201S-WUS',
+      deviceStatus: 'on',
+      config: { airPurifierAutoMode: [{ name: 'Test Purifier', ...entry }] },
+    });
+
+    it('sends the preference and room size after switching to AUTO', async () => {
+      const h = vital({ preference: 'efficient', roomSize: 350 });
+
+      await h.writeBatch([['TargetAirPurifierState', 1], ['RotationSpeed', 60]]);
+
+      expect(h.device.autoMode).toHaveBeenCalledTimes(1);
+      expect(h.device.setAutoPreference).toHaveBeenCalledWith('efficient', 350);
+      expect(h.device.setAutoPreference.mock.invocationCallOrder[0])
+        .toBeGreaterThan(h.device.autoMode.mock.invocationCallOrder[0]);
+    });
+
+    it('leaves the preference alone when switching to manual', async () => {
+      const h = vital({ preference: 'quiet' });
+
+      await h.writeBatch([['TargetAirPurifierState', 0]]);
+
+      expect(h.device.manualMode).toHaveBeenCalledTimes(1);
+      expect(h.device.setAutoPreference).not.toHaveBeenCalled();
+    });
+
+    it('keeps auto mode when the preference is rejected', async () => {
+      const h = vital({ preference: 'quiet' });
+      h.device.setAutoPreference.mockResolvedValue(false);
+
+      await h.writeBatch([['TargetAirPurifierState', 1]]);
+
+      expect(h.device.mode).toBe('auto');
+      expect(h.logger.warn).toHaveBeenCalledWith(expect.stringContaining('Failed to set auto mode preference to quiet'));
+    });
+
+    it('ignores an entry with an unknown preference', async () => {
+      const h = vital({ preference: 'turbo' });
+
+      await h.writeBatch([['TargetAirPurifierState', 1]]);
+
+      expect(h.logger.warn).toHaveBeenCalledWith(expect.stringContaining('Ignoring airPurifierAutoMode entry'));
+      expect(h.device.setAutoPreference).not.toHaveBeenCalled();
+    });
+  });
+
   describe('behaviour preserved for single-characteristic writes', () => {
     it('still treats a lone 0% slider as "turn off"', async () => {
       const h = createHarness({ deviceStatus: 'on', mode: 'manual' });
@@ -0,0 +1,136 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Logger } from 'homebridge';
+import { HomebridgeAPI } from 'homebridge/lib/api';
+import { AirPurifierAccessory } from '../../accessories/air-purifier.accessory';
+import { TSVESyncPlatform } from '../../platform';
+import { PLATFORM_NAME } from '../../settings';
+import { createMockLogger } from '../utils/test-helpers';
+
+describe('AirPurifierAccessory mode switches', () => {
+  let storagePath: string;
+  let api: HomebridgeAPI;
+
+  beforeEach(() => {
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'tsvesync-purifier-'));
+    api = new HomebridgeAPI();
+    (api as any).user = { storagePath: () => storagePath };
+  });
+
+  afterEach(() => {
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  // A Vital 200S: auto, manual, sleep and pet, but no turbo
+  const createVital = () => {
+    const features = new Set(['fan_speed', 'filter_life', 'auto_mode', 'sleep_mode', 'pet_mode']);
+    const device: any = {
+      cid: 'vital-cid',
+      uuid: 'vital-uuid',
+      deviceName: 'Living Room Purifier',
+      deviceType: 'LAP-V201S-WUS',
+      deviceStatus: 'off',
+      connectionStatus: 'online',
+      details: { mode: 'manual', speed: 2, filter_life: 80 },
+      speed: 2,
+      maxSpeed: 4,
+      getDetails: jest.fn().mockResolvedValue(true),
+      hasFeature: jest.fn((feature: string) => features.has(feature)),
+      turnOn: jest.fn(async () => {
+        device.deviceStatus = 'on';
+        return true;
+      }),
+      turnOff: jest.fn(async () => {
+        device.deviceStatus = 'off';
+        return true;
+      }),
+      changeFanSpeed: jest.fn().mockResolvedValue(true),
+      setMode: jest.fn(async (mode: string) => {
+        device.details.mode = mode;
+        return true;
+      }),
+    };
+    Object.defineProperty(device, 'mode', { get: () => device.details.mode });
+    for (const mode of ['auto', 'manual', 'sleep', 'pet']) {
+      device[`${mode}Mode`] = jest.fn(() => device.setMode(mode));
+    }
+    return device;
+  };
+
+  const setup = (device: any, airPurifierModeSwitches?: boolean) => {
+    const platform = new TSVESyncPlatform(createMockLogger() as jest.Mocked<Logger>, {
+      platform: PLATFORM_NAME,
+      name: 'TSVESync',
+      airPurifierModeSwitches,
+    } as any, api);
+    const accessory = new api.platformAccessory(device.deviceName, api.hap.uuid.generate(device.cid));
+    new AirPurifierAccessory(platform, accessory, device);
+    const { Characteristic, Service } = api.hap;
+    const switchOn = (subtype: string) => accessory.getServiceById(Service.Switch, subtype)?.getCharacteristic(Characteristic.On);
+    const purifier = accessory.getService(Service.AirPurifier)!;
+    return { accessory, switchOn, purifier };
+  };
+
+  it('adds a switch for each mode the model supports', () => {
+    const { accessory } = setup(createVital(), true);
+
+    const switches = accessory.services
+      .filter(service => service.UUID === api.hap.Service.Switch.UUID)
+      .map(service => service.displayName);
+    expect(switches).toEqual(['Auto Mode', 'Manual Mode', 'Sleep Mode', 'Pet Mode']);
+  });
+
+  it('keeps only the Pet Mode switch unless the option is set', () => {
+    const { accessory } = setup(createVital());
+
+    expect(accessory.services.filter(service => service.UUID === api.hap.Service.Switch.UUID).map(s => s.displayName))
+      .toEqual(['Pet Mode']);
+  });
+
+  it('turns the purifier on in the chosen mode and shows only that switch on', async () => {
+    const device = createVital();
+    const { switchOn } = setup(device, true);
+
+    await switchOn('mode-sleep')!.handleSetRequest(true);
+
+    expect(device.turnOn).toHaveBeenCalledTimes(1);
+    expect(device.sleepMode).toHaveBeenCalledTimes(1);
+    expect(switchOn('mode-sleep')!.value).toBe(true);
+    expect(switchOn('mode-manual')!.value).toBe(false);
+    expect(await switchOn('mode-auto')!.handleGetRequest()).toBe(false);
+  });
+
+  it('returns to auto when the current mode\'s switch is turned off', async () => {
+    const device = createVital();
+    device.deviceStatus = 'on';
+    device.details.mode = 'pet';
+    const { switchOn } = setup(device, true);
+
+    await switchOn('pet-mode')!.handleSetRequest(false);
+    await switchOn('mode-manual')!.handleSetRequest(false);
+
+    expect(device.autoMode).toHaveBeenCalledTimes(1);
+    expect(device.manualMode).not.toHaveBeenCalled();
+    expect(switchOn('mode-auto')!.value).toBe(true);
+  });
+
+  it('applies a scene\'s switches, power and speed as one mode change', async () => {
+    const device = createVital();
+    device.deviceStatus = 'on';
+    device.details.mode = 'auto';
+    const { switchOn, purifier } = setup(device, true);
+    const { Characteristic } = api.hap;
+
+    await Promise.all([
+      switchOn('mode-auto')!.handleSetRequest(false),
+      switchOn('mode-sleep')!.handleSetRequest(true),
+      purifier.getCharacteristic(Characteristic.Active).handleSetRequest(1),
+      purifier.getCharacteristic(Characteristic.RotationSpeed).handleSetRequest(0),
+    ]);
+
+    expect(device.setMode.mock.calls).toEqual([['sleep']]);
+    expect(device.changeFanSpeed).not.toHaveBeenCalled();
+    expect(device.turnOff).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,120 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Logger } from 'homebridge';
+import { HomebridgeAPI } from 'homebridge/lib/api';
+import { AirPurifierAccessory } from '../../accessories/air-purifier.accessory';
+import { TSVESyncPlatform } from '../../platform';
+import { PLATFORM_NAME } from '../../settings';
+import { AirPurifierSwitch } from '../../types/device.types';
+import { createMockLogger } from '../utils/test-helpers';
+
+describe('AirPurifierAccessory optional switches', () => {
+  let storagePath: string;
+  let api: HomebridgeAPI;
+
+  beforeEach(() => {
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'tsvesync-purifier-'));
+    api = new HomebridgeAPI();
+    (api as any).user = { storagePath: () => storagePath };
+  });
+
+  afterEach(() => {
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  // A Vital 200S reports its display as screen_switch and has light detection
+  const createVital = (): any => {
+    const device: any = {
+      cid: 'vital-cid',
+      uuid: 'vital-uuid',
+      deviceName: 'Bedroom Purifier',
+      deviceType: 'LAP-V201S-WUS',
+      deviceStatus: 'on',
+      connectionStatus: 'online',
+      mode: 'manual',
+      speed: 2,
+      details: { mode: 'manual', speed: 2, screen_switch: true, light_detection_switch: false },
+      getDetails: jest.fn().mockResolvedValue(true),
+      hasFeature: jest.fn((feature: string) => ['display', 'light_detection', 'fan_speed'].includes(feature)),
+      setDisplay: jest.fn().mockResolvedValue(true),
+      setLightDetection: jest.fn(async (enabled: boolean) => {
+        device.details.light_detection_switch = enabled;
+        return true;
+      }),
+    };
+    Object.defineProperty(device, 'lightDetection', { get: () => device.details.light_detection_switch });
+    return device;
+  };
+
+  // A Core 300S reports its display as screen_status and has no light detection
+  const createCore = (): any => ({
+    cid: 'core-cid',
+    uuid: 'core-uuid',
+    deviceName: 'Nursery Purifier',
+    deviceType: 'Core300S',
+    deviceStatus: 'on',
+    connectionStatus: 'online',
+    mode: 'manual',
+    speed: 1,
+    details: { mode: 'manual', speed: 1, screen_status: 'on' },
+    getDetails: jest.fn().mockResolvedValue(true),
+    hasFeature: jest.fn((feature: string) => ['display', 'fan_speed'].includes(feature)),
+    setDisplay: jest.fn().mockResolvedValue(true),
+  });
+
+  const setup = (device: any, airPurifierSwitches?: AirPurifierSwitch[]) => {
+    const platform = new TSVESyncPlatform(createMockLogger() as jest.Mocked<Logger>, {
+      platform: PLATFORM_NAME,
+      name: 'TSVESync',
+      airPurifierSwitches,
+    } as any, api);
+    const accessory = new api.platformAccessory(device.deviceName, api.hap.uuid.generate(device.cid));
+    const instance = new AirPurifierAccessory(platform, accessory, device);
+    const switchOn = (subtype: string) => accessory.getServiceById(api.hap.Service.Switch, subtype)
+      ?.getCharacteristic(api.hap.Characteristic.On);
+    return { instance, switchOn };
+  };
+
+  it('adds only the configured switches the model supports', () => {
+    expect(setup(createVital(), ['display', 'lightDetection']).switchOn('lightDetection')).toBeDefined();
+    expect(setup(createVital(), ['display']).switchOn('lightDetection')).toBeUndefined();
+
+    const core = setup(createCore(), ['display', 'lightDetection']);
+    expect(core.switchOn('display')).toBeDefined();
+    expect(core.switchOn('lightDetection')).toBeUndefined();
+  });
+
+  it('turns the display off and holds the new state until the next refresh', async () => {
+    for (const device of [createVital(), createCore()]) {
+      const display = setup(device, ['display']).switchOn('display')!;
+
+      expect(await display.handleGetRequest()).toBe(true);
+      await display.handleSetRequest(false);
+
+      expect(device.setDisplay).toHaveBeenCalledWith(false);
+      expect(await display.handleGetRequest()).toBe(false);
+    }
+  });
+
+  it('sets light detection and keeps both switches in sync with the device', async () => {
+    const device = createVital();
+    const { instance, switchOn } = setup(device, ['display', 'lightDetection']);
+
+    await switchOn('lightDetection')!.handleSetRequest(true);
+    expect(device.setLightDetection).toHaveBeenCalledWith(true);
+    expect(await switchOn('lightDetection')!.handleGetRequest()).toBe(true);
+
+    device.details = { ...device.details, screen_switch: false, light_detection_switch: false };
+    await (instance as any).updateDeviceSpecificStates(device);
+    expect(switchOn('display')!.value).toBe(false);
+    expect(switchOn('lightDetection')!.value).toBe(false);
+  });
+
+  it('reports a failed write back to HomeKit', async () => {
+    const device = createCore();
+    device.setDisplay.mockResolvedValue(false);
+
+    await expect(setup(device, ['display']).switchOn('display')!.handleSetRequest(false)).rejects.toBeDefined();
+  });
+});
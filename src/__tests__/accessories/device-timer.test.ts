@@ -0,0 +1,128 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Logger, PlatformAccessory } from 'homebridge';
+import { HomebridgeAPI } from 'homebridge/lib/api';
+import { AirPurifierAccessory } from '../../accessories/air-purifier.accessory';
+import { TSVESyncPlatform } from '../../platform';
+import { PLATFORM_NAME } from '../../settings';
+import { DeviceTimersConfig } from '../../types/device.types';
+import { createMockLogger } from '../utils/test-helpers';
+
+describe('Device timer', () => {
+  let storagePath: string;
+  let api: HomebridgeAPI;
+
+  beforeEach(() => {
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'tsvesync-timer-'));
+    api = new HomebridgeAPI();
+    (api as any).user = { storagePath: () => storagePath };
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  // A Core 300S keeps the timer it was given, like the library does after setTimer
+  const createDevice = (): any => {
+    const device: any = {
+      cid: 'core-cid',
+      uuid: 'core-uuid',
+      deviceName: 'Office Purifier',
+      deviceType: 'Core300S',
+      deviceStatus: 'on',
+      connectionStatus: 'online',
+      mode: 'manual',
+      speed: 1,
+      timer: null,
+      details: { mode: 'manual', speed: 1 },
+      getDetails: jest.fn().mockResolvedValue(true),
+      hasFeature: jest.fn((feature: string) => ['fan_speed', 'timer'].includes(feature)),
+      setTimer: jest.fn(async (hours: number) => {
+        device.timer = { duration: hours * 3600, action: 'off' };
+        return true;
+      }),
+      clearTimer: jest.fn(async () => {
+        device.timer = null;
+        return true;
+      }),
+    };
+    return device;
+  };
+
+  const setup = (device: any, deviceTimers?: DeviceTimersConfig, cached?: PlatformAccessory) => {
+    const platform = new TSVESyncPlatform(createMockLogger() as jest.Mocked<Logger>, {
+      platform: PLATFORM_NAME,
+      name: 'TSVESync',
+      deviceTimers,
+    } as any, api);
+    const accessory = cached ?? new api.platformAccessory(device.deviceName, api.hap.uuid.generate(device.cid));
+    const instance = new AirPurifierAccessory(platform, accessory, device);
+    const timer = accessory.getServiceById(api.hap.Service.Switch, 'timer');
+    return { accessory, instance, timer };
+  };
+
+  it('adds a Timer switch only when configured, and removes a cached one', () => {
+    const device = createDevice();
+    const { accessory, timer } = setup(device, { enabled: true });
+    expect(timer?.displayName).toBe('Timer');
+
+    expect(setup(device, undefined, accessory).timer).toBeUndefined();
+    expect(setup({ ...createDevice(), setTimer: undefined }, { enabled: true }).timer).toBeUndefined();
+  });
+
+  it('leaves out the Timer switch unless the registry or the library says the model has a timer', () => {
+    expect(setup({ ...createDevice(), hasFeature: undefined }, { enabled: true }).timer).toBeUndefined();
+    expect(setup({ ...createDevice(), hasFeature: jest.fn(() => false) }, { enabled: true }).timer).toBeUndefined();
+  });
+
+  it('starts a timer for the chosen duration and counts down', async () => {
+    jest.useFakeTimers({ now: 1_000_000 });
+    const device = createDevice();
+    const { timer } = setup(device, { enabled: true, duration: 30 });
+    const { Characteristic } = api.hap;
+
+    expect(await timer!.getCharacteristic(Characteristic.SetDuration).handleGetRequest()).toBe(1800);
+    await timer!.getCharacteristic(Characteristic.SetDuration).handleSetRequest(7200);
+    await timer!.getCharacteristic(Characteristic.On).handleSetRequest(true);
+
+    expect(device.setTimer).toHaveBeenCalledWith(2);
+    jest.setSystemTime(1_000_000 + 600_000);
+    expect(await timer!.getCharacteristic(Characteristic.RemainingDuration).handleGetRequest()).toBe(6600);
+    expect(await timer!.getCharacteristic(Characteristic.On).handleGetRequest()).toBe(true);
+
+    await timer!.getCharacteristic(Characteristic.On).handleSetRequest(false);
+    expect(device.clearTimer).toHaveBeenCalledTimes(1);
+    expect(await timer!.getCharacteristic(Characteristic.RemainingDuration).handleGetRequest()).toBe(0);
+  });
+
+  it('follows the time the device reports and keeps the countdown across a restart', async () => {
+    jest.useFakeTimers({ now: 1_000_000 });
+    const device = createDevice();
+    const { accessory, instance, timer } = setup(device, { enabled: true });
+    const { Characteristic } = api.hap;
+
+    device.details.timerRemain = 900;
+    await (instance as any).syncDeviceState();
+    expect(timer!.getCharacteristic(Characteristic.RemainingDuration).value).toBe(900);
+
+    jest.setSystemTime(1_000_000 + 300_000);
+    const restarted = setup({ ...createDevice(), timer: null }, { enabled: true }, accessory);
+    await (restarted.instance as any).syncDeviceState();
+    expect(restarted.timer!.getCharacteristic(Characteristic.RemainingDuration).value).toBe(600);
+
+    device.deviceStatus = 'off';
+    await (instance as any).syncDeviceState();
+    expect(timer!.getCharacteristic(Characteristic.On).value).toBe(false);
+  });
+
+  it('refuses to start a timer while the device is off', async () => {
+    const device = createDevice();
+    device.deviceStatus = 'off';
+    const { timer } = setup(device, { enabled: true });
+
+    await expect(timer!.getCharacteristic(api.hap.Characteristic.On).handleSetRequest(true)).rejects.toBeDefined();
+    expect(device.setTimer).not.toHaveBeenCalled();
+  });
+});
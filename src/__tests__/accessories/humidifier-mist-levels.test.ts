@@ -0,0 +1,159 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Logger } from 'homebridge';
+import { HomebridgeAPI } from 'homebridge/lib/api';
+import { HumidifierAccessory } from '../../accessories/humidifier.accessory';
+import { TSVESyncPlatform } from '../../platform';
+import { PLATFORM_NAME } from '../../settings';
+import { createMockLogger } from '../utils/test-helpers';
+
+describe('HumidifierAccessory mist levels', () => {
+  let storagePath: string;
+  let api: HomebridgeAPI;
+
+  beforeEach(() => {
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'tsvesync-humidifier-'));
+    api = new HomebridgeAPI();
+    (api as any).user = { storagePath: () => storagePath };
+  });
+
+  afterEach(() => {
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  const createDevice = (deviceType: string, overrides: Record<string, unknown> = {}): any => ({
+    cid: `${deviceType}-cid`,
+    uuid: `${deviceType}-uuid`,
+    deviceName: 'Office Humidifier',
+    deviceType,
+    deviceStatus: 'on',
+    connectionStatus: 'online',
+    mode: 'manual',
+    humidity: 45,
+    mistLevel: 2,
+    speed: 2,
+    details: {},
+    getDetails: jest.fn().mockResolvedValue(true),
+    hasFeature: jest.fn(() => false),
+    setMistLevel: jest.fn().mockResolvedValue(true),
+    ...overrides,
+  });
+
+  const setup = (
+    device: any,
+    humidifierMistLevels?: boolean,
+    accessory = new api.platformAccessory(device.deviceName, api.hap.uuid.generate(device.cid)),
+    extraConfig: Record<string, unknown> = {},
+  ) => {
+    const platform = new TSVESyncPlatform(createMockLogger() as jest.Mocked<Logger>, {
+      platform: PLATFORM_NAME,
+      name: 'TSVESync',
+      humidifierMistLevels,
+      ...extraConfig,
+    } as any, api);
+    const instance = new HumidifierAccessory(platform, accessory, device);
+    const speed = accessory.getService(api.hap.Service.HumidifierDehumidifier)!
+      .getCharacteristic(api.hap.Characteristic.RotationSpeed);
+    return { accessory, instance, speed };
+  };
+
+  it('steps through the model\'s mist levels instead of percentages', async () => {
+    const device = createDevice('Classic200S');
+    const { speed } = setup(device, true);
+
+    expect(speed.props).toMatchObject({ minValue: 0, maxValue: 3, minStep: 1 });
+    expect(await speed.handleGetRequest()).toBe(2);
+
+    await speed.handleSetRequest(3);
+
+    expect(device.setMistLevel).toHaveBeenCalledWith(3);
+  });
+
+  it('keeps the percentage slider unless the option is set', async () => {
+    const { speed } = setup(createDevice('Classic200S'));
+
+    expect(speed.props.maxValue).toBe(100);
+    expect(await speed.handleGetRequest()).toBe(22);
+  });
+
+  it('goes back to percentages for a cached accessory once the option is turned off', async () => {
+    const device = createDevice('LUH-A602S-WUS', { mistLevel: 9, speed: 9 });
+    const { accessory } = setup(device, true);
+    const cached = api.platformAccessory.deserialize(api.platformAccessory.serialize(accessory as any));
+
+    const { speed } = setup(device, false, cached);
+
+    expect(speed.props).toMatchObject({ minValue: 0, maxValue: 100, minStep: 1 });
+    expect(await speed.handleGetRequest()).toBe(100);
+  });
+
+  it('adds a Warm Mist fan that sets the warm mist level on its own', async () => {
+    const device = createDevice('LUH-A602S-WUS', {
+      details: { warm_level: 0, warm_enabled: false },
+      hasFeature: jest.fn((feature: string) => feature === 'warm'),
+      // Like the library, which only takes the levels in warmLevels
+      setWarmLevel: jest.fn(async (level: number) => {
+        if (![1, 2, 3].includes(level)) {
+          throw new Error(`Invalid warm level: ${level}. Must be one of: 1, 2, 3`);
+        }
+        device.details = { warm_level: level, warm_enabled: true };
+        return true;
+      }),
+    });
+    // Warm mist does not depend on humidifierMistLevels
+    const { accessory, instance } = setup(device);
+    const { Characteristic } = api.hap;
+    const warmMist = accessory.getServiceById(api.hap.Service.Fanv2, 'warm-mist')!;
+
+    expect(warmMist.getCharacteristic(Characteristic.RotationSpeed).props).toMatchObject({ minValue: 1, maxValue: 3, minStep: 1 });
+    await (instance as any).updateDeviceSpecificStates(device);
+    expect(warmMist.getCharacteristic(Characteristic.Active).value).toBe(0);
+
+    await warmMist.getCharacteristic(Characteristic.Active).handleSetRequest(1);
+    await warmMist.getCharacteristic(Characteristic.RotationSpeed).handleSetRequest(3);
+    expect(warmMist.getCharacteristic(Characteristic.RotationSpeed).value).toBe(3);
+
+    // The library can't turn warm mist off, so HomeKit goes back to showing it on
+    await warmMist.getCharacteristic(Characteristic.Active).handleSetRequest(0);
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(device.setWarmLevel.mock.calls).toEqual([[1], [3]]);
+    expect(warmMist.getCharacteristic(Characteristic.Active).value).toBe(1);
+    expect(device.setMistLevel).not.toHaveBeenCalled();
+  });
+
+  it('replaces the Warm Mist light of earlier versions', () => {
+    const device = createDevice('LUH-A602S-WUS', {
+      hasFeature: jest.fn((feature: string) => feature === 'warm'),
+      setWarmLevel: jest.fn().mockResolvedValue(true),
+    });
+    const cached = new api.platformAccessory(device.deviceName, api.hap.uuid.generate(device.cid));
+    cached.addService(api.hap.Service.Lightbulb, 'Warm Mist', 'warm-mist');
+
+    const { accessory } = setup(device, false, cached);
+
+    expect(accessory.getServiceById(api.hap.Service.Lightbulb, 'warm-mist')).toBeUndefined();
+    expect(accessory.getServiceById(api.hap.Service.Fanv2, 'warm-mist')).toBeDefined();
+  });
+
+  it('follows the model registry\'s features for warm mist before the library\'s', () => {
+    const warmDevice = (libraryHasWarm: boolean) => createDevice('LUH-A602S-WUS', {
+      hasFeature: jest.fn((feature: string) => libraryHasWarm && feature === 'warm'),
+      setWarmLevel: jest.fn().mockResolvedValue(true),
+    });
+    const withFeatures = (features: string[]) => ({ modelOverrides: [{ model: 'LUH-A602S-WUS', features }] });
+
+    const added = setup(warmDevice(false), false, undefined, withFeatures(['warm', 'mist'])).accessory;
+    const removed = setup(warmDevice(true), false, undefined, withFeatures(['mist'])).accessory;
+
+    expect(added.getServiceById(api.hap.Service.Fanv2, 'warm-mist')).toBeDefined();
+    expect(removed.getServiceById(api.hap.Service.Fanv2, 'warm-mist')).toBeUndefined();
+  });
+
+  it('leaves out warm mist when the library cannot set it', () => {
+    const { accessory } = setup(createDevice('LUH-A602S-WUS', { hasFeature: jest.fn(() => true) }), true);
+
+    expect(accessory.getServiceById(api.hap.Service.Fanv2, 'warm-mist')).toBeUndefined();
+  });
+});
@@ -0,0 +1,152 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Logger, PlatformAccessory, Service } from 'homebridge';
+import { HomebridgeAPI } from 'homebridge/lib/api';
+import { HumidifierAccessory } from '../../accessories/humidifier.accessory';
+import { TSVESyncPlatform } from '../../platform';
+import { PLATFORM_NAME } from '../../settings';
+import { HumidifierSwitch } from '../../types/device.types';
+import { createMockLogger } from '../utils/test-helpers';
+
+describe('HumidifierAccessory optional switches', () => {
+  let storagePath: string;
+  let api: HomebridgeAPI;
+
+  beforeEach(() => {
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'tsvesync-humidifier-'));
+    api = new HomebridgeAPI();
+    (api as any).user = { storagePath: () => storagePath };
+  });
+
+  afterEach(() => {
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  // A Superior 6000S: display and drying mode, but no automatic stop
+  const createSuperior = () => {
+    const device: any = {
+      cid: 'superior-cid',
+      uuid: 'superior-uuid',
+      deviceName: 'Bedroom Humidifier',
+      deviceType: 'LEH-S601S-WUS',
+      deviceStatus: 'on',
+      connectionStatus: 'online',
+      mode: 'auto',
+      humidity: 50,
+      mistLevel: 3,
+      details: {
+        display: true,
+        drying_mode: { autoDryingSwitch: 1, dryingState: 1, dryingRemain: 5400 },
+      },
+      getDetails: jest.fn().mockResolvedValue(true),
+      hasFeature: jest.fn((feature: string) => ['display', 'humidity', 'mist', 'auto_mode', 'drying'].includes(feature)),
+      setDisplay: jest.fn().mockResolvedValue(true),
+      setDryingModeEnabled: jest.fn().mockResolvedValue(true),
+    };
+    Object.defineProperties(device, {
+      dryingModeEnabled: { get: () => device.details.drying_mode?.autoDryingSwitch === 1 },
+      dryingModeState: { get: () => (device.details.drying_mode?.dryingState === 1 ? 'on' : 'off') },
+      dryingModeSecondsRemaining: { get: () => device.details.drying_mode?.dryingRemain || 0 },
+    });
+    return device;
+  };
+
+  const setup = (device: any, humidifierSwitches?: HumidifierSwitch[], cached?: PlatformAccessory) => {
+    const platform = new TSVESyncPlatform(createMockLogger() as jest.Mocked<Logger>, {
+      platform: PLATFORM_NAME,
+      name: 'TSVESync',
+      humidifierSwitches,
+    } as any, api);
+    const accessory = cached ?? new api.platformAccessory(device.deviceName, api.hap.uuid.generate(device.cid));
+    const instance = new HumidifierAccessory(platform, accessory, device);
+    const switchFor = (subtype: string): Service | undefined => accessory.getServiceById(api.hap.Service.Switch, subtype);
+    return { accessory, instance, switchFor };
+  };
+
+  it('adds only the configured switches the model supports', () => {
+    const { switchFor } = setup(createSuperior(), ['display', 'autoStop', 'dryingMode']);
+
+    expect(switchFor('display')?.displayName).toBe('Display');
+    expect(switchFor('dryingMode')?.displayName).toBe('Drying Mode');
+    expect(switchFor('autoStop')).toBeUndefined();
+  });
+
+  it('adds no switches unless they are configured, and removes cached ones', () => {
+    const device = createSuperior();
+    const { accessory } = setup(device, ['display', 'dryingMode']);
+
+    const { switchFor } = setup(device, undefined, accessory);
+
+    expect(switchFor('display')).toBeUndefined();
+    expect(switchFor('dryingMode')).toBeUndefined();
+  });
+
+  it('shows the drying time left and keeps the switches in sync with the device', async () => {
+    const device = createSuperior();
+    const { instance, switchFor } = setup(device, ['display', 'dryingMode']);
+    const { Characteristic } = api.hap;
+    const drying = switchFor('dryingMode')!;
+
+    await (instance as any).updateDeviceSpecificStates(device);
+    expect(drying.getCharacteristic(Characteristic.On).value).toBe(true);
+    expect(drying.getCharacteristic(Characteristic.RemainingDuration).value).toBe(5400);
+    expect(switchFor('display')!.getCharacteristic(Characteristic.On).value).toBe(true);
+
+    device.details = { display: false, drying_mode: { autoDryingSwitch: 1, dryingState: 2, dryingRemain: 0 } };
+    await (instance as any).updateDeviceSpecificStates(device);
+    expect(drying.getCharacteristic(Characteristic.RemainingDuration).value).toBe(0);
+    expect(switchFor('display')!.getCharacteristic(Characteristic.On).value).toBe(false);
+  });
+
+  it('sends switch writes to the device and holds the new state until the next refresh', async () => {
+    const device = createSuperior();
+    const { switchFor } = setup(device, ['display', 'dryingMode']);
+    const { Characteristic } = api.hap;
+
+    await switchFor('display')!.getCharacteristic(Characteristic.On).handleSetRequest(false);
+    await switchFor('dryingMode')!.getCharacteristic(Characteristic.On).handleSetRequest(false);
+
+    expect(device.setDisplay).toHaveBeenCalledWith(false);
+    expect(device.setDryingModeEnabled).toHaveBeenCalledWith(false);
+    expect(await switchFor('display')!.getCharacteristic(Characteristic.On).handleGetRequest()).toBe(false);
+    expect(await switchFor('dryingMode')!.getCharacteristic(Characteristic.On).handleGetRequest()).toBe(false);
+  });
+
+  it('controls auto stop through whichever call the model has', async () => {
+    const device: any = {
+      cid: 'classic-cid',
+      uuid: 'classic-uuid',
+      deviceName: 'Nursery Humidifier',
+      deviceType: 'Classic300S',
+      deviceStatus: 'on',
+      connectionStatus: 'online',
+      mode: 'manual',
+      humidity: 45,
+      details: { automatic_stop: true, automatic_stop_configured: false },
+      getDetails: jest.fn().mockResolvedValue(true),
+      hasFeature: jest.fn(() => false),
+      automaticStopOn: jest.fn().mockResolvedValue(true),
+      automaticStopOff: jest.fn().mockResolvedValue(true),
+    };
+    const { switchFor } = setup(device, ['autoStop', 'display']);
+    const autoStop = switchFor('autoStop')!.getCharacteristic(api.hap.Characteristic.On);
+
+    expect(switchFor('display')).toBeUndefined();
+    expect(await autoStop.handleGetRequest()).toBe(false);
+
+    await autoStop.handleSetRequest(true);
+
+    expect(device.automaticStopOn).toHaveBeenCalledTimes(1);
+    expect(await autoStop.handleGetRequest()).toBe(true);
+  });
+
+  it('reports a failed write back to HomeKit', async () => {
+    const device = createSuperior();
+    device.setDisplay.mockResolvedValue(false);
+    const { switchFor } = setup(device, ['display']);
+
+    await expect(switchFor('display')!.getCharacteristic(api.hap.Characteristic.On).handleSetRequest(false))
+      .rejects.toBeDefined();
+  });
+});
@@ -1,6 +1,7 @@
 import { Logger, PlatformAccessory } from 'homebridge';
 import { HumidifierAccessory } from '../../accessories/humidifier.accessory';
 import { TSVESyncPlatform } from '../../platform';
+import { ModelRegistry } from '../../utils/model-registry';
 import { createMockLogger } from '../utils/test-helpers';
 
 type CharacteristicStub = {
@@ -75,6 +76,7 @@ const createMockPlatform = (logger: jest.Mocked<Logger>) => {
     api: {
       updatePlatformAccessories: jest.fn(),
     },
+    modelRegistry: new ModelRegistry(),
     config: {
       debug: true,
       retry: {
@@ -79,7 +79,7 @@ describe('HomeKit name sanitization (issue #46)', () => {
         { name: 'Test Platform', username: 'u', password: 'p', platform: 'TSVESyncPlatform' } as any,
         mockAPI
       );
-      (platform as any).client = mockVeSync;
+      (platform as any).vesyncAccounts[0].client = mockVeSync;
 
       const stubAccessory = {
         initialize: jest.fn().mockResolvedValue(undefined),
@@ -307,6 +307,35 @@ describe('BaseAccessory', () => {
     });
   });
 
+  describe('update interval overrides', () => {
+    it('has no override when none is configured', () => {
+      expect(accessory.getUpdateIntervalOverride()).toBeUndefined();
+    });
+
+    it('uses the interval for the device type', () => {
+      (mockPlatform.config as any).updateIntervals = { types: { outlet: 900, airPurifier: 60 } };
+
+      expect(accessory.getUpdateIntervalOverride()).toBe(900 * 1000);
+    });
+
+    it('prefers a device entry matching the id or name over the type', () => {
+      (mockPlatform.config as any).updateIntervals = {
+        types: { outlet: 900 },
+        devices: [{ name: 'Test Device', updateInterval: 300 }],
+      };
+      expect(accessory.getUpdateIntervalOverride()).toBe(300 * 1000);
+
+      (mockPlatform.config as any).updateIntervals.devices = [{ id: '12345', updateInterval: 120 }];
+      expect(accessory.getUpdateIntervalOverride()).toBe(120 * 1000);
+    });
+
+    it('does not poll faster than the details cache TTL', () => {
+      (mockPlatform.config as any).updateIntervals = { types: { outlet: 10 } };
+
+      expect(accessory.getUpdateIntervalOverride()).toBe(60 * 1000);
+    });
+  });
+
   describe('utility methods', () => {
     it('should convert air quality values correctly', () => {
       expect((accessory as any).convertAirQualityToHomeKit(10)).toBe(1);  // EXCELLENT
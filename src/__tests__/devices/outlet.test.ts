@@ -144,7 +144,7 @@ describe('Outlet Device Tests', () => {
     // Initialize platform
     platform = new TSVESyncPlatform(mockLogger, defaultConfig, mockAPI);
     // Inject the mock VeSync client
-    (platform as any).client = mockVeSync;
+    (platform as any).vesyncAccounts[0].client = mockVeSync;
 
     // Mock DeviceFactory
     mockDeviceFactory.getAccessoryCategory.mockReturnValue(1); // 1 is the category for outlets
@@ -0,0 +1,487 @@
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import axios from 'axios';
+import mqtt from 'mqtt';
+import { createBroker } from 'aedes';
+import { Logger, PlatformAccessory } from 'homebridge';
+import { HomebridgeAPI } from 'homebridge/lib/api';
+import { TSVESyncPlatform } from '../../platform';
+import { PLATFORM_NAME } from '../../settings';
+import { BaseAccessory } from '../../accessories/base.accessory';
+import { accountFileSuffix } from '../../utils/session-store';
+import { createMockLogger } from '../utils/test-helpers';
+import {
+  DEVICE_NOT_FOUND,
+  MockVeSyncServer,
+  QUOTA_EXCEEDED,
+} from '../utils/mock-vesync-server';
+import {
+  ALL_DEVICE_FIXTURES,
+  CORE300S_FIXTURE,
+  ESW03_EUR_FIXTURE,
+  ESW15_FIXTURE,
+  KETTLE_FIXTURE,
+  LV600S_FIXTURE,
+} from '../utils/vesync-fixtures';
+
+jest.setTimeout(30000);
+
+const BYPASS_V2 = '/cloud/v2/deviceManaged/bypassV2';
+
+/**
+ * Boots the platform against the in-process mock VeSync cloud, using Homebridge's own API class
+ * (real HAP services and characteristics) with storage in a temp directory.
+ */
+describe('TSVESyncPlatform against a mock VeSync cloud', () => {
+  let server: MockVeSyncServer;
+  let storagePath: string;
+  let api: HomebridgeAPI;
+  let log: jest.Mocked<Logger>;
+  let platform: TSVESyncPlatform;
+
+  const launch = async (extraConfig: Record<string, unknown> = {}, cached: PlatformAccessory[] = []) => {
+    platform = new TSVESyncPlatform(log, {
+      platform: PLATFORM_NAME,
+      name: 'TSVESync',
+      username: 'user@example.com',
+      password: 'correct-horse',
+      apiUrl: server.url,
+      ...extraConfig,
+    } as any, api);
+    cached.forEach(accessory => platform.configureAccessory(accessory));
+    api.signalFinished();
+    await platform.isReady();
+  };
+
+  const accessoryFor = (cid: string): BaseAccessory => {
+    const uuid = api.hap.uuid.generate(cid);
+    return (platform as any).deviceAccessories.get(uuid);
+  };
+
+  const platformAccessoryFor = (cid: string): PlatformAccessory => {
+    const uuid = api.hap.uuid.generate(cid);
+    return platform.accessories.find(accessory => accessory.UUID === uuid)!;
+  };
+
+  // Syncs inside the details cache TTL are served from cache; expire it to force a cloud call
+  const syncNow = async (cid: string) => {
+    const accessory = accessoryFor(cid);
+    (accessory as any).lastDetailsFetch = 0;
+    await accessory.syncDeviceState();
+  };
+
+  beforeEach(async () => {
+    server = new MockVeSyncServer(ALL_DEVICE_FIXTURES);
+    await server.start();
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'tsvesync-e2e-'));
+    api = new HomebridgeAPI();
+    (api as any).user = { storagePath: () => storagePath, configPath: () => path.join(storagePath, 'config.json') };
+    jest.spyOn(api, 'registerPlatformAccessories');
+    log = createMockLogger();
+    // HAP warns about characteristic values it coerces; keep the suite output readable
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    api.signalShutdown();
+    jest.restoreAllMocks();
+    await server.stop();
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  it('logs in with the two-step flow and bridges every scripted device', async () => {
+    await launch();
+
+    const paths = server.requests.map(request => request.path);
+    expect(paths.slice(0, 3)).toEqual([
+      '/globalPlatform/api/accountAuth/v1/authByPWDOrOTM',
+      '/user/api/accountManage/v1/loginByAuthorizeCode4Vesync',
+      '/cloud/v1/deviceManaged/devices',
+    ]);
+    expect(server.requestsTo(BYPASS_V2, 'getPurifierStatus')).not.toHaveLength(0);
+    expect(server.requestsTo(BYPASS_V2, 'getHumidifierStatus')).not.toHaveLength(0);
+    expect(server.requestsTo(BYPASS_V2, 'getLightStatus')).not.toHaveLength(0);
+    expect(server.requestsTo(BYPASS_V2, 'getTowerFanStatus')).not.toHaveLength(0);
+    expect(server.requestsTo('/15a/v1/device/devicedetail')).not.toHaveLength(0);
+
+    const names = platform.accessories.map(accessory => accessory.displayName).sort();
+    expect(names).toEqual([
+      'Bedroom Purifier',
+      'Bedroom Purifier Air Quality',
+      'Desk Lamp',
+      'Kitchen Plug',
+      'Living Room Fan',
+      'Nursery Humidifier',
+    ]);
+    expect(api.registerPlatformAccessories).toHaveBeenCalled();
+    expect(fs.existsSync(path.join(storagePath, 'tsvesync', `session${accountFileSuffix('user@example.com', storagePath)}.json`))).toBe(true);
+  });
+
+  it('reflects scripted device state in HomeKit characteristics', async () => {
+    await launch();
+    const { Service, Characteristic } = api.hap;
+
+    const purifier = platformAccessoryFor(CORE300S_FIXTURE.list.cid).getService(Service.AirPurifier)!;
+    expect(purifier.getCharacteristic(Characteristic.Active).value).toBe(Characteristic.Active.ACTIVE);
+
+    const humidifier = platformAccessoryFor(LV600S_FIXTURE.list.cid).getService(Service.HumidifierDehumidifier)!;
+    expect(humidifier.getCharacteristic(Characteristic.CurrentRelativeHumidity).value).toBe(45);
+
+    const outlet = platformAccessoryFor(ESW15_FIXTURE.list.cid).getService(Service.Outlet)!;
+    expect(outlet.getCharacteristic(Characteristic.On).value).toBe(true);
+  });
+
+  it('sends HomeKit writes to the cloud', async () => {
+    await launch();
+    const { Service, Characteristic } = api.hap;
+    const outlet = platformAccessoryFor(ESW15_FIXTURE.list.cid).getService(Service.Outlet)!;
+
+    await outlet.getCharacteristic(Characteristic.On).handleSetRequest(false);
+
+    const writes = server.requestsTo('/15a/v1/device/devicestatus');
+    expect(writes).toHaveLength(1);
+    expect(writes[0].body).toMatchObject({ uuid: ESW15_FIXTURE.list.uuid, status: 'off' });
+    expect(server.device(ESW15_FIXTURE.list.cid).status.deviceStatus).toBe('off');
+  });
+
+  it('re-authenticates when the cloud rejects the token', async () => {
+    await launch();
+    server.expireToken();
+
+    await syncNow(CORE300S_FIXTURE.list.cid);
+
+    expect(server.requestsTo('/user/api/accountManage/v1/loginByAuthorizeCode4Vesync')).toHaveLength(2);
+    const statusCalls = server.requestsTo(BYPASS_V2, 'getPurifierStatus');
+    expect(statusCalls[statusCalls.length - 1].body.token).not.toBe(statusCalls[0].body.token);
+  });
+
+  it('keeps the last known state when the daily quota is exceeded', async () => {
+    await launch();
+    const { Service, Characteristic } = api.hap;
+    server.failNext({ path: BYPASS_V2, cid: LV600S_FIXTURE.list.cid }, { code: QUOTA_EXCEEDED, msg: 'quota exceeded' });
+    server.device(LV600S_FIXTURE.list.cid).status.getHumidifierStatus.humidity = 60;
+    const callsBefore = server.requestsTo(BYPASS_V2, 'getHumidifierStatus').length;
+
+    await syncNow(LV600S_FIXTURE.list.cid);
+
+    expect(server.requestsTo(BYPASS_V2, 'getHumidifierStatus')).toHaveLength(callsBefore + 1);
+    const humidifier = platformAccessoryFor(LV600S_FIXTURE.list.cid).getService(Service.HumidifierDehumidifier)!;
+    expect(humidifier.getCharacteristic(Characteristic.CurrentRelativeHumidity).value).toBe(45);
+  });
+
+  it('survives a device the cloud no longer knows', async () => {
+    await launch();
+    server.failNext({ uuid: ESW15_FIXTURE.list.uuid }, { code: DEVICE_NOT_FOUND, msg: 'device not found' });
+
+    await expect(syncNow(ESW15_FIXTURE.list.cid)).resolves.toBeUndefined();
+
+    const { Service, Characteristic } = api.hap;
+    const outlet = platformAccessoryFor(ESW15_FIXTURE.list.cid).getService(Service.Outlet)!;
+    expect(outlet.getCharacteristic(Characteristic.On).value).toBe(true);
+  });
+
+  it('publishes state to MQTT and applies MQTT commands through the HomeKit setters', async () => {
+    const broker = await createBroker();
+    const brokerServer = net.createServer(broker.handle);
+    await new Promise<void>(resolve => brokerServer.listen(0, '127.0.0.1', resolve));
+    const url = `mqtt://127.0.0.1:${(brokerServer.address() as net.AddressInfo).port}`;
+    const client = await mqtt.connectAsync(url);
+    const states = new Map<string, any>();
+    client.on('message', (topic, payload) => states.set(topic, JSON.parse(payload.toString())));
+    await client.subscribeAsync('tsvesync/+/state');
+
+    try {
+      await launch({ mqtt: { enabled: true, url } });
+      const waitFor = async (predicate: () => boolean) => {
+        const deadline = Date.now() + 10000;
+        while (!predicate() && Date.now() < deadline) {
+          await new Promise(resolve => setTimeout(resolve, 50));
+        }
+        expect(predicate()).toBe(true);
+      };
+
+      const stateTopic = `tsvesync/${CORE300S_FIXTURE.list.cid}/state`;
+      await waitFor(() => states.has(stateTopic));
+      expect(states.get(stateTopic)).toMatchObject({ name: 'Bedroom Purifier', model: 'Core300S', online: true, active: 1 });
+      expect(states.get(`tsvesync/${LV600S_FIXTURE.list.cid}/state`)).toMatchObject({ currentRelativeHumidity: 45 });
+
+      await client.publishAsync(`tsvesync/${CORE300S_FIXTURE.list.cid}/set`, JSON.stringify({ active: 0 }));
+
+      await waitFor(() => server.requestsTo(BYPASS_V2).some(request =>
+        request.body.cid === CORE300S_FIXTURE.list.cid && request.method?.startsWith('set')));
+      await waitFor(() => states.get(stateTopic)?.active === 0);
+      expect(platformAccessoryFor(CORE300S_FIXTURE.list.cid).getService(api.hap.Service.AirPurifier)!
+        .getCharacteristic(api.hap.Characteristic.Active).value).toBe(0);
+
+      // Values outside the characteristic's range are refused before reaching the device
+      const writes = server.requestsTo(BYPASS_V2).length;
+      await client.publishAsync(`tsvesync/${CORE300S_FIXTURE.list.cid}/set`, JSON.stringify({ rotationSpeed: 150 }));
+      await waitFor(() => log.warn.mock.calls.some(call => String(call[0]).includes('Invalid value for Rotation Speed')));
+      expect(server.requestsTo(BYPASS_V2)).toHaveLength(writes);
+    } finally {
+      await client.endAsync();
+      await platform.mqttBridge?.stop();
+      await new Promise<void>(resolve => broker.close(() => resolve()));
+      await new Promise<void>(resolve => brokerServer.close(() => resolve()));
+    }
+  });
+
+  it('serves Prometheus metrics for API usage, logins and device readings', async () => {
+    await launch({ metrics: { enabled: true, port: 0, host: '127.0.0.1' } });
+    await syncNow(CORE300S_FIXTURE.list.cid);
+
+    const { data: text } = await axios.get<string>(`http://127.0.0.1:${platform.metricsServer!.port}/metrics`, { responseType: 'text' });
+    await platform.metricsServer!.stop();
+
+    const account = 'account="user@example.com"';
+    expect(text).toContain(`tsvesync_api_calls_total{${account},method="getDetails"} 1`);
+    expect(text).toMatch(new RegExp(`tsvesync_quota_used\\{${account}\\} [1-9]`));
+    expect(text).toContain(`tsvesync_login_failures_total{${account}} 0`);
+    expect(text).toMatch(new RegExp(`tsvesync_api_queue_dispatched_total\\{${account},priority="poll"\\} [1-9]`));
+    expect(text).toContain(`tsvesync_api_queue_dropped_total{${account},priority="write"} 0`);
+    expect(text).toContain(`tsvesync_device_online{id="${ESW15_FIXTURE.list.cid}",name="Kitchen Plug",type="outlet"} 1`);
+    expect(text).toContain(`tsvesync_relative_humidity_percent{id="${LV600S_FIXTURE.list.cid}",name="Nursery Humidifier",type="humidifier"} 45`);
+    expect(text).toContain(`tsvesync_filter_life_percent{id="${CORE300S_FIXTURE.list.cid}",name="Bedroom Purifier",type="airPurifier"} 82`);
+    expect(text).toContain(`tsvesync_pm25_density{id="${CORE300S_FIXTURE.list.cid}-air-quality",name="Bedroom Purifier Air Quality",type="airPurifier"} 4`);
+    expect(text).toContain(`tsvesync_power_watts{id="${ESW15_FIXTURE.list.cid}",name="Kitchen Plug",type="outlet"} 12.5`);
+    expect(text).toContain(`tsvesync_energy_kwh{id="${ESW15_FIXTURE.list.cid}",name="Kitchen Plug",type="outlet"} 0.5`);
+  });
+
+  it('exposes Eve energy characteristics and keeps the history on disk', async () => {
+    await launch();
+    await syncNow(ESW15_FIXTURE.list.cid);
+
+    const accessory = platformAccessoryFor(ESW15_FIXTURE.list.cid);
+    const outlet = accessory.getService(api.hap.Service.Outlet)!;
+    const eve = (uuid: string) => outlet.characteristics.find(characteristic => characteristic.UUID === uuid)!;
+    expect(eve('E863F10D-079E-48FF-8F27-9C2605A29F52').value).toBe(12.5);
+    expect(eve('E863F10A-079E-48FF-8F27-9C2605A29F52').value).toBeCloseTo(120.1);
+    expect(accessory.services.some(service => service.UUID === 'E863F007-079E-48FF-8F27-9C2605A29F52')).toBe(true);
+
+    // Readings are saved in batches, but resetting the total saves right away
+    const file = path.join(storagePath, 'tsvesync', 'history', `energy-${accessory.UUID}.json`);
+    await eve('E863F112-079E-48FF-8F27-9C2605A29F52').handleSetRequest(800000000);
+    expect(eve('E863F10C-079E-48FF-8F27-9C2605A29F52').value).toBe(0);
+    const saved = JSON.parse(fs.readFileSync(file, 'utf8'));
+    expect(saved.resetTime).toBe(800000000);
+    expect(saved.samples[0].power).toBe(12.5);
+
+    // Shutdown writes the readings still waiting to be saved; read this one in the same sample
+    jest.spyOn(Date, 'now').mockReturnValue(saved.lastReadingTime * 1000);
+    await syncNow(ESW15_FIXTURE.list.cid);
+    api.signalShutdown();
+    expect(JSON.parse(fs.readFileSync(file, 'utf8')).readings).toBe(saved.readings + 1);
+  });
+
+  it('records outlet energy use into the energy report', async () => {
+    // An earlier reading of the outlet's daily energy counter, from before a restart
+    const usageFile = path.join(storagePath, 'tsvesync', 'energy-usage.json');
+    fs.mkdirSync(path.dirname(usageFile), { recursive: true });
+    fs.writeFileSync(usageFile, JSON.stringify({
+      devices: { [ESW15_FIXTURE.list.cid]: { name: 'Kitchen Plug', hours: {}, lastEnergy: 0.1, lastReadingTime: Math.floor(Date.now() / 1000) - 600 } },
+    }));
+
+    await launch({ energyReports: { enabled: true, rate: 0.25, currency: 'USD', timeZone: 'UTC' } });
+    await syncNow(ESW15_FIXTURE.list.cid);
+    await platform.energyReports!.flush();
+
+    const report = JSON.parse(fs.readFileSync(path.join(storagePath, 'tsvesync', 'energy-report.json'), 'utf8'));
+    expect(report.devices).toEqual([
+      expect.objectContaining({ id: ESW15_FIXTURE.list.cid, name: 'Kitchen Plug' }),
+    ]);
+    expect(report.devices[0].daily[0]).toMatchObject({ kWh: 0.4, cost: 0.1 });
+  });
+
+  describe('with outletInUse load detection', () => {
+    // Feed the outlet a power reading taken some seconds after the test started
+    const readPower = async (power: string, secondsLater: number, start: number) => {
+      const outlet = accessoryFor(ESW15_FIXTURE.list.cid) as any;
+      outlet.device.details.power = power;
+      jest.spyOn(Date, 'now').mockReturnValue(start + secondsLater * 1000);
+      await outlet.updateDeviceSpecificStates(outlet.device);
+    };
+
+    it('keeps the outlet in use until the power stays below the threshold for the hold-off', async () => {
+      await launch({ outletInUse: [{ name: 'Kitchen Plug', threshold: 10, holdOff: 300, event: 'contact' }] });
+      const { Service, Characteristic } = api.hap;
+      const accessory = platformAccessoryFor(ESW15_FIXTURE.list.cid);
+      const inUse = accessory.getService(Service.Outlet)!.getCharacteristic(Characteristic.OutletInUse);
+      const contact = accessory.getServiceById(Service.ContactSensor, 'load-contact')!.getCharacteristic(Characteristic.ContactSensorState);
+      expect(inUse.value).toBe(true);
+      expect(contact.value).toBe(Characteristic.ContactSensorState.CONTACT_NOT_DETECTED);
+
+      const start = Date.now();
+      await readPower('2.1', 60, start);
+      await readPower('2.0', 300, start);
+      expect(inUse.value).toBe(true);
+      expect(log.info).not.toHaveBeenCalledWith('Kitchen Plug: Load finished');
+
+      await readPower('1.9', 400, start);
+      expect(inUse.value).toBe(false);
+      expect(contact.value).toBe(Characteristic.ContactSensorState.CONTACT_DETECTED);
+      expect(log.info).toHaveBeenCalledWith('Kitchen Plug: Load finished');
+
+      await readPower('800', 460, start);
+      expect(inUse.value).toBe(true);
+      expect(log.info).toHaveBeenCalledWith('Kitchen Plug: Load started');
+    });
+
+    it('presses the load button when a load starts and double-presses it when it finishes', async () => {
+      await launch({ outletInUse: [{ id: ESW15_FIXTURE.list.cid, threshold: 20, event: 'button' }] });
+      const { Service, Characteristic } = api.hap;
+      const accessory = platformAccessoryFor(ESW15_FIXTURE.list.cid);
+      expect(accessory.getServiceById(Service.ContactSensor, 'load-contact')).toBeUndefined();
+      const presses: unknown[] = [];
+      accessory.getServiceById(Service.StatelessProgrammableSwitch, 'load-button')!
+        .getCharacteristic(Characteristic.ProgrammableSwitchEvent)
+        .on('change', change => presses.push(change.newValue));
+
+      const start = Date.now();
+      await readPower('25', 60, start);
+      await readPower('3', 120, start);
+
+      expect(presses).toEqual([
+        Characteristic.ProgrammableSwitchEvent.SINGLE_PRESS,
+        Characteristic.ProgrammableSwitchEvent.DOUBLE_PRESS,
+      ]);
+    });
+  });
+
+  describe('with humidifierWaterSensors', () => {
+    const setTank = (flags: { water_lacks?: boolean; water_tank_lifted?: boolean }) => {
+      Object.assign(server.device(LV600S_FIXTURE.list.cid).status.getHumidifierStatus, flags);
+    };
+
+    it('trips a leak sensor when the tank runs empty and clears it once refilled', async () => {
+      await launch({ humidifierWaterSensors: 'leak' });
+      const { Service, Characteristic } = api.hap;
+      const accessory = platformAccessoryFor(LV600S_FIXTURE.list.cid);
+      const empty = accessory.getServiceById(Service.LeakSensor, 'water-empty')!.getCharacteristic(Characteristic.LeakDetected);
+      const lifted = accessory.getServiceById(Service.LeakSensor, 'tank-lifted')!.getCharacteristic(Characteristic.LeakDetected);
+      expect(empty.value).toBe(Characteristic.LeakDetected.LEAK_NOT_DETECTED);
+
+      setTank({ water_lacks: true });
+      await syncNow(LV600S_FIXTURE.list.cid);
+      expect(empty.value).toBe(Characteristic.LeakDetected.LEAK_DETECTED);
+      expect(lifted.value).toBe(Characteristic.LeakDetected.LEAK_NOT_DETECTED);
+
+      // A second sync this soon is debounced, so refill the tank in the cached details
+      const humidifier = accessoryFor(LV600S_FIXTURE.list.cid) as any;
+      humidifier.device.details.water_lacks = false;
+      await humidifier.updateDeviceSpecificStates(humidifier.device);
+      expect(empty.value).toBe(Characteristic.LeakDetected.LEAK_NOT_DETECTED);
+    });
+
+    it('replaces leak sensors with contact sensors that open while the tank is lifted', async () => {
+      const { Service, Characteristic } = api.hap;
+      const cached = new api.platformAccessory('Nursery Humidifier', api.hap.uuid.generate(LV600S_FIXTURE.list.cid));
+      cached.context.device = { ...LV600S_FIXTURE.list };
+      cached.addService(Service.LeakSensor, 'Tank Lifted', 'tank-lifted');
+      setTank({ water_tank_lifted: true });
+
+      await launch({ humidifierWaterSensors: 'contact' }, [cached]);
+      const accessory = platformAccessoryFor(LV600S_FIXTURE.list.cid);
+      expect(accessory.getServiceById(Service.LeakSensor, 'tank-lifted')).toBeUndefined();
+      const lifted = accessory.getServiceById(Service.ContactSensor, 'tank-lifted')!;
+      expect(lifted.getCharacteristic(Characteristic.ContactSensorState).value)
+        .toBe(Characteristic.ContactSensorState.CONTACT_NOT_DETECTED);
+      expect(accessory.getServiceById(Service.ContactSensor, 'water-empty')!.getCharacteristic(Characteristic.ContactSensorState).value)
+        .toBe(Characteristic.ContactSensorState.CONTACT_DETECTED);
+    });
+  });
+
+  describe('with models the plugin does not know', () => {
+    const diagnosticsDir = () => path.join(storagePath, 'tsvesync', 'diagnostics');
+
+    beforeEach(async () => {
+      await server.stop();
+      server = new MockVeSyncServer([...ALL_DEVICE_FIXTURES, ESW03_EUR_FIXTURE, KETTLE_FIXTURE]);
+      await server.start();
+    });
+
+    it('leaves them out of HomeKit by default and says how to bridge them', async () => {
+      await launch();
+
+      expect(platformAccessoryFor(ESW03_EUR_FIXTURE.list.cid)).toBeUndefined();
+      expect(platformAccessoryFor(KETTLE_FIXTURE.list.cid)).toBeUndefined();
+      expect(platform.accessories).toHaveLength(6);
+      const messages = log.info.mock.calls.map(call => String(call[0]));
+      expect(messages.filter(message => message.includes('Hall Plug (ESW03-EUR)'))).toEqual([
+        expect.stringContaining('Add its model to modelOverrides'),
+      ]);
+      expect(messages.some(message => message.includes('Kitchen Kettle (EKA17-WUS)'))).toBe(true);
+      expect(fs.existsSync(diagnosticsDir())).toBe(false);
+    });
+
+    it('keeps an accessory an earlier version bridged as an outlet, uncontrolled', async () => {
+      jest.spyOn(api, 'unregisterPlatformAccessories');
+      const cached = new api.platformAccessory('Hall Plug', api.hap.uuid.generate(ESW03_EUR_FIXTURE.list.cid));
+      cached.context.device = { ...ESW03_EUR_FIXTURE.list };
+
+      await launch({}, [cached]);
+
+      expect(api.unregisterPlatformAccessories).not.toHaveBeenCalled();
+      expect(platform.accessories).toContain(cached);
+      expect(log.warn).toHaveBeenCalledWith(expect.stringContaining('"Hall Plug" is for a model the plugin does not know (ESW03-EUR)'));
+    });
+
+    it('removes an accessory an earlier version bridged as an outlet with removeUnknownAccessories', async () => {
+      jest.spyOn(api, 'unregisterPlatformAccessories');
+      const cached = new api.platformAccessory('Hall Plug', api.hap.uuid.generate(ESW03_EUR_FIXTURE.list.cid));
+      cached.context.device = { ...ESW03_EUR_FIXTURE.list };
+
+      await launch({ removeUnknownAccessories: true }, [cached]);
+
+      expect(api.unregisterPlatformAccessories).toHaveBeenCalledWith(expect.any(String), PLATFORM_NAME, [cached]);
+      expect(platformAccessoryFor(ESW03_EUR_FIXTURE.list.cid)).toBeUndefined();
+    });
+
+    it('bridges them as a power switch under power-switch-only', async () => {
+      await launch({ unknownDevices: 'power-switch-only' });
+      const { Service, Characteristic } = api.hap;
+      const accessory = platformAccessoryFor(ESW03_EUR_FIXTURE.list.cid);
+      expect(accessory.getService(Service.Outlet)).toBeUndefined();
+
+      await accessory.getService(Service.Switch)!.getCharacteristic(Characteristic.On).handleSetRequest(true);
+
+      const writes = server.requestsTo('/10a/v1/device/devicestatus');
+      expect(writes).toHaveLength(1);
+      expect(writes[0].body).toMatchObject({ uuid: ESW03_EUR_FIXTURE.list.uuid, status: 'on' });
+      // The library has no device object for the kettle, so there is nothing to bridge
+      expect(platformAccessoryFor(KETTLE_FIXTURE.list.cid)).toBeUndefined();
+    });
+
+    it('writes redacted diagnostics under the diagnostic policy', async () => {
+      await launch({ unknownDevices: 'diagnostic' });
+
+      expect(platformAccessoryFor(ESW03_EUR_FIXTURE.list.cid)).toBeUndefined();
+      const files = fs.readdirSync(diagnosticsDir()).sort();
+      expect(files).toEqual([expect.stringMatching(/^EKA17-WUS-[0-9a-f]{12}\.json$/), expect.stringMatching(/^ESW03-EUR-[0-9a-f]{12}\.json$/)]);
+
+      const plugText = fs.readFileSync(path.join(diagnosticsDir(), files[1]), 'utf8');
+      for (const secret of [ESW03_EUR_FIXTURE.list.cid, ESW03_EUR_FIXTURE.list.uuid, 'Hall Plug', 'user@example.com', (platform as any).vesyncAccounts[0].client.token]) {
+        expect(plugText).not.toContain(secret);
+      }
+      const plug = JSON.parse(plugText);
+      expect(plug.deviceListEntry).toMatchObject({ deviceType: 'ESW03-EUR', type: 'wifi-switch', cid: '[REDACTED]' });
+      expect(plug.details).toEqual([expect.objectContaining({
+        endpoint: '/10a/v1/device/devicedetail',
+        status: 200,
+        request: expect.objectContaining({ token: '[REDACTED]', uuid: '[REDACTED]' }),
+        response: expect.objectContaining({ code: 0, voltage: '230.2' }),
+      })]);
+
+      const kettle = JSON.parse(fs.readFileSync(path.join(diagnosticsDir(), files[0]), 'utf8'));
+      expect(kettle).toMatchObject({ deviceType: 'EKA17-WUS', details: null, deviceListEntry: { type: 'wifi-kettle' } });
+      expect(kettle.note).toContain('no device class');
+
+      // Recorded once per run, not on every device list refresh
+      const detailCalls = server.requestsTo('/10a/v1/device/devicedetail').length;
+      await platform.discoverDevices(false);
+      expect(server.requestsTo('/10a/v1/device/devicedetail')).toHaveLength(detailCalls);
+      expect(fs.readdirSync(diagnosticsDir())).toHaveLength(2);
+    });
+  });
+});
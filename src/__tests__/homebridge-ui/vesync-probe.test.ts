@@ -0,0 +1,125 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { listDevices, testLogin } from '../../homebridge-ui/vesync-probe';
+import { PluginLogger } from '../../utils/logger';
+import { accountFileSuffix } from '../../utils/session-store';
+import { MockVeSyncServer } from '../utils/mock-vesync-server';
+import { ALL_DEVICE_FIXTURES, CORE300S_FIXTURE, ESW15_FIXTURE } from '../utils/vesync-fixtures';
+
+jest.setTimeout(15000);
+
+const AUTH_STEP1 = '/globalPlatform/api/accountAuth/v1/authByPWDOrOTM';
+const AUTH_STEP2 = '/user/api/accountManage/v1/loginByAuthorizeCode4Vesync';
+
+describe('settings UI VeSync probe', () => {
+  let server: MockVeSyncServer;
+  let storagePath: string;
+  let logger: PluginLogger;
+
+  const credentials = (overrides: Record<string, string> = {}) => ({
+    username: 'user@example.com',
+    password: 'correct-horse',
+    apiUrl: server.url,
+    ...overrides,
+  });
+
+  const sessionFile = (username = 'user@example.com') =>
+    path.join(storagePath, 'tsvesync', `session${accountFileSuffix(username, storagePath)}.json`);
+
+  beforeEach(async () => {
+    server = new MockVeSyncServer(ALL_DEVICE_FIXTURES);
+    await server.start();
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'tsvesync-ui-'));
+    logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as unknown as PluginLogger;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  describe('testLogin', () => {
+    it('reports the region and endpoint of a successful login without saving a session', async () => {
+      const report = await testLogin(credentials());
+
+      expect(report).toMatchObject({ success: true, endpoint: server.url, authFlow: 'new', errorCodes: [] });
+      expect(fs.existsSync(sessionFile())).toBe(false);
+    });
+
+    it('diagnoses rejected credentials', async () => {
+      const report = await testLogin(credentials({ password: 'wrong' }));
+
+      expect(report).toMatchObject({ success: false, failure: 'credentials' });
+      expect(report.errorCodes).toEqual([{ code: -11201129, meaning: 'Account or password incorrect' }]);
+      expect(server.requestsTo(AUTH_STEP2)).toHaveLength(0);
+    });
+
+    it('asks for a country code when both regions reject the account', async () => {
+      server.failNext({ path: AUTH_STEP1 }, { code: -11260022, msg: 'cross region error' }, 2);
+
+      const report = await testLogin(credentials({ countryCode: 'US' }));
+
+      expect(report).toMatchObject({ success: false, failure: 'region' });
+      expect(report.errorCodes).toEqual([{ code: -11260022, meaning: 'Cross-region authentication error' }]);
+      expect(report.hints[0]).toContain('Country Code');
+    });
+  });
+
+  describe('listDevices', () => {
+    it('lists devices with their type, model and status, and flags excluded ones', async () => {
+      const listing = await listDevices(credentials(), storagePath, logger, {
+        exclude: { id: [ESW15_FIXTURE.list.cid], model: ['Core300S'] },
+      });
+
+      expect(listing.login.success).toBe(true);
+      expect(listing.devices.map(device => device.name)).toEqual([
+        'Bedroom Purifier', 'Desk Lamp', 'Kitchen Plug', 'Living Room Fan', 'Nursery Humidifier',
+      ]);
+      expect(listing.devices.find(device => device.cid === CORE300S_FIXTURE.list.cid)).toEqual({
+        name: 'Bedroom Purifier',
+        cid: CORE300S_FIXTURE.list.cid,
+        uuid: CORE300S_FIXTURE.list.uuid,
+        model: 'Core300S',
+        type: 'airPurifier',
+        online: true,
+        excludedBy: 'model',
+      });
+      expect(listing.devices.find(device => device.cid === ESW15_FIXTURE.list.cid)).toMatchObject({
+        type: 'outlet',
+        excludedBy: 'id',
+      });
+    });
+
+    it('saves a fresh login for the plugin and reuses it on the next listing', async () => {
+      await listDevices(credentials(), storagePath, logger);
+      const saved = JSON.parse(fs.readFileSync(sessionFile(), 'utf8'));
+      expect(saved).toMatchObject({ username: 'user@example.com', apiBaseUrl: server.url });
+
+      const listing = await listDevices(credentials(), storagePath, logger);
+
+      expect(listing.login).toMatchObject({ success: true, reusedSession: true });
+      expect(server.requestsTo(AUTH_STEP2)).toHaveLength(1);
+    });
+
+    it('leaves a saved session for a different account alone', async () => {
+      await listDevices(credentials(), storagePath, logger);
+      const saved = fs.readFileSync(sessionFile(), 'utf8');
+      await server.stop();
+      server = new MockVeSyncServer(ALL_DEVICE_FIXTURES, 'other@example.com');
+      await server.start();
+
+      const listing = await listDevices(credentials({ username: 'other@example.com' }), storagePath, logger);
+
+      expect(listing.login).toMatchObject({ success: true, reusedSession: false });
+      expect(fs.readFileSync(sessionFile(), 'utf8')).toBe(saved);
+    });
+
+    it('returns the login diagnosis when the credentials are rejected', async () => {
+      const listing = await listDevices(credentials({ password: 'wrong' }), storagePath, logger);
+
+      expect(listing.devices).toEqual([]);
+      expect(listing.login).toMatchObject({ success: false, failure: 'credentials' });
+    });
+  });
+});
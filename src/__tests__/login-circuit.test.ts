@@ -0,0 +1,169 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Logger } from 'homebridge';
+import { HomebridgeAPI } from 'homebridge/lib/api';
+import { TSVESyncPlatform } from '../platform';
+import { PLATFORM_NAME } from '../settings';
+import { PlatformConfig } from '../types/device.types';
+import { tapLibraryLogger } from '../utils/login-diagnosis';
+import { PluginLogger } from '../utils/logger';
+import { accountFileSuffix } from '../utils/session-store';
+import { VeSyncAccount } from '../utils/vesync-account';
+import { createMockLogger } from './utils/test-helpers';
+
+describe('Login circuit breaker', () => {
+  let storagePath: string;
+  let logger: PluginLogger;
+  let accounts: VeSyncAccount[];
+
+  const config = (password = 'wrong-password'): PlatformConfig => ({
+    platform: PLATFORM_NAME,
+    name: 'TSVESync',
+    username: 'test@example.com',
+    password,
+  });
+
+  // The library logs why a login failed and returns false
+  const failingLogin = (...lines: string[]) => jest.fn(async () => {
+    lines.forEach(line => tapLibraryLogger(logger).error(line));
+    return false;
+  });
+
+  const createAccount = (platformConfig = config()) => {
+    const account = new VeSyncAccount(
+      { username: platformConfig.username!, password: platformConfig.password! },
+      platformConfig,
+      storagePath,
+      logger,
+    );
+    accounts.push(account);
+    return account;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ advanceTimers: true });
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'tsvesync-login-'));
+    logger = new PluginLogger(createMockLogger(), false);
+    accounts = [];
+  });
+
+  afterEach(() => {
+    accounts.forEach(account => account.shutdown());
+    jest.useRealTimers();
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  it('stops logging in after VeSync rejects the credentials', async () => {
+    const account = createAccount();
+    const login = failingLogin('Credential error detected - invalid username or password');
+    (account as any).client.login = login;
+    const onLoginStateChange = jest.fn();
+    account.onLoginStateChange = onLoginStateChange;
+
+    expect(await account.ensureLogin(true)).toBe(false);
+    expect(await account.ensureLogin(true)).toBe(false);
+
+    expect(login).toHaveBeenCalledTimes(1);
+    expect(account.getLoginCircuit()?.failure).toBe('credentials');
+    expect(account.isLoginFailing()).toBe(true);
+    expect(onLoginStateChange).toHaveBeenCalled();
+  });
+
+  it('blames a rejected login only on the account that made it', async () => {
+    const rejected = createAccount();
+    const other = createAccount({ ...config(), username: 'other@example.com' });
+    let release!: () => void;
+    const reply = new Promise<void>(resolve => {
+      release = resolve;
+    });
+    (rejected as any).client.login = jest.fn(async () => {
+      await reply;
+      tapLibraryLogger(logger).error('Credential error detected - invalid username or password');
+      return false;
+    });
+    // The other account's first attempt fails for no stated reason, so it tries again
+    let otherAttempts = 0;
+    (other as any).client.login = jest.fn(async () => {
+      await reply;
+      return ++otherAttempts > 1;
+    });
+
+    const logins = Promise.all([rejected.ensureLogin(true), other.ensureLogin(true)]);
+    release();
+    await jest.advanceTimersByTimeAsync(20000);
+
+    expect(await logins).toEqual([false, true]);
+    expect(rejected.getLoginCircuit()?.failure).toBe('credentials');
+    expect(other.getLoginCircuit()).toBeNull();
+  });
+
+  it('keeps the circuit open across restarts until the account settings change', async () => {
+    const account = createAccount();
+    (account as any).client.login = failingLogin('AUTHENTICATION FAILED: COUNTRY CODE REQUIRED');
+    await account.ensureLogin(true);
+
+    const circuitFile = path.join(storagePath, 'tsvesync', `login-circuit${accountFileSuffix('test@example.com', storagePath)}.json`);
+    expect(fs.readFileSync(circuitFile, 'utf8')).not.toContain('wrong-password');
+
+    const restarted = createAccount();
+    await restarted.restoreSession();
+    expect(restarted.getLoginCircuit()?.failure).toBe('region');
+
+    const fixed = createAccount(config('right-password'));
+    await fixed.restoreSession();
+    expect(fixed.getLoginCircuit()).toBeNull();
+    expect(fs.existsSync(circuitFile)).toBe(false);
+  });
+
+  it('shows failing logins on the VeSync Connection sensor', async () => {
+    const api = new HomebridgeAPI();
+    (api as any).user = { storagePath: () => storagePath };
+    const platform = new TSVESyncPlatform(createMockLogger() as jest.Mocked<Logger>, {
+      ...config(),
+      connectionSensor: true,
+    } as any, api);
+    (platform as any).setupConnectionSensor();
+    const account: VeSyncAccount = (platform as any).vesyncAccounts[0];
+    accounts.push(account);
+    (account as any).client.login = failingLogin('Credential error detected - invalid username or password');
+
+    const sensor = platform.accessories.find(accessory => accessory.displayName === 'VeSync Connection')!;
+    const state = sensor.getService(api.hap.Service.ContactSensor)!.getCharacteristic(api.hap.Characteristic.ContactSensorState);
+    expect(await state.handleGetRequest()).toBe(api.hap.Characteristic.ContactSensorState.CONTACT_DETECTED);
+
+    await account.ensureLogin(true);
+
+    expect(state.value).toBe(api.hap.Characteristic.ContactSensorState.CONTACT_NOT_DETECTED);
+  });
+
+  it('starts without an account that cannot log in and discovers its devices once it logs in again', async () => {
+    const api = new HomebridgeAPI();
+    (api as any).user = { storagePath: () => storagePath };
+    const platform = new TSVESyncPlatform(createMockLogger() as jest.Mocked<Logger>, {
+      ...config(),
+      reloginSwitch: true,
+    } as any, api);
+    const account: VeSyncAccount = (platform as any).vesyncAccounts[0];
+    accounts.push(account);
+    (account as any).client.login = failingLogin('Credential error detected - invalid username or password');
+
+    api.emit('didFinishLaunching');
+    while (!(platform as any).deviceUpdateInterval) {
+      await jest.advanceTimersByTimeAsync(10);
+    }
+    expect(account.getLoginCircuit()?.failure).toBe('credentials');
+
+    const discoverDevices = jest.spyOn(platform, 'discoverDevices').mockResolvedValue();
+    (account as any).client.login = jest.fn(async () => true);
+    const reloginSwitch = platform.accessories.find(accessory => accessory.displayName === 'VeSync Log In Again')!;
+    await reloginSwitch.getService(api.hap.Service.Switch)!
+      .getCharacteristic(api.hap.Characteristic.On).handleSetRequest(true);
+    // The failed attempt at startup still holds off the next one
+    await jest.advanceTimersByTimeAsync(10000);
+
+    expect(account.isLoginFailing()).toBe(false);
+    expect(discoverDevices).toHaveBeenCalledWith(false);
+    api.emit('shutdown');
+  });
+});
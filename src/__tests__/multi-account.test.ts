@@ -0,0 +1,235 @@
+jest.mock('../utils/device-factory');
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { API, Logger, Service as ServiceType, Characteristic as CharacteristicType } from 'homebridge';
+import { TSVESyncPlatform } from '../platform';
+import { PLATFORM_NAME } from '../settings';
+import { DeviceFactory } from '../utils/device-factory';
+import { BaseAccessory } from '../accessories/base.accessory';
+import { VeSyncAccount, resolveAccountConfigs } from '../utils/vesync-account';
+import { createMockLogger, createMockVeSync } from './utils/test-helpers';
+
+const mockDeviceFactory = jest.mocked(DeviceFactory);
+
+const makeDevice = (cid: string, deviceName: string) => ({
+  deviceName,
+  deviceType: 'ESW15-USA',
+  cid,
+  uuid: `uuid-${cid}`,
+  deviceStatus: 'on',
+  deviceRegion: 'US',
+  configModule: 'Outlet',
+  macId: '00:11:22:33:44:55',
+  deviceCategory: 'wifi-wall-outlet',
+  connectionStatus: 'online',
+  details: {},
+  config: {},
+});
+
+describe('resolveAccountConfigs', () => {
+  it('puts the top-level credentials first, then the accounts array', () => {
+    const accounts = resolveAccountConfigs({
+      platform: PLATFORM_NAME,
+      name: 'Test',
+      username: 'primary@example.com',
+      password: 'pw-1',
+      countryCode: 'AU',
+      accounts: [{ username: 'second@example.com', password: 'pw-2' }],
+    });
+
+    expect(accounts.map(account => account.username)).toEqual(['primary@example.com', 'second@example.com']);
+    expect(accounts[0].countryCode).toBe('AU');
+  });
+
+  it('drops incomplete and duplicate accounts', () => {
+    const accounts = resolveAccountConfigs({
+      platform: PLATFORM_NAME,
+      name: 'Test',
+      accounts: [
+        { username: 'one@example.com', password: 'pw-1' },
+        { username: 'ONE@example.com ', password: 'pw-1' },
+        { username: 'two@example.com', password: '' },
+      ],
+    });
+
+    expect(accounts.map(account => account.username)).toEqual(['one@example.com']);
+  });
+});
+
+describe('TSVESyncPlatform with multiple accounts', () => {
+  let platform: TSVESyncPlatform;
+  let mockAPI: jest.Mocked<API>;
+  let mockLogger: jest.Mocked<Logger>;
+  let storagePath: string;
+
+  const createPlatform = (config: Record<string, unknown>) => new TSVESyncPlatform(
+    mockLogger,
+    { name: 'Test Platform', platform: PLATFORM_NAME, ...config } as any,
+    mockAPI,
+  );
+
+  beforeEach(() => {
+    jest.useFakeTimers({ advanceTimers: true });
+
+    mockLogger = createMockLogger();
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'tsvesync-accounts-'));
+
+    mockAPI = {
+      version: 2.0,
+      serverVersion: '1.0.0',
+      user: {
+        configPath: jest.fn(),
+        storagePath: jest.fn().mockImplementation(() => storagePath),
+        persistPath: jest.fn(),
+      },
+      hapLegacyTypes: {},
+      platformAccessory: jest.fn().mockImplementation((name, uuid, category) => ({
+        UUID: uuid,
+        displayName: name,
+        category,
+        context: {},
+        getService: jest.fn(),
+      })),
+      registerPlatformAccessories: jest.fn(),
+      unregisterPlatformAccessories: jest.fn(),
+      updatePlatformAccessories: jest.fn(),
+      on: jest.fn(),
+      emit: jest.fn(),
+      hap: {
+        Service: {} as unknown as typeof ServiceType,
+        Characteristic: {} as unknown as typeof CharacteristicType,
+        Categories: { SENSOR: 10 },
+        uuid: { generate: jest.fn().mockImplementation((id) => `test-uuid-${id}`) },
+      },
+    } as unknown as jest.Mocked<API>;
+
+    platform = createPlatform({
+      username: 'first@example.com',
+      password: 'pw-1',
+      accounts: [{ name: 'Second', username: 'second@example.com', password: 'pw-2' }],
+    });
+
+    const stubAccessory = {
+      initialize: jest.fn().mockResolvedValue(undefined),
+      syncDeviceState: jest.fn().mockResolvedValue(undefined),
+      applyUpdatedDeviceState: jest.fn(),
+      getUpdateIntervalOverride: jest.fn().mockReturnValue(undefined),
+      getActivity: jest.fn().mockReturnValue({ trackedSince: 0, lastStateChange: 0, lastInteraction: 0, offline: false }),
+    } as unknown as BaseAccessory;
+
+    mockDeviceFactory.getAccessoryCategory.mockReturnValue(0 as any);
+    mockDeviceFactory.isAirPurifier.mockReturnValue(false);
+    mockDeviceFactory.createAccessory.mockReturnValue(stubAccessory);
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  it('creates a client and session file per account', () => {
+    const accounts = (platform as any).vesyncAccounts;
+
+    expect(accounts).toHaveLength(2);
+    expect(accounts[0].client).not.toBe(accounts[1].client);
+    expect(accounts[0].sessionStore.file).toMatch(/tsvesync[\\/]session-[0-9a-f]{12}\.json$/);
+    expect(accounts[1].sessionStore.file).toMatch(/tsvesync[\\/]session-[0-9a-f]{12}\.json$/);
+    expect(accounts[0].sessionStore.file).not.toBe(accounts[1].sessionStore.file);
+  });
+
+  it('keeps each account\'s files when the accounts are reordered', () => {
+    const files = (accounts: VeSyncAccount[]) => Object.fromEntries(accounts.map(account =>
+      [account.username, [(account as any).sessionStore.file, (account as any).loginCircuitPath, (account as any).tokenStatusPath]]));
+    const reordered = createPlatform({
+      username: 'second@example.com',
+      password: 'pw-2',
+      accounts: [{ username: 'first@example.com', password: 'pw-1' }],
+    });
+
+    expect(files((reordered as any).vesyncAccounts)).toEqual(files((platform as any).vesyncAccounts));
+  });
+
+  it('keeps the unsuffixed files of a single-account setup with the account that saved them', () => {
+    fs.mkdirSync(path.join(storagePath, 'tsvesync'), { recursive: true });
+    fs.writeFileSync(path.join(storagePath, 'tsvesync', 'session.json'), JSON.stringify({ token: 't', accountId: 'a', username: 'Second@example.com' }));
+
+    const [first, second] = (createPlatform({
+      username: 'first@example.com',
+      password: 'pw-1',
+      accounts: [{ username: 'second@example.com', password: 'pw-2' }],
+    }) as any).vesyncAccounts;
+
+    expect(second.sessionStore.file).toBe(path.join(storagePath, 'tsvesync', 'session.json'));
+    expect(second.loginCircuitPath).toBe(path.join(storagePath, 'tsvesync', 'login-circuit.json'));
+    expect(first.sessionStore.file).toMatch(/session-[0-9a-f]{12}\.json$/);
+  });
+
+  it('merges devices from every account and bridges shared devices once', async () => {
+    const [first, second] = (platform as any).vesyncAccounts;
+    first.client = createMockVeSync();
+    second.client = createMockVeSync();
+    first.client.outlets = [makeDevice('cid-kitchen', 'Kitchen Plug'), makeDevice('cid-shared', 'Shared Plug')];
+    second.client.outlets = [makeDevice('cid-shared', 'Shared Plug'), makeDevice('cid-office', 'Office Plug')];
+
+    await platform.discoverDevices();
+
+    expect(first.client.update).toHaveBeenCalled();
+    expect(second.client.update).toHaveBeenCalled();
+    expect(platform.accessories.map(accessory => accessory.UUID)).toEqual([
+      'test-uuid-cid-kitchen',
+      'test-uuid-cid-shared',
+      'test-uuid-cid-office',
+    ]);
+    expect(mockDeviceFactory.createAccessory).toHaveBeenCalledTimes(3);
+  });
+
+  it('discovers the other accounts when one fails to log in', async () => {
+    const [first, second] = (platform as any).vesyncAccounts;
+    first.client = { ...createMockVeSync(), token: null, accountId: null };
+    second.client = createMockVeSync();
+    first.client.outlets = [makeDevice('cid-kitchen', 'Kitchen Plug')];
+    second.client.outlets = [makeDevice('cid-office', 'Office Plug')];
+    jest.spyOn(first, 'ensureLogin').mockResolvedValue(false);
+
+    await (platform as any).initializePlatform();
+
+    expect(first.client.update).not.toHaveBeenCalled();
+    expect(platform.accessories.map(accessory => accessory.UUID)).toEqual(['test-uuid-cid-office']);
+    expect(mockLogger.error).toHaveBeenCalledWith(expect.stringContaining('Failed to login to VeSync API as first@example.com'));
+  });
+
+  it('tries an unreachable account once at startup and again from the poll loop', async () => {
+    const [first, second] = (platform as any).vesyncAccounts;
+    first.client = { ...createMockVeSync(), token: null, accountId: null, getDevices: jest.fn().mockResolvedValue(true) };
+    second.client = { ...createMockVeSync(), token: null, accountId: null, getDevices: jest.fn().mockResolvedValue(true) };
+    first.client.outlets = [makeDevice('cid-kitchen', 'Kitchen Plug')];
+    second.client.outlets = [makeDevice('cid-office', 'Office Plug')];
+    first.client.login = jest.fn().mockRejectedValue(new Error('connect ETIMEDOUT'));
+    second.client.login = jest.fn().mockImplementation(async () => {
+      Object.assign(second.client, { token: 'token-2', accountId: 'account-2' });
+      return true;
+    });
+
+    await (platform as any).initializePlatform();
+
+    expect(first.client.login).toHaveBeenCalledTimes(1);
+    expect(platform.accessories.map(accessory => accessory.UUID)).toEqual(['test-uuid-cid-office']);
+
+    // Not again while the login backoff runs
+    await (platform as any).updateDeviceStates();
+    expect(first.client.login).toHaveBeenCalledTimes(1);
+
+    first.client.login.mockImplementation(async () => {
+      Object.assign(first.client, { token: 'token-1', accountId: 'account-1' });
+      return true;
+    });
+    jest.setSystemTime(Date.now() + 5 * 60 * 1000);
+    await (platform as any).updateDeviceStates();
+
+    expect(first.client.login).toHaveBeenCalledTimes(2);
+    expect(platform.accessories.map(accessory => accessory.UUID)).toEqual(['test-uuid-cid-office', 'test-uuid-cid-kitchen']);
+  });
+});
@@ -85,7 +85,7 @@ describe('TSVESyncPlatform discoverDevices', () => {
     );
 
     // Replace VeSync client with mock
-    (platform as any).client = mockVeSync;
+    (platform as any).vesyncAccounts[0].client = mockVeSync;
 
     const stubAccessory = {
       initialize: jest.fn().mockResolvedValue(undefined),
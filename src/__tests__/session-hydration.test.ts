@@ -117,21 +117,22 @@ describe('TSVESyncPlatform persisted session handling', () => {
       mockAPI,
     );
 
-    (platform as any).client = mockVeSync;
+    const account = (platform as any).vesyncAccounts[0];
+    account.client = mockVeSync;
 
     store = {
       load: jest.fn().mockResolvedValue(null),
       save: jest.fn().mockResolvedValue(undefined),
       clear: jest.fn().mockResolvedValue(undefined),
     };
-    (platform as any).sessionStore = store;
+    account.sessionStore = store;
   });
 
   afterEach(() => {
     // The startup path arms a device-poll interval and a token-refresh timer.
     const pollInterval = (platform as any).deviceUpdateInterval;
     if (pollInterval) clearInterval(pollInterval);
-    const refreshTimer = (platform as any).refreshTimer;
+    const refreshTimer = (platform as any).vesyncAccounts[0].refreshTimer;
     if (refreshTimer) clearTimeout(refreshTimer);
     jest.clearAllTimers();
     jest.useRealTimers();
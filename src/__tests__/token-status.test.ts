@@ -0,0 +1,150 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Logger } from 'homebridge';
+import { HomebridgeAPI } from 'homebridge/lib/api';
+import { TSVESyncPlatform } from '../platform';
+import { PLATFORM_NAME } from '../settings';
+import { PlatformConfig } from '../types/device.types';
+import { tapLibraryLogger } from '../utils/login-diagnosis';
+import { PluginLogger } from '../utils/logger';
+import { accountFileSuffix } from '../utils/session-store';
+import { VeSyncAccount } from '../utils/vesync-account';
+import { createMockLogger } from './utils/test-helpers';
+
+const NOW = Date.parse('2026-05-01T12:00:00Z');
+const DAY = 24 * 60 * 60 * 1000;
+
+/** Build an unsigned JWT shaped like the ones VeSync issues. */
+const makeToken = (issuedAt: number, lifetimeMs: number): string => {
+  const b64 = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return [
+    b64({ alg: 'HS256', typ: 'JWT' }),
+    b64({ iat: Math.floor(issuedAt / 1000), exp: Math.floor((issuedAt + lifetimeMs) / 1000) }),
+    'test-signature',
+  ].join('.');
+};
+
+describe('Token status and manual re-login', () => {
+  let storagePath: string;
+  let logger: PluginLogger;
+  let accounts: VeSyncAccount[];
+
+  const config: PlatformConfig = {
+    platform: PLATFORM_NAME,
+    name: 'TSVESync',
+    username: 'test@example.com',
+    password: 'password',
+  };
+
+  const createAccount = () => {
+    const account = new VeSyncAccount({ username: config.username!, password: config.password! }, config, storagePath, logger);
+    accounts.push(account);
+    return account;
+  };
+
+  // Logs in like the library: store the new token and report it through onTokenChange
+  const succeedingLogin = (account: VeSyncAccount) => jest.fn(async () => {
+    const token = makeToken(Date.now(), 30 * DAY);
+    Object.assign((account as any).client, { token, accountId: 'acct-1', region: 'US', apiBaseUrl: 'https://smartapi.vesync.com' });
+    (account as any).onTokenChange({ token });
+    return true;
+  });
+
+  const readStatus = async (account: VeSyncAccount) => {
+    await (account as any).tokenStatusWrite;
+    const file = path.join(storagePath, 'tsvesync', `token-status${accountFileSuffix(config.username!, storagePath)}.json`);
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW, advanceTimers: true });
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'tsvesync-token-'));
+    logger = new PluginLogger(createMockLogger(), false);
+    accounts = [];
+  });
+
+  afterEach(() => {
+    accounts.forEach(account => account.shutdown());
+    jest.useRealTimers();
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  it('writes the token lifetime and the next proactive refresh to the status file', async () => {
+    const account = createAccount();
+    const token = makeToken(NOW - DAY, 30 * DAY);
+    (account as any).client.token = token;
+    (account as any).scheduleProactiveRefreshFromToken(token);
+
+    expect(await readStatus(account)).toEqual({
+      account: 'test@example.com',
+      issuedAt: new Date(NOW - DAY).toISOString(),
+      expiresAt: new Date(NOW + 29 * DAY).toISOString(),
+      nextRefreshAt: new Date(NOW + 24 * DAY).toISOString(),
+      lastRefresh: null,
+    });
+  });
+
+  it('records a skipped refresh for a token about to expire', async () => {
+    const account = createAccount();
+    const token = makeToken(NOW - 30 * DAY, 30 * DAY + 30 * 60 * 1000);
+    (account as any).client.token = token;
+    (account as any).scheduleProactiveRefreshFromToken(token);
+
+    const status = await readStatus(account);
+    expect(status.nextRefreshAt).toBeNull();
+    expect(status.lastRefresh).toMatchObject({ trigger: 'scheduled', outcome: 'skipped' });
+  });
+
+  it('logs in again on request, even after a permanent login failure', async () => {
+    const account = createAccount();
+    (account as any).client.login = jest.fn(async () => {
+      tapLibraryLogger(logger).error('Credential error detected - invalid username or password');
+      return false;
+    });
+    await account.ensureLogin(true);
+    expect(account.getLoginCircuit()).not.toBeNull();
+
+    const login = succeedingLogin(account);
+    (account as any).client.login = login;
+    const relogged = account.relogin();
+    // The failed attempt moments ago still holds off the next one
+    await jest.advanceTimersByTimeAsync(10000);
+    expect(await relogged).toBe(true);
+
+    expect(login).toHaveBeenCalledTimes(1);
+    expect(account.isLoginFailing()).toBe(false);
+    const status = await readStatus(account);
+    expect(status.lastRefresh).toMatchObject({ trigger: 'manual', outcome: 'success' });
+    expect(Date.parse(status.expiresAt) - Date.parse(status.nextRefreshAt)).toBe(5 * DAY);
+  });
+
+  it('logs in again only the accounts without a valid token from the Log In Again switch, which turns itself off', async () => {
+    const api = new HomebridgeAPI();
+    (api as any).user = { storagePath: () => storagePath };
+    const platform = new TSVESyncPlatform(createMockLogger() as jest.Mocked<Logger>, {
+      ...config,
+      accounts: [
+        { username: 'expired@example.com', password: 'password' },
+        { username: 'failing@example.com', password: 'password' },
+      ],
+      reloginSwitch: true,
+    } as any, api);
+    (platform as any).setupReloginSwitch();
+    const [healthy, expired, failing]: VeSyncAccount[] = (platform as any).vesyncAccounts;
+    accounts.push(healthy, expired, failing);
+    Object.assign((healthy as any).client, { token: makeToken(NOW - DAY, 30 * DAY), accountId: 'acct-1' });
+    Object.assign((expired as any).client, { token: makeToken(NOW - 31 * DAY, 30 * DAY), accountId: 'acct-2' });
+    Object.assign((failing as any).client, { token: makeToken(NOW - DAY, 30 * DAY), accountId: 'acct-3' });
+    (failing as any).lastLoginFailed = true;
+    const relogins = [healthy, expired, failing].map(account => jest.spyOn(account, 'relogin').mockResolvedValue(false));
+
+    const reloginSwitch = platform.accessories.find(accessory => accessory.displayName === 'VeSync Log In Again')!;
+    const on = reloginSwitch.getService(api.hap.Service.Switch)!.getCharacteristic(api.hap.Characteristic.On);
+    await on.handleSetRequest(true);
+
+    expect(relogins.map(relogin => relogin.mock.calls.length)).toEqual([0, 1, 1]);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(on.value).toBe(false);
+  });
+});
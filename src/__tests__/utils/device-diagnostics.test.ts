@@ -0,0 +1,68 @@
+import { REDACTED, captureDetails, redactPayload } from '../../utils/device-diagnostics';
+
+class FakeDevice {
+  constructor(private readonly responses: Array<[unknown, number] | Error>) {}
+
+  async callApi(endpoint: string, method: string, data: unknown): Promise<[unknown, number]> {
+    const response = this.responses.shift();
+    if (response instanceof Error) {
+      throw response;
+    }
+    return response ?? [{ endpoint, method, data }, 200];
+  }
+
+  async getDetails(): Promise<boolean> {
+    await this.callApi('/v1/detail', 'post', { token: 'secret-token', uuid: 'device-uuid', method: 'devicedetail' });
+    await this.callApi('/v1/energy', 'post', { cid: 'device-cid' });
+    return true;
+  }
+}
+
+describe('device diagnostics', () => {
+  it('redacts identifying values at any depth, whatever the key case', () => {
+    const redacted = redactPayload({
+      deviceType: 'EKA17-WUS',
+      CID: 'abc',
+      macID: '00:11',
+      deviceName: 'Kettle',
+      subDeviceNo: null,
+      result: { list: [{ uuid: 'u1', accountID: '42', level: 3 }], token: '' },
+    });
+
+    expect(redacted).toEqual({
+      deviceType: 'EKA17-WUS',
+      CID: REDACTED,
+      macID: REDACTED,
+      deviceName: REDACTED,
+      subDeviceNo: null,
+      result: { list: [{ uuid: REDACTED, accountID: REDACTED, level: 3 }], token: '' },
+    });
+  });
+
+  it('records each call getDetails makes and removes its wrapper afterwards', async () => {
+    const device = new FakeDevice([[{ code: 0, voltage: '230' }, 200]]);
+
+    const exchanges = await captureDetails(device);
+
+    expect(exchanges).toEqual([
+      {
+        endpoint: '/v1/detail',
+        method: 'post',
+        request: { token: 'secret-token', uuid: 'device-uuid', method: 'devicedetail' },
+        response: { code: 0, voltage: '230' },
+        status: 200,
+      },
+      expect.objectContaining({ endpoint: '/v1/energy', status: 200 }),
+    ]);
+    expect(Object.prototype.hasOwnProperty.call(device, 'callApi')).toBe(false);
+  });
+
+  it('records a failed call instead of throwing', async () => {
+    const device = new FakeDevice([new Error('socket hang up')]);
+
+    const exchanges = await captureDetails(device);
+
+    expect(exchanges).toEqual([expect.objectContaining({ endpoint: '/v1/detail', error: 'socket hang up' })]);
+    expect(Object.prototype.hasOwnProperty.call(device, 'callApi')).toBe(false);
+  });
+});
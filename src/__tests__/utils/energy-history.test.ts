@@ -0,0 +1,178 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EnergyHistory, SAMPLE_INTERVAL } from '../../utils/energy-history';
+import { EVE_EPOCH_OFFSET, encodeHistoryEntries, encodeHistoryStatus } from '../../utils/eve-history';
+import { PluginLogger } from '../../utils/logger';
+
+const T0 = Date.parse('2026-03-10T12:00:00Z') / 1000;
+
+const logger = { debug: jest.fn(), warn: jest.fn() } as unknown as PluginLogger;
+
+describe('EnergyHistory', () => {
+  let dir: string;
+  let history: EnergyHistory;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tsvesync-history-'));
+    history = EnergyHistory.forDevice(dir, 'outlet-uuid', logger);
+  });
+
+  afterEach(() => {
+    history.flushSync();
+    jest.useRealTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('averages readings into 10-minute samples and repeats the last power across short gaps', () => {
+    expect(history.addReading({ time: T0 + 30, power: 10 })).toBe(true);
+    expect(history.addReading({ time: T0 + 300, power: 20 })).toBe(false);
+    expect(history.addReading({ time: T0 + 3 * SAMPLE_INTERVAL, power: 40 })).toBe(true);
+
+    expect(history.refTime).toBe(T0);
+    expect(history.samples).toEqual([
+      { time: T0, power: 15 },
+      { time: T0 + SAMPLE_INTERVAL, power: 15 },
+      { time: T0 + 2 * SAMPLE_INTERVAL, power: 15 },
+      { time: T0 + 3 * SAMPLE_INTERVAL, power: 40 },
+    ]);
+  });
+
+  it('accumulates the daily energy counter into the total across midnight and resets it', () => {
+    history.addReading({ time: T0, power: 100, energy: 1.2 });
+    history.addReading({ time: T0 + 600, power: 100, energy: 1.5 });
+    history.addReading({ time: T0 + 1200, power: 100, energy: 0.1 });
+
+    expect(history.totalEnergy).toBeCloseTo(0.4);
+
+    history.reset(123);
+    history.addReading({ time: T0 + 1800, power: 100, energy: 0.3 });
+    expect(history.totalEnergy).toBeCloseTo(0.2);
+    expect(history.resetTime).toBe(123);
+  });
+
+  it('integrates power when the outlet reports no energy counter', () => {
+    history.addReading({ time: T0, power: 1000 });
+    history.addReading({ time: T0 + 1800, power: 1000 });
+    history.addReading({ time: T0 + 3 * 3600, power: 1000 });
+
+    expect(history.totalEnergy).toBeCloseTo(0.5);
+  });
+
+  it('drops the oldest samples past the memory size and keeps their addresses', () => {
+    for (let i = 0; i < EnergyHistory.MEMORY_SIZE + 9; i++) {
+      history.addReading({ time: T0 + i * SAMPLE_INTERVAL, power: i });
+    }
+
+    expect(history.samples).toHaveLength(EnergyHistory.MEMORY_SIZE - 1);
+    expect(history.firstAddress).toBe(12);
+    expect(history.samples[0]).toEqual({ time: T0 + 10 * SAMPLE_INTERVAL, power: 10 });
+  });
+
+  it('survives a restart through its file', async () => {
+    history.addReading({ time: T0, power: 5, energy: 0.2 });
+    history.addReading({ time: T0 + 600, power: 7, energy: 0.3 });
+    await history.flush();
+
+    const restored = EnergyHistory.forDevice(dir, 'outlet-uuid', logger);
+    await restored.load();
+
+    expect(fs.existsSync(path.join(dir, 'tsvesync', 'history', 'energy-outlet-uuid.json'))).toBe(true);
+    expect(restored.samples).toEqual(history.samples);
+    expect(restored.totalEnergy).toBeCloseTo(0.1);
+    restored.addReading({ time: T0 + 1200, power: 7, energy: 0.5 });
+    expect(restored.totalEnergy).toBeCloseTo(0.3);
+  });
+
+  it('keeps averaging the last sample after a restart', async () => {
+    history.addReading({ time: T0, power: 10 });
+    history.addReading({ time: T0 + 60, power: 20 });
+    await history.flush();
+
+    const restored = EnergyHistory.forDevice(dir, 'outlet-uuid', logger);
+    await restored.load();
+    restored.addReading({ time: T0 + 120, power: 30 });
+
+    expect(restored.samples).toEqual([{ time: T0, power: 20 }]);
+  });
+
+  it('coalesces scheduled saves into one write through a temporary file', async () => {
+    jest.useFakeTimers();
+    const file = path.join(dir, 'tsvesync', 'history', 'energy-outlet-uuid.json');
+    const flush = jest.spyOn(history, 'flush');
+    const rename = jest.spyOn(fs.promises, 'rename');
+
+    for (let i = 0; i < 3; i++) {
+      history.addReading({ time: T0 + i * 60, power: 10 });
+      history.scheduleSave();
+    }
+    expect(fs.existsSync(file)).toBe(false);
+
+    jest.advanceTimersByTime(SAMPLE_INTERVAL * 1000);
+    await flush.mock.results[0].value;
+
+    expect(flush).toHaveBeenCalledTimes(1);
+    expect(rename.mock.calls.filter(([, target]) => target === file)).toEqual([[file + '.tmp', file]]);
+    expect(JSON.parse(fs.readFileSync(file, 'utf8')).readings).toBe(3);
+    rename.mockRestore();
+  });
+
+  it('writes a pending save synchronously at shutdown and nothing afterwards', async () => {
+    const file = path.join(dir, 'tsvesync', 'history', 'energy-outlet-uuid.json');
+    history.addReading({ time: T0, power: 10 });
+    history.scheduleSave();
+
+    history.flushSync();
+
+    expect(JSON.parse(fs.readFileSync(file, 'utf8')).samples).toEqual([{ time: T0, power: 10 }]);
+    history.addReading({ time: T0 + SAMPLE_INTERVAL, power: 20 });
+    await history.flush();
+    expect(JSON.parse(fs.readFileSync(file, 'utf8')).samples).toHaveLength(1);
+    expect(fs.readdirSync(path.dirname(file))).toEqual(['energy-outlet-uuid.json']);
+  });
+
+  it('leaves the file alone at shutdown when nothing changed', () => {
+    history.flushSync();
+
+    expect(fs.existsSync(path.join(dir, 'tsvesync'))).toBe(false);
+  });
+});
+
+describe('Eve history encoding', () => {
+  let history: EnergyHistory;
+
+  beforeEach(() => {
+    history = new EnergyHistory('/nonexistent/energy.json', logger);
+    history.addReading({ time: T0, power: 12.5 });
+    history.addReading({ time: T0 + SAMPLE_INTERVAL, power: 100 });
+  });
+
+  it('describes the stored range in History Status', () => {
+    const status = Buffer.from(encodeHistoryStatus(history), 'base64');
+
+    expect(status.readUInt32LE(0)).toBe(SAMPLE_INTERVAL);
+    expect(status.readUInt32LE(8)).toBe(T0 - EVE_EPOCH_OFFSET);
+    expect(status.subarray(12, 21).toString('hex')).toBe('040102020207020f03');
+    expect(status.readUInt16LE(21)).toBe(3);
+    expect(status.readUInt16LE(23)).toBe(EnergyHistory.MEMORY_SIZE);
+  });
+
+  it('sends the reference entry and then the samples from the requested address', () => {
+    const { value, next } = encodeHistoryEntries(history, 1);
+    const entries = Buffer.from(value, 'base64');
+
+    expect(next).toBe(4);
+    expect(entries).toHaveLength(21 + 2 * 20);
+    expect(entries[0]).toBe(0x15);
+    expect(entries.readUInt32LE(1)).toBe(1);
+    expect(entries.readUInt32LE(10)).toBe(T0 - EVE_EPOCH_OFFSET);
+
+    const second = entries.subarray(41);
+    expect(second[0]).toBe(0x14);
+    expect(second.readUInt32LE(1)).toBe(3);
+    expect(second.readUInt32LE(5)).toBe(SAMPLE_INTERVAL);
+    expect(second.readUInt16LE(14)).toBe(1000);
+
+    expect(Buffer.from(encodeHistoryEntries(history, next).value, 'base64').toString('hex')).toBe('00');
+  });
+});
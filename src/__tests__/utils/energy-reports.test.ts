@@ -0,0 +1,148 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EnergyReports } from '../../utils/energy-reports';
+import { EnergyReportsConfig } from '../../types/device.types';
+import { PluginLogger } from '../../utils/logger';
+
+const at = (iso: string) => Date.parse(iso) / 1000;
+
+describe('EnergyReports', () => {
+  let dir: string;
+  let logger: jest.Mocked<PluginLogger>;
+
+  const config: EnergyReportsConfig = {
+    enabled: true,
+    rate: 0.2,
+    currency: 'USD',
+    timeZone: 'UTC',
+    periods: [
+      { start: '22:00', end: '02:00', rate: 0.1, days: ['sun'] },
+      { start: '00:00', end: '07:00', rate: 0.12 },
+    ],
+  };
+
+  // A 1 kW load read every 30 minutes from Sunday 23:00 to Monday 00:30 (UTC)
+  const recordNight = async (reports: EnergyReports) => {
+    for (const time of ['2026-03-08T23:00:00Z', '2026-03-08T23:30:00Z', '2026-03-09T00:00:00Z', '2026-03-09T00:30:00Z']) {
+      await reports.record('plug-cid', 'Dehumidifier', { time: at(time), power: 1000 });
+    }
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tsvesync-energy-'));
+    logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn() } as unknown as jest.Mocked<PluginLogger>;
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('prices each hour with the first matching time-of-use period and sums days, weeks and months', async () => {
+    const reports = new EnergyReports(config, dir, logger);
+    await recordNight(reports);
+
+    const [device] = reports.buildReport().devices;
+    expect(device).toMatchObject({ id: 'plug-cid', name: 'Dehumidifier' });
+    expect(device.daily).toEqual([
+      { period: '2026-03-09', kWh: 1, cost: 0.12 },
+      { period: '2026-03-08', kWh: 0.5, cost: 0.05 },
+    ]);
+    expect(device.weekly).toEqual([
+      { period: '2026-03-09', kWh: 1, cost: 0.12 },
+      { period: '2026-03-02', kWh: 0.5, cost: 0.05 },
+    ]);
+    expect(device.monthly).toEqual([{ period: '2026-03', kWh: 1.5, cost: 0.17 }]);
+  });
+
+  it('groups by the configured timezone', async () => {
+    const reports = new EnergyReports({ ...config, timeZone: 'America/New_York', periods: [] }, dir, logger);
+    await recordNight(reports);
+
+    expect(reports.buildReport().devices[0].daily).toEqual([{ period: '2026-03-08', kWh: 1.5, cost: 0.3 }]);
+  });
+
+  it('uses the increase of the daily energy counter and logs the previous day once a new one starts', async () => {
+    const reports = new EnergyReports(config, dir, logger);
+    await reports.record('plug-cid', 'Dehumidifier', { time: at('2026-03-08T12:00:00Z'), power: 50, energy: 1.5 });
+    await reports.record('plug-cid', 'Dehumidifier', { time: at('2026-03-08T20:00:00Z'), power: 50, energy: 2 });
+    expect(logger.info).not.toHaveBeenCalled();
+
+    await reports.record('plug-cid', 'Dehumidifier', { time: at('2026-03-09T08:00:00Z'), power: 50, energy: 0.25 });
+
+    expect(reports.buildReport().devices[0].daily).toEqual([
+      { period: '2026-03-09', kWh: 0.25, cost: 0.05 },
+      { period: '2026-03-08', kWh: 0.5, cost: 0.1 },
+    ]);
+    expect(logger.info).toHaveBeenCalledTimes(1);
+    expect(logger.info).toHaveBeenCalledWith('Energy used on 2026-03-08 by Dehumidifier: 0.5 kWh, cost 0.10 USD');
+  });
+
+  it('keeps usage across restarts and writes the report file', async () => {
+    const reports = new EnergyReports(config, dir, logger);
+    await recordNight(reports);
+    await reports.flush();
+
+    const written = JSON.parse(fs.readFileSync(path.join(dir, 'tsvesync', 'energy-report.json'), 'utf8'));
+    expect(written).toMatchObject({ timeZone: 'UTC', currency: 'USD', devices: [{ id: 'plug-cid' }] });
+
+    const restarted = new EnergyReports(config, dir, logger);
+    await restarted.record('plug-cid', 'Dehumidifier', { time: at('2026-03-09T01:00:00Z'), power: 1000 });
+    expect(restarted.buildReport().devices[0].daily[0]).toEqual({ period: '2026-03-09', kWh: 1.5, cost: 0.18 });
+  });
+
+  it('writes usage once per burst of readings and rebuilds the report file once an hour', async () => {
+    jest.useFakeTimers({ now: Date.parse('2026-03-09T10:00:00Z') });
+    try {
+      const reports = new EnergyReports(config, dir, logger);
+      const flush = jest.spyOn(reports, 'flush');
+      const usageFile = path.join(dir, 'tsvesync', 'energy-usage.json');
+      await recordNight(reports);
+      expect(fs.existsSync(usageFile)).toBe(false);
+      // Counted from here, past the daily summary of the night's first reading on Monday
+      const buildReport = jest.spyOn(reports, 'buildReport');
+
+      await jest.advanceTimersByTimeAsync(60 * 1000);
+      await flush.mock.results[0].value;
+      expect(JSON.parse(fs.readFileSync(usageFile, 'utf8')).devices['plug-cid'].lastReadingTime).toBe(at('2026-03-09T00:30:00Z'));
+      expect(buildReport).toHaveBeenCalledTimes(1);
+
+      await reports.record('plug-cid', 'Dehumidifier', { time: at('2026-03-09T01:00:00Z'), power: 1000 });
+      await jest.advanceTimersByTimeAsync(60 * 1000);
+      await flush.mock.results[1].value;
+      expect(JSON.parse(fs.readFileSync(usageFile, 'utf8')).devices['plug-cid'].lastReadingTime).toBe(at('2026-03-09T01:00:00Z'));
+      expect(buildReport).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(60 * 60 * 1000);
+      await reports.record('plug-cid', 'Dehumidifier', { time: at('2026-03-09T01:30:00Z'), power: 1000 });
+      await reports.flush();
+      expect(buildReport).toHaveBeenCalledTimes(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('writes the usage and the report at shutdown', async () => {
+    const reports = new EnergyReports(config, dir, logger);
+    await recordNight(reports);
+
+    reports.flushSync();
+
+    const written = JSON.parse(fs.readFileSync(path.join(dir, 'tsvesync', 'energy-report.json'), 'utf8'));
+    expect(written.devices[0].daily[0]).toEqual({ period: '2026-03-09', kWh: 1, cost: 0.12 });
+  });
+
+  it('ignores invalid tariff periods and timezones with a warning', async () => {
+    const reports = new EnergyReports({
+      enabled: true,
+      rate: 0.3,
+      timeZone: 'Mars/Olympus_Mons',
+      periods: [{ start: '7am', end: '09:00', rate: 0.1 }, { start: '00:00', end: '24:00', rate: 0.1, days: ['someday'] }],
+    }, dir, logger);
+
+    expect(logger.warn).toHaveBeenCalledTimes(3);
+    await reports.record('plug-cid', 'Dehumidifier', { time: at('2026-03-09T08:00:00Z'), power: 1000 });
+    await reports.record('plug-cid', 'Dehumidifier', { time: at('2026-03-09T08:30:00Z'), power: 1000 });
+    expect(reports.buildReport().devices[0].daily[0].cost).toBe(0.15);
+  });
+});
@@ -0,0 +1,130 @@
+import http from 'http';
+import { formatMetrics, MetricFamily, MetricsServer } from '../../utils/metrics-server';
+import { PluginLogger } from '../../utils/logger';
+
+const get = (url: string, method = 'GET'): Promise<{ status: number; body: string; contentType?: string }> =>
+  new Promise((resolve, reject) => {
+    const req = http.request(url, { method }, res => {
+      let body = '';
+      res.on('data', chunk => {
+        body += chunk;
+      });
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, body, contentType: res.headers['content-type'] }));
+    });
+    req.on('error', reject);
+    req.end();
+  });
+
+describe('formatMetrics', () => {
+  it('renders help, type and labelled samples', () => {
+    const families: MetricFamily[] = [
+      {
+        name: 'tsvesync_api_calls_total',
+        type: 'counter',
+        help: 'VeSync API calls',
+        samples: [
+          { labels: { account: 'home', method: 'getDetails' }, value: 12 },
+          { labels: { account: 'home', method: 'turnOn' }, value: 1 },
+        ],
+      },
+      { name: 'tsvesync_quota_used', type: 'gauge', help: 'Quota used', samples: [{ value: 40 }] },
+    ];
+
+    expect(formatMetrics(families)).toBe([
+      '# HELP tsvesync_api_calls_total VeSync API calls',
+      '# TYPE tsvesync_api_calls_total counter',
+      'tsvesync_api_calls_total{account="home",method="getDetails"} 12',
+      'tsvesync_api_calls_total{account="home",method="turnOn"} 1',
+      '# HELP tsvesync_quota_used Quota used',
+      '# TYPE tsvesync_quota_used gauge',
+      'tsvesync_quota_used 40',
+      '',
+    ].join('\n'));
+  });
+
+  it('escapes label values and skips families without samples', () => {
+    const text = formatMetrics([
+      { name: 'tsvesync_device_online', type: 'gauge', help: 'Online', samples: [{ labels: { name: 'Kid\'s "Room"\\\nPlug' }, value: 1 }] },
+      { name: 'tsvesync_power_watts', type: 'gauge', help: 'Power', samples: [] },
+    ]);
+
+    expect(text).toContain('tsvesync_device_online{name="Kid\'s \\"Room\\"\\\\\\nPlug"} 1');
+    expect(text).not.toContain('tsvesync_power_watts');
+  });
+});
+
+describe('MetricsServer', () => {
+  let logger: jest.Mocked<PluginLogger>;
+  let server: MetricsServer;
+
+  beforeEach(() => {
+    logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as unknown as jest.Mocked<PluginLogger>;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('collects metrics on every scrape', async () => {
+    let used = 1;
+    server = new MetricsServer({ enabled: true, port: 0, host: '127.0.0.1' }, logger, () => [
+      { name: 'tsvesync_quota_used', type: 'gauge', help: 'Quota used', samples: [{ value: used++ }] },
+    ]);
+    await server.start();
+    const url = `http://127.0.0.1:${server.port}/metrics`;
+
+    const first = await get(url);
+    const second = await get(url);
+
+    expect(first.status).toBe(200);
+    expect(first.contentType).toContain('text/plain; version=0.0.4');
+    expect(first.body).toContain('tsvesync_quota_used 1');
+    expect(second.body).toContain('tsvesync_quota_used 2');
+  });
+
+  it('serves the energy report as JSON at /energy only when one is given', async () => {
+    server = new MetricsServer({ enabled: true, port: 0, host: '127.0.0.1' }, logger, () => [], () => ({ devices: [] }));
+    await server.start();
+
+    const energy = await get(`http://127.0.0.1:${server.port}/energy`);
+    expect(energy.status).toBe(200);
+    expect(energy.contentType).toContain('application/json');
+    expect(JSON.parse(energy.body)).toEqual({ devices: [] });
+
+    const withoutReport = new MetricsServer({ enabled: true, port: 0, host: '127.0.0.1' }, logger, () => []);
+    await withoutReport.start();
+    expect((await get(`http://127.0.0.1:${withoutReport.port}/energy`)).status).toBe(404);
+    await withoutReport.stop();
+  });
+
+  it('answers other paths with 404 and collection failures with 500', async () => {
+    server = new MetricsServer({ enabled: true, port: 0, host: '127.0.0.1' }, logger, () => {
+      throw new Error('boom');
+    });
+    await server.start();
+
+    expect((await get(`http://127.0.0.1:${server.port}/`)).status).toBe(404);
+    expect((await get(`http://127.0.0.1:${server.port}/metrics`)).status).toBe(500);
+    expect(logger.error).toHaveBeenCalledWith('Failed to collect metrics:', expect.any(Error));
+  });
+
+  it('listens only on this machine unless a host is set', async () => {
+    server = new MetricsServer({ enabled: true, port: 0 }, logger, () => []);
+    await server.start();
+
+    expect(logger.info).toHaveBeenCalledWith(`Serving Prometheus metrics on http://127.0.0.1:${server.port}/metrics`);
+    expect((await get(`http://127.0.0.1:${server.port}/metrics`)).status).toBe(200);
+  });
+
+  it('logs instead of throwing when the port is taken', async () => {
+    server = new MetricsServer({ enabled: true, port: 0, host: '127.0.0.1' }, logger, () => []);
+    await server.start();
+    const second = new MetricsServer({ enabled: true, port: server.port, host: '127.0.0.1' }, logger, () => []);
+
+    await expect(second.start()).resolves.toBeUndefined();
+
+    expect(second.port).toBeUndefined();
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.stringContaining('Failed to start metrics server'), expect.objectContaining({ code: 'EADDRINUSE' }));
+  });
+});
@@ -0,0 +1,246 @@
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { VeSyncDeviceFixture } from './vesync-fixtures';
+
+export const QUOTA_EXCEEDED = -16906086;
+export const DEVICE_NOT_FOUND = 4041008;
+export const TOKEN_EXPIRED = -11001000;
+export const CREDENTIAL_ERROR = -11201129;
+
+export interface RecordedRequest {
+  httpMethod: string;
+  path: string;
+  body: any;
+  headers: http.IncomingHttpHeaders;
+  // bypassV2 payload method, e.g. 'getPurifierStatus'
+  method?: string;
+}
+
+/**
+ * Matches requests for scripted failures. Every field given must match.
+ */
+export interface RequestMatcher {
+  path?: string;
+  method?: string;
+  cid?: string;
+  uuid?: string;
+}
+
+interface ScriptedFailure {
+  matcher: RequestMatcher;
+  response: { code: number; msg: string };
+  remaining: number;
+}
+
+const ACCOUNT_ID = '1234567';
+
+const base64url = (value: object): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+/**
+ * In-process fake of the VeSync cloud.
+ *
+ * Implements the endpoints the `tsvesync` client uses: the two-step login, the device list, bypassV2
+ * status and control calls, and the per-device endpoints of older outlets. Point a client at it with
+ * the `apiUrl` config option. Every request is recorded, and failures can be scripted per endpoint,
+ * bypass method or device.
+ */
+export class MockVeSyncServer {
+  readonly requests: RecordedRequest[] = [];
+  private readonly server: http.Server;
+  private readonly devices: VeSyncDeviceFixture[];
+  private readonly failures: ScriptedFailure[] = [];
+  private readonly authorizeCodes = new Set<string>();
+  private currentToken?: string;
+  private tokenCount = 0;
+
+  constructor(
+    devices: VeSyncDeviceFixture[],
+    private readonly username = 'user@example.com',
+    private readonly password = 'correct-horse',
+  ) {
+    // Copy the fixtures so tests can change device state without affecting each other
+    this.devices = JSON.parse(JSON.stringify(devices));
+    this.server = http.createServer((req, res) => this.handle(req, res));
+  }
+
+  get url(): string {
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Answer the next matching request(s) with an error code instead of the scripted response
+   */
+  failNext(matcher: RequestMatcher, response: { code: number; msg: string }, times = 1): void {
+    this.failures.push({ matcher, response, remaining: times });
+  }
+
+  /**
+   * Invalidate the issued token so the next authenticated call returns a token error
+   */
+  expireToken(): void {
+    this.currentToken = undefined;
+  }
+
+  /**
+   * Scripted state of a device, by cid
+   */
+  device(cid: string): VeSyncDeviceFixture {
+    const device = this.devices.find(fixture => fixture.list.cid === cid);
+    if (!device) {
+      throw new Error(`No fixture with cid ${cid}`);
+    }
+    return device;
+  }
+
+  requestsTo(path: string, method?: string): RecordedRequest[] {
+    return this.requests.filter(request => request.path === path && (method === undefined || request.method === method));
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let raw = '';
+    req.on('data', chunk => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      let body: any = {};
+      try {
+        body = raw ? JSON.parse(raw) : {};
+      } catch {
+        body = {};
+      }
+      const path = (req.url ?? '').split('?')[0];
+      const request: RecordedRequest = {
+        httpMethod: req.method ?? 'GET',
+        path,
+        body,
+        headers: req.headers,
+        method: body?.payload?.method,
+      };
+      this.requests.push(request);
+
+      res.writeHead(200, { 'Content-Type': 'application/json', 'Connection': 'close' });
+      res.end(JSON.stringify(this.respond(request)));
+    });
+  }
+
+  private respond(request: RecordedRequest): object {
+    const failure = this.takeFailure(request);
+    if (failure) {
+      return failure;
+    }
+
+    switch (request.path) {
+      case '/globalPlatform/api/accountAuth/v1/authByPWDOrOTM':
+        return this.authorize(request.body);
+      case '/user/api/accountManage/v1/loginByAuthorizeCode4Vesync':
+        return this.login(request.body);
+      case '/cloud/v1/user/login':
+        return { code: CREDENTIAL_ERROR, msg: 'legacy login is not supported by the mock server' };
+    }
+
+    const token = request.body?.token ?? request.headers.tk;
+    if (!this.currentToken || token !== this.currentToken) {
+      return { code: TOKEN_EXPIRED, msg: 'token expired' };
+    }
+
+    if (request.path === '/cloud/v1/deviceManaged/devices') {
+      const list = this.devices.map(device => device.list);
+      return { code: 0, msg: 'request success', result: { list, total: list.length, pageNo: 1, pageSize: 100 } };
+    }
+
+    if (request.path === '/cloud/v2/deviceManaged/bypassV2') {
+      return this.bypassV2(request);
+    }
+
+    if (request.path.endsWith('/devicedetail')) {
+      const device = this.devices.find(fixture => fixture.list.uuid === request.body?.uuid);
+      if (!device) {
+        return { code: DEVICE_NOT_FOUND, msg: 'device not found' };
+      }
+      return { code: 0, msg: 'request success', ...device.status };
+    }
+
+    if (request.path.endsWith('/devicestatus')) {
+      const device = this.devices.find(fixture => fixture.list.uuid === request.body?.uuid);
+      if (!device) {
+        return { code: DEVICE_NOT_FOUND, msg: 'device not found' };
+      }
+      if (request.body.status === 'on' || request.body.status === 'off') {
+        device.list.deviceStatus = request.body.status;
+        device.status.deviceStatus = request.body.status;
+      }
+      return { code: 0, msg: 'request success', result: {} };
+    }
+
+    // Energy history and other endpoints the fixtures do not script
+    return { code: 0, msg: 'request success', result: {} };
+  }
+
+  private bypassV2(request: RecordedRequest): object {
+    const device = this.devices.find(fixture => fixture.list.cid === request.body?.cid);
+    if (!device) {
+      return { code: DEVICE_NOT_FOUND, msg: 'device not found' };
+    }
+
+    const traceId = String(Date.now());
+    const result = request.method ? device.status[request.method] : undefined;
+    return {
+      code: 0,
+      msg: 'request success',
+      traceId,
+      result: { code: 0, traceId, result: result ?? {} },
+    };
+  }
+
+  private authorize(body: any): object {
+    const passwordHash = crypto.createHash('md5').update(this.password).digest('hex');
+    if (body?.email !== this.username || body?.password !== passwordHash) {
+      return { code: CREDENTIAL_ERROR, msg: 'account or password incorrect' };
+    }
+    const authorizeCode = crypto.randomBytes(8).toString('hex');
+    this.authorizeCodes.add(authorizeCode);
+    return { code: 0, msg: 'request success', result: { accountID: ACCOUNT_ID, authorizeCode } };
+  }
+
+  private login(body: any): object {
+    if (!this.authorizeCodes.delete(body?.authorizeCode)) {
+      return { code: CREDENTIAL_ERROR, msg: 'invalid authorize code' };
+    }
+    const now = Math.floor(Date.now() / 1000);
+    this.tokenCount++;
+    this.currentToken = [
+      base64url({ alg: 'HS256', typ: 'JWT' }),
+      base64url({ accountId: ACCOUNT_ID, terminalId: body.terminalId, iat: now, exp: now + 30 * 24 * 60 * 60, n: this.tokenCount }),
+      'signature',
+    ].join('.');
+    return {
+      code: 0,
+      msg: 'request success',
+      result: { accountID: ACCOUNT_ID, token: this.currentToken, countryCode: body.userCountryCode || 'US' },
+    };
+  }
+
+  private takeFailure(request: RecordedRequest): object | undefined {
+    const failure = this.failures.find(({ matcher, remaining }) => remaining > 0 &&
+      (matcher.path === undefined || matcher.path === request.path) &&
+      (matcher.method === undefined || matcher.method === request.method) &&
+      (matcher.cid === undefined || matcher.cid === request.body?.cid) &&
+      (matcher.uuid === undefined || matcher.uuid === request.body?.uuid));
+    if (!failure) {
+      return undefined;
+    }
+    failure.remaining--;
+    return { ...failure.response, result: null };
+  }
+}
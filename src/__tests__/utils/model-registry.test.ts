@@ -0,0 +1,76 @@
+import { DEFAULT_MODEL_REGISTRY, ModelRegistry } from '../../utils/model-registry';
+
+describe('ModelRegistry', () => {
+  it('classifies the built-in models by prefix and substring, case-insensitively', () => {
+    const types = [
+      'Core300S', 'LAP-C601S-WUSR', 'LUH-O451S-WUS', 'LUH-D301S-WEU', 'Classic300S', 'LTF-F422S-WUS',
+      'ESL100MC', 'XYD0001', 'ESWD16', 'ESW15-USA', 'wifi-switch-1.3', 'ESWL01', 'core600s',
+    ].map(model => DEFAULT_MODEL_REGISTRY.getDeviceTypeKey(model));
+
+    expect(types).toEqual([
+      'airPurifier', 'airPurifier', 'humidifier', 'humidifier', 'humidifier', 'fan',
+      'light', 'light', 'light', 'outlet', 'outlet', 'switch', 'airPurifier',
+    ]);
+    expect(DEFAULT_MODEL_REGISTRY.getDeviceTypeKey('XYZ-NEW1')).toBeUndefined();
+  });
+
+  it('carries speed levels and derives the HomeKit category from the type', () => {
+    expect(DEFAULT_MODEL_REGISTRY.resolve('LTF-F422S-KEU')?.levels).toHaveLength(12);
+    expect(DEFAULT_MODEL_REGISTRY.resolve('LTF-F999')?.levels).toBeUndefined();
+    expect(DEFAULT_MODEL_REGISTRY.resolve('Classic200S')?.levels).toEqual([1, 2, 3]);
+    expect(DEFAULT_MODEL_REGISTRY.resolve('LUH-A602S-WUS')).toMatchObject({ levels: [1, 2, 3, 4, 5, 6, 7, 8, 9], warmLevels: [1, 2, 3] });
+    expect(DEFAULT_MODEL_REGISTRY.getCategoryName('LV600S')).toBe('AIR_HUMIDIFIER');
+    expect(DEFAULT_MODEL_REGISTRY.getCategoryName('ESWL03')).toBe('SWITCH');
+    expect(DEFAULT_MODEL_REGISTRY.getCategoryName('XYZ-NEW1')).toBeUndefined();
+  });
+
+  it('adds models from overrides, matched before the built-in ones', () => {
+    const registry = new ModelRegistry([
+      { model: 'LAP-V999S-*', type: 'airPurifier', features: ['air_quality', 'auto_mode'], levels: [1, 2, 3, 4, 5] },
+      { model: 'ESW15-USA', type: 'switch' },
+    ]);
+
+    expect(registry.resolve('LAP-V999S-WUS')).toEqual({
+      model: 'LAP-V999S-*',
+      type: 'airPurifier',
+      features: ['air_quality', 'auto_mode'],
+      levels: [1, 2, 3, 4, 5],
+    });
+    expect(registry.getDeviceTypeKey('ESW15-USA')).toBe('switch');
+    expect(registry.getCategoryName('ESW15-USA')).toBe('SWITCH');
+  });
+
+  it('refines a known model when the override has no type', () => {
+    const registry = new ModelRegistry([{ model: 'LTF-F422S-KEU', levels: [1, 2, 3] }, { model: 'NEW-*', levels: [1] }]);
+
+    expect(registry.resolve('LTF-F422S-KEU')).toMatchObject({ type: 'fan', levels: [1, 2, 3] });
+    expect(registry.resolve('NEW-MODEL')).toBeUndefined();
+  });
+
+  it('drops the built-in definition when an override changes the type', () => {
+    const registry = new ModelRegistry([{ model: 'LTF-F422S-KEU', type: 'outlet' }]);
+
+    expect(registry.resolve('LTF-F422S-KEU')).toEqual({ model: 'LTF-F422S-KEU', type: 'outlet' });
+  });
+
+  it('reports and skips invalid overrides', () => {
+    const onInvalid = jest.fn();
+    const registry = new ModelRegistry([
+      { model: '', type: 'fan' },
+      { model: 'ABC-1', type: 'toaster' as any },
+      { model: 'ABC-2', type: 'fan', category: 'GARAGE_DOOR' as any },
+    ], onInvalid);
+
+    expect(onInvalid).toHaveBeenCalledTimes(3);
+    expect(onInvalid).toHaveBeenCalledWith('Ignoring model override for ABC-1: unknown type "toaster"');
+    expect(registry.getDeviceTypeKey('ABC-1')).toBeUndefined();
+    expect(registry.getDeviceTypeKey('ABC-2')).toBeUndefined();
+  });
+
+  it('treats pattern characters other than * literally', () => {
+    const registry = new ModelRegistry([{ model: 'A.B(1)', type: 'outlet' }]);
+
+    expect(registry.getDeviceTypeKey('A.B(1)')).toBe('outlet');
+    expect(registry.getDeviceTypeKey('AxB(1)')).toBeUndefined();
+  });
+});
@@ -0,0 +1,141 @@
+import net from 'net';
+import { AddressInfo } from 'net';
+import mqtt, { MqttClient } from 'mqtt';
+import Aedes, { createBroker } from 'aedes';
+import { MqttBridge, MqttDevice } from '../../utils/mqtt-bridge';
+import { PluginLogger } from '../../utils/logger';
+
+jest.setTimeout(15000);
+
+class FakeDevice implements MqttDevice {
+  state: Record<string, unknown> = { name: 'Purifier', active: 1 };
+  commands: Record<string, unknown>[] = [];
+
+  getMqttState(): Record<string, unknown> {
+    return { ...this.state };
+  }
+
+  async handleMqttCommand(command: Record<string, unknown>): Promise<void> {
+    this.commands.push(command);
+    this.state = { ...this.state, ...command };
+  }
+}
+
+describe('MqttBridge', () => {
+  let broker: Aedes;
+  let server: net.Server;
+  let url: string;
+  let bridge: MqttBridge;
+  let observer: MqttClient;
+  let logger: jest.Mocked<PluginLogger>;
+  let messages: { topic: string; payload: string; retain: boolean }[];
+
+  const waitFor = async (predicate: () => boolean): Promise<void> => {
+    const deadline = Date.now() + 5000;
+    while (!predicate()) {
+      if (Date.now() > deadline) {
+        throw new Error('Timed out waiting for MQTT traffic');
+      }
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+  };
+
+  const connectBridge = async (topicPrefix?: string) => {
+    bridge = new MqttBridge({ enabled: true, url, topicPrefix }, logger);
+    bridge.start();
+    await waitFor(() => messages.some(message => message.topic.endsWith('/status') && message.payload === 'online'));
+    // Give the command subscription time to reach the broker
+    await new Promise(resolve => setTimeout(resolve, 100));
+  };
+
+  beforeEach(async () => {
+    broker = await createBroker();
+    server = net.createServer(broker.handle);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `mqtt://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as unknown as jest.Mocked<PluginLogger>;
+    messages = [];
+    observer = await mqtt.connectAsync(url);
+    observer.on('message', (topic, payload, packet) => {
+      messages.push({ topic, payload: payload.toString(), retain: packet.retain });
+    });
+    await observer.subscribeAsync('#');
+  });
+
+  afterEach(async () => {
+    await bridge?.stop();
+    await observer.endAsync();
+    await new Promise<void>(resolve => broker.close(() => resolve()));
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  it('publishes retained state under the device id when it changes', async () => {
+    await connectBridge();
+    const device = new FakeDevice();
+    bridge.register('core300s-cid', device);
+
+    bridge.publishState(device);
+    bridge.publishState(device);
+    device.state.active = 0;
+    bridge.publishState(device);
+
+    await waitFor(() => messages.filter(message => message.topic === 'tsvesync/core300s-cid/state').length === 2);
+    const states = messages.filter(message => message.topic === 'tsvesync/core300s-cid/state');
+    expect(states.map(message => JSON.parse(message.payload).active)).toEqual([1, 0]);
+
+    // A late subscriber sees the retained state
+    const late = await mqtt.connectAsync(url);
+    const retained = new Promise<string>(resolve => late.on('message', (_topic, payload) => resolve(payload.toString())));
+    await late.subscribeAsync('tsvesync/core300s-cid/state');
+    expect(JSON.parse(await retained)).toEqual({ name: 'Purifier', active: 0 });
+    await late.endAsync();
+  });
+
+  it('routes commands to the device and publishes the resulting state', async () => {
+    await connectBridge('home/vesync');
+    const device = new FakeDevice();
+    bridge.register('core300s-cid', device);
+
+    await observer.publishAsync('home/vesync/core300s-cid/set', JSON.stringify({ active: 0, rotationSpeed: 50 }));
+
+    await waitFor(() => messages.some(message => message.topic === 'home/vesync/core300s-cid/state'));
+    expect(device.commands).toEqual([{ active: 0, rotationSpeed: 50 }]);
+    const state = messages.find(message => message.topic === 'home/vesync/core300s-cid/state')!;
+    expect(JSON.parse(state.payload)).toMatchObject({ active: 0, rotationSpeed: 50 });
+  });
+
+  it('ignores malformed commands and unknown devices', async () => {
+    await connectBridge();
+    const device = new FakeDevice();
+    bridge.register('core300s-cid', device);
+
+    await observer.publishAsync('tsvesync/core300s-cid/set', 'on');
+    await observer.publishAsync('tsvesync/unknown-cid/set', '{"active":1}');
+
+    await waitFor(() => logger.warn.mock.calls.length === 2);
+    expect(device.commands).toHaveLength(0);
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('payload must be a JSON object'));
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('unknown device unknown-cid'));
+  });
+
+  it('stops routing commands once a device is unregistered', async () => {
+    await connectBridge();
+    const device = new FakeDevice();
+    bridge.register('core300s-cid', device);
+    bridge.unregister(device);
+
+    await observer.publishAsync('tsvesync/core300s-cid/set', '{"active":0}');
+
+    await waitFor(() => logger.warn.mock.calls.length === 1);
+    expect(device.commands).toHaveLength(0);
+  });
+
+  it('marks the bridge offline when it stops', async () => {
+    await connectBridge();
+
+    await bridge.stop();
+
+    await waitFor(() => messages.some(message => message.topic === 'tsvesync/status' && message.payload === 'offline'));
+  });
+});
@@ -0,0 +1,71 @@
+import { AccessoryActivity, PollScheduler } from '../../utils/poll-scheduler';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const NOW = Date.parse('2026-03-10T12:00:00Z');
+
+const activity = (overrides: Partial<AccessoryActivity> = {}): AccessoryActivity => ({
+  trackedSince: NOW - 24 * HOUR,
+  lastStateChange: NOW - HOUR,
+  lastInteraction: 0,
+  offline: false,
+  ...overrides,
+});
+
+describe('PollScheduler', () => {
+  it('uses the default interval for every accessory when adaptive polling is off', () => {
+    const scheduler = new PollScheduler(5 * MINUTE);
+    scheduler.updateBudget('account', { remainingCalls: 10, msUntilReset: HOUR, activities: ['active'], fixedCallsPerSecond: 0 });
+
+    expect(scheduler.isAdaptive).toBe(false);
+    expect(scheduler.getInterval('account', activity({ offline: true }), NOW)).toBe(5 * MINUTE);
+  });
+
+  it('classifies accessories by recent activity', () => {
+    const scheduler = new PollScheduler(5 * MINUTE, { enabled: true });
+
+    expect(scheduler.classify(activity({ lastInteraction: NOW - 5 * MINUTE }), NOW)).toBe('active');
+    expect(scheduler.classify(activity(), NOW)).toBe('normal');
+    expect(scheduler.classify(activity({ lastStateChange: NOW - 3 * HOUR }), NOW)).toBe('idle');
+    expect(scheduler.classify(activity({ offline: true, lastInteraction: NOW }), NOW)).toBe('offline');
+    // Newly tracked accessories are not idle until they have been watched for a while
+    expect(scheduler.classify(activity({ trackedSince: NOW - 10 * MINUTE, lastStateChange: 0 }), NOW)).toBe('normal');
+  });
+
+  it('spreads the remaining quota over the rest of the day', () => {
+    const scheduler = new PollScheduler(5 * MINUTE, { enabled: true });
+    // 80% of 1200 calls over 10 hours, two normal devices: one call every 75 seconds per device
+    scheduler.updateBudget('account', {
+      remainingCalls: 1200,
+      msUntilReset: 10 * HOUR,
+      activities: ['normal', 'normal'],
+      fixedCallsPerSecond: 0,
+    });
+
+    expect(scheduler.getInterval('account', activity(), NOW)).toBe(75 * 1000);
+    expect(scheduler.getInterval('account', activity({ lastStateChange: NOW - 3 * HOUR }), NOW)).toBe(225 * 1000);
+    // Another account without a budget yet keeps the default
+    expect(scheduler.getInterval('other', activity(), NOW)).toBe(5 * MINUTE);
+  });
+
+  it('clamps intervals to the configured bounds', () => {
+    const scheduler = new PollScheduler(5 * MINUTE, { enabled: true, minInterval: 120, maxInterval: 600 });
+
+    scheduler.updateBudget('plenty', { remainingCalls: 100000, msUntilReset: HOUR, activities: ['active'], fixedCallsPerSecond: 0 });
+    scheduler.updateBudget('exhausted', { remainingCalls: 0, msUntilReset: HOUR, activities: ['normal'], fixedCallsPerSecond: 0 });
+
+    expect(scheduler.getInterval('plenty', activity({ lastInteraction: NOW }), NOW)).toBe(120 * 1000);
+    expect(scheduler.getInterval('exhausted', activity(), NOW)).toBe(600 * 1000);
+  });
+
+  it('tracks when each accessory was last polled', () => {
+    const scheduler = new PollScheduler(5 * MINUTE);
+
+    expect(scheduler.isDue('a', 5 * MINUTE, NOW)).toBe(true);
+    scheduler.markPolled('a', NOW);
+    expect(scheduler.isDue('a', 5 * MINUTE, NOW + 4 * MINUTE)).toBe(false);
+    expect(scheduler.isDue('a', 5 * MINUTE, NOW + 5 * MINUTE)).toBe(true);
+    scheduler.forget('a');
+    expect(scheduler.isDue('a', 5 * MINUTE, NOW)).toBe(true);
+  });
+});
@@ -0,0 +1,135 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { QuotaManager, QuotaLedger } from '../../utils/quota-manager';
+import { createMockPluginLogger } from './test-helpers';
+
+describe('QuotaManager ledger', () => {
+  let dir: string;
+  let ledgerPath: string;
+
+  const readLedger = (): QuotaLedger => JSON.parse(fs.readFileSync(ledgerPath, 'utf8'));
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tsvesync-quota-'));
+    ledgerPath = path.join(dir, 'tsvesync', 'quota.json');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('persists the day count and per-method breakdown', async () => {
+    jest.setSystemTime(new Date('2026-03-10T12:00:00Z'));
+    const manager = new QuotaManager(createMockPluginLogger(), 2, { ledgerPath });
+
+    manager.recordApiCall('getDetails');
+    manager.recordApiCall('getDetails');
+    manager.recordApiCall('turnOn');
+    await manager.flush();
+
+    expect(readLedger()).toMatchObject({
+      date: '2026-03-10',
+      timeZone: 'UTC',
+      apiCallCount: 3,
+      methods: { getDetails: 2, turnOn: 1 },
+    });
+  });
+
+  it('restores calls already made today after a restart', async () => {
+    jest.setSystemTime(new Date('2026-03-10T12:00:00Z'));
+    const before = new QuotaManager(createMockPluginLogger(), 0, { ledgerPath });
+    before.recordApiCall('getDetails');
+    before.recordApiCall('update');
+    await before.flush();
+
+    const after = new QuotaManager(createMockPluginLogger(), 0, { ledgerPath });
+
+    expect(after.getApiCallCount()).toBe(2);
+    expect(after.getMethodCallCounts()).toEqual({ getDetails: 1, update: 1 });
+  });
+
+  it('ignores a ledger from an earlier quota day', async () => {
+    jest.setSystemTime(new Date('2026-03-10T12:00:00Z'));
+    const before = new QuotaManager(createMockPluginLogger(), 0, { ledgerPath });
+    before.recordApiCall('getDetails');
+    await before.flush();
+
+    jest.setSystemTime(new Date('2026-03-11T12:00:00Z'));
+    const after = new QuotaManager(createMockPluginLogger(), 0, { ledgerPath });
+
+    expect(after.getApiCallCount()).toBe(0);
+  });
+
+  it('starts the quota day at midnight in the configured timezone', () => {
+    // 06:30 UTC is still the previous evening in Los Angeles
+    jest.setSystemTime(new Date('2026-03-11T06:30:00Z'));
+    const manager = new QuotaManager(createMockPluginLogger(), 0, { timeZone: 'America/Los_Angeles' });
+    manager.recordApiCall('getDetails');
+
+    // 08:30 UTC is 00:30 in Los Angeles: a new quota day
+    jest.setSystemTime(new Date('2026-03-11T08:30:00Z'));
+    manager.recordApiCall('getDetails');
+
+    expect(manager.getApiCallCount()).toBe(1);
+  });
+
+  it('falls back to UTC for an invalid timezone', async () => {
+    jest.setSystemTime(new Date('2026-03-10T23:30:00Z'));
+    const logger = createMockPluginLogger();
+    const manager = new QuotaManager(logger, 0, { timeZone: 'Not/AZone', ledgerPath });
+    manager.recordApiCall('getDetails');
+    await manager.flush();
+
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('Invalid quota timezone'));
+    expect(readLedger()).toMatchObject({ date: '2026-03-10', timeZone: 'UTC' });
+  });
+
+  it('coalesces writes from a burst of calls', () => {
+    jest.setSystemTime(new Date('2026-03-10T12:00:00Z'));
+    const manager = new QuotaManager(createMockPluginLogger(), 0, { ledgerPath });
+    const flush = jest.spyOn(manager, 'flush');
+
+    manager.recordApiCall('getDetails');
+    manager.recordApiCall('getDetails');
+    jest.advanceTimersByTime(5000);
+
+    expect(flush).toHaveBeenCalledTimes(1);
+  });
+
+  it('writes the ledger one flush at a time', async () => {
+    jest.setSystemTime(new Date('2026-03-10T12:00:00Z'));
+    const logger = createMockPluginLogger();
+    const manager = new QuotaManager(logger, 0, { ledgerPath });
+    const rename = jest.spyOn(fs.promises, 'rename');
+
+    manager.recordApiCall('getDetails');
+    const flushes = [manager.flush(), manager.flush()];
+    manager.recordApiCall('turnOn');
+    flushes.push(manager.flush());
+    await Promise.all(flushes);
+
+    // Writes left over from earlier tests may land meanwhile; only this ledger's count
+    expect(rename.mock.calls.filter(([, to]) => to === ledgerPath)).toHaveLength(3);
+    expect(logger.warn).not.toHaveBeenCalledWith(expect.stringContaining('Failed to write quota ledger'));
+    expect(readLedger()).toMatchObject({ apiCallCount: 2 });
+    rename.mockRestore();
+  });
+
+  it('writes the last counts synchronously at shutdown and ignores later async writes', async () => {
+    jest.setSystemTime(new Date('2026-03-10T12:00:00Z'));
+    const manager = new QuotaManager(createMockPluginLogger(), 0, { ledgerPath });
+    manager.recordApiCall('getDetails');
+    const pending = manager.flush();
+    manager.recordApiCall('turnOn');
+
+    manager.flushSync();
+    expect(readLedger()).toMatchObject({ apiCallCount: 2 });
+
+    await pending;
+    expect(readLedger()).toMatchObject({ apiCallCount: 2 });
+    expect(fs.readdirSync(path.dirname(ledgerPath))).toEqual(['quota.json']);
+  });
+});
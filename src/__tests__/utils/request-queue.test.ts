@@ -0,0 +1,107 @@
+import { PluginLogger } from '../../utils/logger';
+import { RequestQueue, classifyRequest } from '../../utils/request-queue';
+
+describe('RequestQueue', () => {
+  let logger: jest.Mocked<PluginLogger>;
+  let started: string[];
+
+  // A call that records when it starts
+  const call = (name: string) => async () => {
+    started.push(name);
+    return name;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as unknown as jest.Mocked<PluginLogger>;
+    started = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('classes calls by method name', () => {
+    expect(classifyRequest('turnOff')).toBe('write');
+    expect(classifyRequest('setMode')).toBe('write');
+    expect(classifyRequest('getDevices')).toBe('discovery');
+    expect(classifyRequest('login')).toBe('discovery');
+    expect(classifyRequest('getDetails')).toBe('poll');
+    expect(classifyRequest('updateEnergy')).toBe('poll');
+  });
+
+  it('starts calls apart, with commands ahead of discovery and discovery ahead of polls', async () => {
+    const queue = new RequestQueue(logger, 500, 10);
+    const results = Promise.all([
+      queue.run('getDetails', 'getDetails-a', call('poll a')),
+      queue.run('getDetails', 'getDetails-b', call('poll b')),
+      queue.run('getDevices', undefined, call('discovery')),
+      queue.run('turnOff', undefined, call('write')),
+    ]);
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(started).toEqual(['poll a']);
+    await jest.advanceTimersByTimeAsync(499);
+    expect(started).toEqual(['poll a']);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(started).toEqual(['poll a', 'write']);
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(started).toEqual(['poll a', 'write', 'discovery', 'poll b']);
+    expect(await results).toEqual(['poll a', 'poll b', 'discovery', 'write']);
+    expect(queue.getStats()).toMatchObject({
+      dispatched: { write: 1, discovery: 1, poll: 2 },
+      waitMs: { write: 500, discovery: 1000, poll: 1500 },
+      maxWaitMs: { poll: 1500 },
+      depth: { write: 0, discovery: 0, poll: 0 },
+    });
+  });
+
+  it('makes a waiting poll once for everyone who asked for it', async () => {
+    const queue = new RequestQueue(logger, 500, 10);
+    const first = queue.run('turnOn', undefined, call('write'));
+    const polls = [
+      queue.run('getDetails', 'getDetails-a', call('poll a')),
+      queue.run('getDetails', 'getDetails-a', call('poll a again')),
+    ];
+
+    await jest.advanceTimersByTimeAsync(500);
+
+    expect(await first).toBe('write');
+    expect(await Promise.all(polls)).toEqual(['poll a', 'poll a']);
+    expect(started).toEqual(['write', 'poll a']);
+    expect(queue.getStats().coalesced).toBe(1);
+  });
+
+  it('drops the newest poll for a command when the queue is full', async () => {
+    const queue = new RequestQueue(logger, 500, 2);
+    const running = queue.run('turnOn', undefined, call('running'));
+    const oldPoll = queue.run('getDetails', 'getDetails-a', call('poll a'));
+    const newPoll = queue.run('getDetails', 'getDetails-b', call('poll b'));
+    const write = queue.run('turnOff', undefined, call('write'));
+    const refused = queue.run('getDetails', 'getDetails-c', call('poll c'));
+
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(await Promise.all([running, oldPoll, newPoll, write, refused])).toEqual(['running', 'poll a', null, 'write', null]);
+    expect(started).toEqual(['running', 'write', 'poll a']);
+    expect(queue.getStats().dropped).toEqual({ write: 0, discovery: 0, poll: 2 });
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('queue is full'));
+  });
+
+  it('passes errors to every caller sharing the call', async () => {
+    const queue = new RequestQueue(logger, 500, 10);
+    queue.run('turnOn', undefined, call('write'));
+    const failing = async () => {
+      throw new Error('offline');
+    };
+    const polls = [
+      queue.run('getDetails', 'getDetails-a', failing),
+      queue.run('getDetails', 'getDetails-a', call('unused')),
+    ].map(poll => poll.catch((error: Error) => error.message));
+
+    await jest.advanceTimersByTimeAsync(500);
+
+    expect(await Promise.all(polls)).toEqual(['offline', 'offline']);
+  });
+});
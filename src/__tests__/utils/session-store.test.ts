@@ -0,0 +1,138 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PluginLogger } from '../../utils/logger';
+import {
+  FileSessionStore,
+  PluginSession,
+  ReadOnlySessionStore,
+  createSessionStore,
+  resolveSessionSecret,
+} from '../../utils/session-store';
+
+const session: PluginSession = {
+  token: 'token-abc',
+  accountId: 'acct-4242',
+  region: 'US',
+  apiBaseUrl: 'https://smartapi.vesync.com',
+  terminalId: 'terminal-1',
+  username: 'test@example.com',
+};
+
+describe('FileSessionStore encryption', () => {
+  let dir: string;
+  let file: string;
+  let logger: jest.Mocked<PluginLogger>;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tsvesync-session-'));
+    file = path.join(dir, 'tsvesync', 'session.json');
+    logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as unknown as jest.Mocked<PluginLogger>;
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('stores the session encrypted and reads it back with the same secret', async () => {
+    await new FileSessionStore(dir, logger, 'session.json', 'hunter2').save(session);
+
+    const raw = fs.readFileSync(file, 'utf8');
+    expect(raw).not.toContain('token-abc');
+    expect(JSON.parse(raw)).toMatchObject({ encrypted: 'aes-256-gcm', kdf: 'scrypt' });
+    expect(await new FileSessionStore(dir, logger, 'session.json', 'hunter2').load()).toMatchObject(session);
+  });
+
+  it('encrypts an existing plaintext session when it is loaded', async () => {
+    await new FileSessionStore(dir, logger).save(session);
+
+    expect(await new FileSessionStore(dir, logger, 'session.json', 'hunter2').load()).toMatchObject(session);
+    expect(fs.readFileSync(file, 'utf8')).not.toContain('token-abc');
+    expect(await new FileSessionStore(dir, logger, 'session.json', 'hunter2').load()).toMatchObject(session);
+  });
+
+  it('explains a secret that does not match and starts over on the next save', async () => {
+    await new FileSessionStore(dir, logger, 'session.json', 'hunter2').save(session);
+    const store = new FileSessionStore(dir, logger, 'session.json', 'other-secret');
+
+    expect(await store.load()).toBeNull();
+    expect(logger.error).toHaveBeenCalledWith(expect.stringContaining('secret does not match'));
+    expect(await new FileSessionStore(dir, logger).load()).toBeNull();
+    expect(logger.error).toHaveBeenCalledWith(expect.stringContaining('session encryption is not configured'));
+
+    await store.save({ ...session, token: 'token-new' });
+    expect(await store.load()).toMatchObject({ token: 'token-new' });
+  });
+
+  it('takes the secret from the config or the environment', () => {
+    process.env.TSVESYNC_TEST_SECRET = 'from-env';
+    try {
+      expect(resolveSessionSecret(undefined, logger)).toBeUndefined();
+      expect(resolveSessionSecret({ enabled: true, secret: 'inline' }, logger)).toBe('inline');
+      expect(resolveSessionSecret({ enabled: true, secretEnv: 'TSVESYNC_TEST_SECRET' }, logger)).toBe('from-env');
+      expect(resolveSessionSecret({ enabled: true, secretEnv: 'TSVESYNC_UNSET_SECRET' }, logger)).toBeUndefined();
+      expect(logger.warn).toHaveBeenCalledTimes(1);
+    } finally {
+      delete process.env.TSVESYNC_TEST_SECRET;
+    }
+  });
+});
+
+describe('createSessionStore', () => {
+  let dir: string;
+  let logger: jest.Mocked<PluginLogger>;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tsvesync-session-'));
+    logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as unknown as jest.Mocked<PluginLogger>;
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps the session in the storage directory by default', async () => {
+    await createSessionStore(undefined, dir, logger, '-abc').save(session);
+
+    expect(fs.existsSync(path.join(dir, 'tsvesync', 'session-abc.json'))).toBe(true);
+  });
+
+  it('keeps the session at a custom path, apart for each additional account', async () => {
+    const shared = path.join(dir, 'shared', 'vesync.json');
+    await createSessionStore({ type: 'file', path: shared }, dir, logger).save(session);
+    await createSessionStore({ type: 'file', path: shared }, dir, logger, '-abc').save({ ...session, token: 'token-2' });
+
+    expect(JSON.parse(fs.readFileSync(shared, 'utf8'))).toMatchObject({ token: 'token-abc' });
+    expect(JSON.parse(fs.readFileSync(path.join(dir, 'shared', 'vesync-abc.json'), 'utf8'))).toMatchObject({ token: 'token-2' });
+  });
+
+  it('reads a provisioned session from a file or the environment and never writes it', async () => {
+    const secretFile = path.join(dir, 'vesync-session');
+    fs.writeFileSync(secretFile, JSON.stringify(session));
+    const fromFile = createSessionStore({ type: 'readonly', path: secretFile }, dir, logger);
+
+    expect(fromFile).toBeInstanceOf(ReadOnlySessionStore);
+    await fromFile.save({ ...session, token: 'token-new' });
+    await fromFile.clear();
+    expect(await fromFile.load()).toMatchObject(session);
+
+    process.env.TSVESYNC_SESSION = JSON.stringify(session);
+    try {
+      expect(await createSessionStore({ type: 'readonly' }, dir, logger).load()).toMatchObject(session);
+    } finally {
+      delete process.env.TSVESYNC_SESSION;
+    }
+    expect(await createSessionStore({ type: 'readonly' }, dir, logger).load()).toBeNull();
+    expect(fs.existsSync(path.join(dir, 'tsvesync'))).toBe(false);
+  });
+
+  it('ignores a provisioned session without credentials', async () => {
+    process.env.TSVESYNC_TEST_SESSION = JSON.stringify({ region: 'US' });
+    try {
+      expect(await createSessionStore({ type: 'readonly', env: 'TSVESYNC_TEST_SESSION' }, dir, logger).load()).toBeNull();
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('$TSVESYNC_TEST_SESSION'));
+    } finally {
+      delete process.env.TSVESYNC_TEST_SESSION;
+    }
+  });
+});
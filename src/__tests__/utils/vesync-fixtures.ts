@@ -0,0 +1,203 @@
+/**
+ * Scripted VeSync devices served by the mock cloud server.
+ *
+ * `list` is the entry returned by the device list call. `status` holds the detail responses: keyed by
+ * bypassV2 method for bypass devices, or the raw detail body for devices with a dedicated endpoint.
+ */
+export interface VeSyncDeviceFixture {
+  list: Record<string, any>;
+  status: Record<string, any>;
+}
+
+const listEntry = (overrides: Record<string, any>): Record<string, any> => ({
+  deviceStatus: 'on',
+  connectionStatus: 'online',
+  deviceRegion: 'US',
+  deviceImg: '',
+  currentFirmVersion: '1.0.0',
+  subDeviceNo: null,
+  mode: null,
+  speed: null,
+  ...overrides,
+});
+
+export const CORE300S_FIXTURE: VeSyncDeviceFixture = {
+  list: listEntry({
+    deviceName: 'Bedroom Purifier',
+    deviceType: 'Core300S',
+    type: 'wifi-air',
+    cid: 'core300s-cid',
+    uuid: 'core300s-uuid',
+    macID: '00:00:00:00:00:01',
+    configModule: 'WFON_AP_Core300S_US',
+  }),
+  status: {
+    getPurifierStatus: {
+      enabled: true,
+      filter_life: 82,
+      mode: 'manual',
+      level: 2,
+      display: true,
+      child_lock: false,
+      air_quality: 1,
+      air_quality_value: 4,
+    },
+  },
+};
+
+export const LV600S_FIXTURE: VeSyncDeviceFixture = {
+  list: listEntry({
+    deviceName: 'Nursery Humidifier',
+    deviceType: 'LUH-A602S-WUS',
+    type: 'wifi-air',
+    cid: 'lv600s-cid',
+    uuid: 'lv600s-uuid',
+    macID: '00:00:00:00:00:02',
+    configModule: 'WFON_AHM_LUH-A602S-WUS_US',
+  }),
+  status: {
+    getHumidifierStatus: {
+      enabled: true,
+      humidity: 45,
+      mist_virtual_level: 3,
+      mist_level: 3,
+      mode: 'manual',
+      water_lacks: false,
+      humidity_high: false,
+      water_tank_lifted: false,
+      display: true,
+      automatic_stop_reach_target: false,
+      night_light_brightness: 0,
+      warm_enabled: false,
+      warm_level: 0,
+      configuration: {
+        auto_target_humidity: 55,
+        display: true,
+        automatic_stop: true,
+      },
+    },
+  },
+};
+
+export const ESW15_FIXTURE: VeSyncDeviceFixture = {
+  list: listEntry({
+    deviceName: 'Kitchen Plug',
+    deviceType: 'ESW15-USA',
+    type: 'wifi-switch',
+    cid: 'esw15-cid',
+    uuid: 'esw15-uuid',
+    macID: '00:00:00:00:00:03',
+    configModule: 'WiFi_SmartSocket_ESW15-USA_US',
+  }),
+  status: {
+    deviceStatus: 'on',
+    activeTime: 120,
+    energy: 0.5,
+    power: '12.5',
+    voltage: '120.1',
+    nightLightStatus: 'off',
+    nightLightAutomode: 'off',
+    nightLightBrightness: 0,
+  },
+};
+
+export const ESL100MC_FIXTURE: VeSyncDeviceFixture = {
+  list: listEntry({
+    deviceName: 'Desk Lamp',
+    deviceType: 'ESL100MC',
+    type: 'wifi-light',
+    cid: 'esl100mc-cid',
+    uuid: 'esl100mc-uuid',
+    macID: '00:00:00:00:00:04',
+    configModule: 'WiFi_Bulb_MulticolorBulb_US',
+  }),
+  status: {
+    getLightStatus: {
+      action: 'on',
+      brightness: 80,
+      colorMode: 'color',
+      red: 255,
+      green: 120,
+      blue: 40,
+    },
+  },
+};
+
+export const LTF_F422_FIXTURE: VeSyncDeviceFixture = {
+  list: listEntry({
+    deviceName: 'Living Room Fan',
+    deviceType: 'LTF-F422S-WUS',
+    type: 'wifi-air',
+    cid: 'ltf-f422-cid',
+    uuid: 'ltf-f422-uuid',
+    macID: '00:00:00:00:00:05',
+    configModule: 'VS_WFON_FAN_LTF-F422S-WUS_US',
+  }),
+  status: {
+    getTowerFanStatus: {
+      powerSwitch: 1,
+      workMode: 'normal',
+      manualSpeedLevel: 3,
+      fanSpeedLevel: 3,
+      screenState: 1,
+      screenSwitch: 1,
+      oscillationState: 1,
+      oscillationSwitch: 1,
+      timerRemain: 0,
+      temperature: 717,
+      humidity: 0,
+      thermalComfort: 0,
+      sleepPreference: {},
+      scheduleCount: 0,
+      displayingType: 0,
+      errorCode: 0,
+    },
+  },
+};
+
+/**
+ * A plug variant the plugin's model registry does not know. The library still creates a device for it,
+ * falling back to its ESW03-USA class by model prefix.
+ */
+export const ESW03_EUR_FIXTURE: VeSyncDeviceFixture = {
+  list: listEntry({
+    deviceName: 'Hall Plug',
+    deviceType: 'ESW03-EUR',
+    type: 'wifi-switch',
+    cid: 'esw03-eur-cid',
+    uuid: 'esw03-eur-uuid',
+    macID: '00:00:00:00:00:06',
+    configModule: 'WiFi_SmartSocket_ESW03-EUR_EU',
+  }),
+  status: {
+    deviceStatus: 'off',
+    activeTime: 0,
+    energy: 0,
+    power: '0',
+    voltage: '230.2',
+  },
+};
+
+/**
+ * A kettle. The library has no device class for it and drops it from its device lists.
+ */
+export const KETTLE_FIXTURE: VeSyncDeviceFixture = {
+  list: listEntry({
+    deviceName: 'Kitchen Kettle',
+    deviceType: 'EKA17-WUS',
+    type: 'wifi-kettle',
+    cid: 'kettle-cid',
+    uuid: 'kettle-uuid',
+    macID: '00:00:00:00:00:07',
+    configModule: 'WFON_KTL_EKA17-WUS_US',
+  }),
+  status: {},
+};
+
+export const ALL_DEVICE_FIXTURES: VeSyncDeviceFixture[] = [
+  CORE300S_FIXTURE,
+  LV600S_FIXTURE,
+  ESW15_FIXTURE,
+  ESL100MC_FIXTURE,
+  LTF_F422_FIXTURE,
+];
@@ -1,7 +1,7 @@
 import { CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
 import { BaseAccessory } from './base.accessory';
 import { TSVESyncPlatform } from '../platform';
-import { DeviceCapabilities, VeSyncAirPurifier } from '../types/device.types';
+import { AirPurifierAutoModeConfig, DeviceCapabilities, VeSyncAirPurifier } from '../types/device.types';
 
 // Extended interface to include device-specific methods and properties
 interface ExtendedVeSyncAirPurifier extends VeSyncAirPurifier {
@@ -18,6 +18,9 @@ interface ExtendedVeSyncAirPurifier extends VeSyncAirPurifier {
   turnOnDisplay?(): Promise<boolean>;
   turnOffDisplay?(): Promise<boolean>;
   setChildLock?(enabled: boolean): Promise<boolean>;
+  setLightDetection?(enabled: boolean): Promise<boolean>;
+  setAutoPreference?(preference?: string, roomSize?: number): Promise<boolean>;
+  lightDetection?: boolean;
   setOscillation?(enabled: boolean): Promise<boolean>;
   hasFeature?(feature: string): boolean;
   isFeatureSupportedInCurrentMode?(feature: string): boolean;
@@ -32,6 +35,7 @@ interface ExtendedVeSyncAirPurifier extends VeSyncAirPurifier {
     air_quality_value?: number;
     air_quality?: string | number;
     screen_status?: 'on' | 'off';
+    screen_switch?: boolean;
     pm25?: number;
     pm10?: number;
     pm1?: number;
@@ -47,8 +51,14 @@ interface PendingWrite {
   active?: number;
   targetState?: number;
   rotationSpeed?: number;
+  // Mode whose switch was turned on
+  mode?: AirPurifierMode;
+  // Mode whose switch was turned off
+  leaveMode?: AirPurifierMode;
 }
 
+type AirPurifierMode = 'auto' | 'manual' | 'sleep' | 'turbo' | 'pet';
+
 export class AirPurifierAccessory extends BaseAccessory {
   /**
    * How long to buffer characteristic writes before applying them. HAP-NodeJS
@@ -66,6 +76,8 @@ export class AirPurifierAccessory extends BaseAccessory {
   private lastSetSpeed: number = 0; // Track the last speed we set
   private lastSetPercentage: number = 0; // Track the last percentage we set
   private skipNextUpdate: boolean = false; // Flag to skip the next update
+  // This purifier's `airPurifierAutoMode` entry, applied each time it is switched to auto
+  private autoModeConfig?: AirPurifierAutoModeConfig;
 
   // Coalesced write state. HomeKit scenes and automations send Active,
   // TargetAirPurifierState and RotationSpeed in a single HAP request, and
@@ -152,6 +164,12 @@ export class AirPurifierAccessory extends BaseAccessory {
     
     // **ENHANCED DEBUGGING**: Log detailed device type information
     this.platform.log.debug(`${this.device.deviceName}: FEATURE CHECK - hasFeature('${feature}') for device type: "${this.device.deviceType}"`);
+
+    // Features from the model registry take precedence
+    const registryFeatures = this.modelDefinition?.features;
+    if (registryFeatures) {
+      return registryFeatures.includes(feature);
+    }
     
     // Use device's native hasFeature method if available
     if (typeof extendedDevice.hasFeature === 'function') {
@@ -236,10 +254,13 @@ export class AirPurifierAccessory extends BaseAccessory {
         return canSetChildLock;
       }
         
-      case 'display':
-        // Explicitly disable display control features
-        this.platform.log.debug(`${this.device.deviceName}: Fallback hasFeature('${feature}') returned: false (explicitly disabled)`);
-        return false;
+      case 'display': {
+        // Only offered as an optional switch, so key off whether the device
+        // class implements the setter, like the child lock
+        const canSetDisplay = typeof extendedDevice.setDisplay === 'function';
+        this.platform.log.debug(`${this.device.deviceName}: Fallback hasFeature('${feature}') returned: ${canSetDisplay} (based on setDisplay availability)`);
+        return canSetDisplay;
+      }
         
       case 'filter_life':
         // For air purifiers, enable filter life features based on device type patterns
@@ -311,6 +332,12 @@ export class AirPurifierAccessory extends BaseAccessory {
    */
   private getMaxFanSpeed(): number {
     const extendedDevice = this.device as unknown as ExtendedVeSyncAirPurifier;
+
+    // Speed levels from the model registry take precedence
+    const registryLevels = this.modelDefinition?.levels;
+    if (registryLevels?.length) {
+      return registryLevels.length;
+    }
     
     // Use device's native method if available
     if (typeof extendedDevice.getMaxFanSpeed === 'function') {
@@ -356,10 +383,10 @@ export class AirPurifierAccessory extends BaseAccessory {
    * Core 300S, but both hardware families only have three manual speeds -
    * verified against a Core300S, where changeFanSpeed(4) reports success and
    * the device settles at 3. Trusting the declared 4 produces a dead top notch
-   * where 80% and 100% both mean speed 3.
+   * where 80% and 100% both mean speed 3. Levels set in `modelOverrides` still win.
    */
   private getEffectiveMaxFanSpeed(): number {
-    if (this.isCore200S() || this.isCore300S()) {
+    if (!this.modelDefinition?.levels?.length && (this.isCore200S() || this.isCore300S())) {
       return 3;
     }
     return this.getMaxFanSpeed();
@@ -606,14 +633,16 @@ export class AirPurifierAccessory extends BaseAccessory {
     // Set up rotation speed characteristic using the simplified approach (like reference plugin)
     const minStep = this.calculateRotationSpeedStep();
     
+    const setRotationSpeed = this.setRotationSpeed.bind(this);
     this.service.getCharacteristic(this.platform.Characteristic.RotationSpeed)
       .onGet(this.getRotationSpeed.bind(this))
-      .onSet(this.setRotationSpeed.bind(this))
+      .onSet(setRotationSpeed)
       .setProps({
         minValue: 0,
         maxValue: 100,
         minStep: minStep
       });
+    this.registerCommandHandler(this.platform.Characteristic.RotationSpeed, setRotationSpeed);
     
     this.platform.log.debug(`${this.device.deviceName}: Configured RotationSpeed with minStep: ${minStep}`);
 
@@ -638,13 +667,23 @@ export class AirPurifierAccessory extends BaseAccessory {
       this.accessory.removeService(existingFilterService);
     }
     
-    // Add a Pet Mode switch for devices that support it (e.g. Vital 200S / LAP-V201S)
-    this.setupPetModeSwitch();
+    // Add a Pet Mode switch for devices that support it (e.g. Vital 200S / LAP-V201S),
+    // or a switch for every supported mode with `airPurifierModeSwitches`
+    if (this.platform.config.airPurifierModeSwitches) {
+      this.setupModeSwitches();
+    } else {
+      this.removeModeSwitches();
+      this.setupPetModeSwitch();
+    }
 
     // Expose the panel lock ("Display Lock" on the device) in the
     // accessory's settings pane for devices that support it
     this.setupChildLock();
 
+    this.setupOptionalSwitches();
+
+    this.setupAutoModePreference();
+
     // Check and log important features for debugging
     const autoModeSupported = this.hasFeature('auto_mode');
     this.platform.log.debug(`${this.device.deviceName} (${this.device.deviceType}): Features detected:`);
@@ -748,6 +787,284 @@ export class AirPurifierAccessory extends BaseAccessory {
     }
   }
 
+  /**
+   * With `airPurifierModeSwitches`, each mode the device supports gets its own
+   * switch, so automations can pick sleep, turbo or pet directly instead of a
+   * slider notch. Pet keeps the Pet Mode switch's name and subtype, so a cached
+   * one carries over. Writes go through queueWrite() like the other
+   * characteristics, so they can't race Active or RotationSpeed in a scene.
+   */
+  private static readonly MODE_SWITCHES: ReadonlyArray<[AirPurifierMode, string, string]> = [
+    ['auto', 'Auto Mode', 'mode-auto'],
+    ['manual', 'Manual Mode', 'mode-manual'],
+    ['sleep', 'Sleep Mode', 'mode-sleep'],
+    ['turbo', 'Turbo Mode', 'mode-turbo'],
+    ['pet', AirPurifierAccessory.PET_MODE_SERVICE_NAME, 'pet-mode'],
+  ];
+
+  private supportsMode(mode: AirPurifierMode): boolean {
+    switch (mode) {
+      case 'auto':
+        return !this.device.deviceType.includes('Core200S') && this.hasFeature('auto_mode');
+      case 'manual':
+        return true;
+      default:
+        return this.hasFeature(`${mode}_mode`);
+    }
+  }
+
+  private setupModeSwitches(): void {
+    for (const [mode, name, subtype] of AirPurifierAccessory.MODE_SWITCHES) {
+      const existing = this.accessory.getService(name);
+
+      if (!this.supportsMode(mode)) {
+        if (existing) {
+          this.platform.log.debug(`${this.device.deviceName}: Removing ${name} switch - device does not support ${mode} mode`);
+          this.accessory.removeService(existing);
+        }
+        continue;
+      }
+
+      const modeService = existing ||
+        this.accessory.addService(this.platform.Service.Switch, name, subtype);
+
+      modeService.getCharacteristic(this.platform.Characteristic.On)
+        .onGet(async () => this.isModeOn(mode))
+        .onSet(async (value: CharacteristicValue) => this.setModeSwitch(mode, value));
+    }
+
+    this.platform.log.debug(`${this.device.deviceName}: Mode switches configured`);
+  }
+
+  /**
+   * Remove the mode switches a previous `airPurifierModeSwitches` added, apart
+   * from Pet Mode, which setupPetModeSwitch() keeps or removes on its own
+   */
+  private removeModeSwitches(): void {
+    for (const [mode, name] of AirPurifierAccessory.MODE_SWITCHES) {
+      const existing = mode !== 'pet' ? this.accessory.getService(name) : undefined;
+      if (existing) {
+        this.platform.log.debug(`${this.device.deviceName}: Removing ${name} switch`);
+        this.accessory.removeService(existing);
+      }
+    }
+  }
+
+  /**
+   * A mode switch is on while the device is on and in that mode
+   */
+  private isModeOn(mode: AirPurifierMode): boolean {
+    const extendedDevice = this.device as ExtendedVeSyncAirPurifier;
+    const effectiveMode = this.resolveEffectiveMode(extendedDevice.mode);
+    return effectiveMode === mode && (effectiveMode === 'sleep' || this.device.deviceStatus === 'on');
+  }
+
+  private async setModeSwitch(mode: AirPurifierMode, value: CharacteristicValue): Promise<void> {
+    return value ? this.queueWrite('mode', mode) : this.queueWrite('leaveMode', mode);
+  }
+
+  /**
+   * The mode to change to when the current mode's switch is turned off: auto
+   * where the device has it, since pet, sleep and turbo are temporary, else manual
+   */
+  private modeAfterLeaving(mode: AirPurifierMode): AirPurifierMode {
+    return mode !== 'auto' && this.supportsMode('auto') ? 'auto' : 'manual';
+  }
+
+  /**
+   * Switch the device into a mode, turning it on first if needed
+   */
+  private async applyMode(mode: AirPurifierMode): Promise<void> {
+    try {
+      const extendedDevice = this.device as ExtendedVeSyncAirPurifier;
+
+      if (this.device.deviceStatus !== 'on' && !await this.device.turnOn()) {
+        throw new Error('Failed to turn on device');
+      }
+
+      this.platform.log.info(`Changing mode to ${mode} for device: ${this.device.deviceName}`);
+      const modeMethods: Record<AirPurifierMode, (() => Promise<boolean>) | undefined> = {
+        auto: extendedDevice.autoMode,
+        manual: extendedDevice.manualMode,
+        sleep: extendedDevice.sleepMode,
+        turbo: extendedDevice.turboMode,
+        pet: extendedDevice.petMode,
+      };
+      const modeMethod = modeMethods[mode];
+
+      let success = false;
+      if (typeof modeMethod === 'function') {
+        success = await modeMethod.call(extendedDevice);
+      } else if (typeof extendedDevice.setMode === 'function') {
+        success = await extendedDevice.setMode(mode);
+      } else {
+        throw new Error('Device API does not support mode setting operations');
+      }
+
+      if (!success) {
+        throw new Error(`Failed to set mode to ${mode}`);
+      }
+      if (mode === 'auto') {
+        await this.applyAutoModePreference();
+      }
+
+      // Hold the commanded mode against stale API reads
+      this.rememberCommandedMode(mode);
+
+      // Refresh characteristics so the main service and switches stay consistent
+      await this.updateDeviceSpecificStates(this.device);
+    } catch (error) {
+      await this.handleDeviceError('set mode', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Keep the mode switches in sync with the device
+   */
+  private updateModeSwitches(): void {
+    for (const [mode, name] of AirPurifierAccessory.MODE_SWITCHES) {
+      this.accessory.getService(name)?.updateCharacteristic(this.platform.Characteristic.On, this.isModeOn(mode));
+    }
+  }
+
+  /**
+   * Display and light detection switches, added for the ones listed in
+   * `airPurifierSwitches` that the model supports. Light detection (Vital and
+   * Everest Air) dims the display and fan when the room goes dark.
+   */
+  private static readonly DISPLAY_SERVICE_NAME = 'Display';
+  private static readonly LIGHT_DETECTION_SERVICE_NAME = 'Light Detection';
+
+  private setupOptionalSwitches(): void {
+    const extendedDevice = this.device as ExtendedVeSyncAirPurifier;
+
+    this.setupOptionalSwitch(
+      'display',
+      this.platform.config.airPurifierSwitches,
+      AirPurifierAccessory.DISPLAY_SERVICE_NAME,
+      typeof extendedDevice.setDisplay === 'function' && this.hasFeature('display'),
+      this.getDisplayOn.bind(this),
+      this.setDisplayOn.bind(this),
+    );
+    this.setupOptionalSwitch(
+      'lightDetection',
+      this.platform.config.airPurifierSwitches,
+      AirPurifierAccessory.LIGHT_DETECTION_SERVICE_NAME,
+      typeof extendedDevice.setLightDetection === 'function' && this.hasFeature('light_detection'),
+      this.getLightDetectionOn.bind(this),
+      this.setLightDetectionOn.bind(this),
+    );
+  }
+
+  /**
+   * The bypassV2 purifiers report the display as `screen_switch`; the Core
+   * series as `screen_status`
+   */
+  private getDisplayOn(): boolean {
+    const extendedDevice = this.device as ExtendedVeSyncAirPurifier;
+    return extendedDevice.details?.screen_switch ?? extendedDevice.details?.screen_status === 'on';
+  }
+
+  private async setDisplayOn(value: CharacteristicValue): Promise<void> {
+    try {
+      const extendedDevice = this.device as ExtendedVeSyncAirPurifier;
+      const on = value as boolean;
+      this.platform.log.info(`Turning display ${on ? 'on' : 'off'} for device: ${this.device.deviceName}`);
+
+      if (!await extendedDevice.setDisplay!(on)) {
+        throw new Error(`Failed to turn display ${on ? 'on' : 'off'}`);
+      }
+
+      // The library only updates a key the getter doesn't read, so hold the
+      // new state until the next refresh
+      if (extendedDevice.details) {
+        if (extendedDevice.details.screen_switch !== undefined) {
+          extendedDevice.details.screen_switch = on;
+        } else {
+          extendedDevice.details.screen_status = on ? 'on' : 'off';
+        }
+      }
+    } catch (error) {
+      await this.handleDeviceError('set display', error);
+      throw error;
+    }
+  }
+
+  private getLightDetectionOn(): boolean {
+    return (this.device as ExtendedVeSyncAirPurifier).lightDetection ?? false;
+  }
+
+  private async setLightDetectionOn(value: CharacteristicValue): Promise<void> {
+    try {
+      const on = value as boolean;
+      this.platform.log.info(`Turning light detection ${on ? 'on' : 'off'} for device: ${this.device.deviceName}`);
+
+      if (!await (this.device as ExtendedVeSyncAirPurifier).setLightDetection!(on)) {
+        throw new Error(`Failed to turn light detection ${on ? 'on' : 'off'}`);
+      }
+    } catch (error) {
+      await this.handleDeviceError('set light detection', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Keep the display and light detection switches in sync with the device
+   */
+  private updateOptionalSwitches(): void {
+    const { Characteristic } = this.platform;
+    this.accessory.getService(AirPurifierAccessory.DISPLAY_SERVICE_NAME)
+      ?.updateCharacteristic(Characteristic.On, this.getDisplayOn());
+    this.accessory.getService(AirPurifierAccessory.LIGHT_DETECTION_SERVICE_NAME)
+      ?.updateCharacteristic(Characteristic.On, this.getLightDetectionOn());
+  }
+
+  /**
+   * Read this purifier's `airPurifierAutoMode` entry, ignoring it with a
+   * warning if the model has no auto preferences or the entry is invalid
+   */
+  private setupAutoModePreference(): void {
+    const config = this.platform.config.airPurifierAutoMode?.find(entry => this.matchesDeviceEntry(entry));
+    if (!config) {
+      return;
+    }
+
+    const extendedDevice = this.device as ExtendedVeSyncAirPurifier;
+    const preferences = extendedDevice.getSupportedAutoPreferences?.() ?? ['default', 'efficient', 'quiet'];
+    if (typeof extendedDevice.setAutoPreference !== 'function' || !this.hasFeature('auto_mode')) {
+      this.platform.log.warn(`${this.device.deviceName}: Ignoring airPurifierAutoMode entry - device has no auto mode preferences`);
+    } else if (!preferences.includes(config.preference)) {
+      this.platform.log.warn(`${this.device.deviceName}: Ignoring airPurifierAutoMode entry - preference must be one of ${preferences.join(', ')}`);
+    } else if (config.roomSize !== undefined && (!Number.isFinite(config.roomSize) || config.roomSize <= 0)) {
+      this.platform.log.warn(`${this.device.deviceName}: Ignoring airPurifierAutoMode entry without a valid room size`);
+    } else {
+      this.autoModeConfig = config;
+    }
+  }
+
+  /**
+   * Send the configured auto mode preference after switching to auto. The
+   * device is already in auto by then, so a failure is only logged.
+   */
+  private async applyAutoModePreference(): Promise<void> {
+    const config = this.autoModeConfig;
+    if (!config) {
+      return;
+    }
+
+    const roomSize = config.roomSize !== undefined ? ` (room size ${config.roomSize})` : '';
+    this.platform.log.info(`Setting auto mode preference to ${config.preference}${roomSize} for device: ${this.device.deviceName}`);
+    try {
+      const extendedDevice = this.device as ExtendedVeSyncAirPurifier;
+      if (!await extendedDevice.setAutoPreference!(config.preference, config.roomSize)) {
+        throw new Error(`Failed to set auto mode preference to ${config.preference}`);
+      }
+    } catch (error) {
+      this.platform.log.warn(`${this.device.deviceName}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
   /**
    * The panel lock (marketed as "Display Lock" on Core-series purifiers,
    * "Child Lock" elsewhere) maps to HomeKit's LockPhysicalControls, which
@@ -882,6 +1199,13 @@ export class AirPurifierAccessory extends BaseAccessory {
     };
   }
 
+  /**
+   * Get the device type for polling configuration
+   */
+  public getDeviceType(): string {
+    return 'airPurifier';
+  }
+
   /**
    * Update device states based on the latest details
    */
@@ -921,11 +1245,17 @@ export class AirPurifierAccessory extends BaseAccessory {
     );
 
     // Keep the Pet Mode switch (if present) in sync with the device mode
-    const petService = this.accessory.getService(AirPurifierAccessory.PET_MODE_SERVICE_NAME);
-    if (petService) {
-      petService.updateCharacteristic(this.platform.Characteristic.On, mode === 'pet');
+    if (this.platform.config.airPurifierModeSwitches) {
+      this.updateModeSwitches();
+    } else {
+      const petService = this.accessory.getService(AirPurifierAccessory.PET_MODE_SERVICE_NAME);
+      if (petService) {
+        petService.updateCharacteristic(this.platform.Characteristic.On, mode === 'pet');
+      }
     }
 
+    this.updateOptionalSwitches();
+
     // Update rotation speed
     if (isOn && isTurbo) {
       this.service.updateCharacteristic(this.platform.Characteristic.RotationSpeed, 100);
@@ -1028,7 +1358,7 @@ export class AirPurifierAccessory extends BaseAccessory {
    * whole batch has been applied. Every characteristic in the batch shares the
    * same promise, so HomeKit gets a success/failure per write as usual.
    */
-  private queueWrite(key: keyof PendingWrite, value: number): Promise<void> {
+  private queueWrite<K extends keyof PendingWrite>(key: K, value: PendingWrite[K]): Promise<void> {
     if (!this.pendingWrite) {
       this.pendingWrite = {};
     }
@@ -1067,10 +1397,13 @@ export class AirPurifierAccessory extends BaseAccessory {
    *  - RotationSpeed 0 only means "turn off" when the same batch didn't also
    *    ask for the device to be on or set a mode. Otherwise "on + auto + 0%"
    *    turns the device on and straight back off.
+   *  - A mode switch turned on names the exact mode, so it beats both of the
+   *    above. A mode switch turned off only counts when nothing else in the
+   *    batch set a mode - a scene that turns Sleep on and Auto off means sleep.
    */
   private async resolveWrite(batch: PendingWrite): Promise<void> {
-    const { active, targetState } = batch;
-    let { rotationSpeed } = batch;
+    const { active, targetState, leaveMode } = batch;
+    let { rotationSpeed, mode } = batch;
 
     this.platform.log.debug(
       `${this.device.deviceName}: HomeKit write batch ${JSON.stringify(batch)} ` +
@@ -1084,8 +1417,13 @@ export class AirPurifierAccessory extends BaseAccessory {
       return;
     }
 
+    if (mode === undefined && leaveMode !== undefined && targetState === undefined && rotationSpeed === undefined &&
+        this.isModeOn(leaveMode)) {
+      mode = this.modeAfterLeaving(leaveMode);
+    }
+
     if (rotationSpeed === 0) {
-      if (active !== 1 && targetState === undefined) {
+      if (active !== 1 && targetState === undefined && mode === undefined) {
         // Slider dragged to zero on its own - the long-standing "0% means off".
         await this.applyActive(0);
         return;
@@ -1103,6 +1441,11 @@ export class AirPurifierAccessory extends BaseAccessory {
       await this.applyActive(1);
     }
 
+    if (mode !== undefined) {
+      await this.applyMode(mode);
+      return;
+    }
+
     // Explicit AUTO beats the slider. In auto the device picks its own speed,
     // so the requested percentage is advisory and deliberately not applied.
     if (targetState === 1) {
@@ -1275,6 +1618,9 @@ export class AirPurifierAccessory extends BaseAccessory {
       if (!success) {
         throw new Error(`Failed to set mode to ${mode}`);
       }
+      if (targetState === 1) {
+        await this.applyAutoModePreference();
+      }
 
       // Remember what we commanded so the stale-read guard holds the tile on
       // the new mode until VeSync catches up.
@@ -295,6 +295,13 @@ export class AirQualitySensorAccessory extends BaseAccessory {
     };
   }
 
+  /**
+   * Polls the purifier it reports for, so it shares the purifier polling configuration
+   */
+  public getDeviceType(): string {
+    return 'airPurifier';
+  }
+
   /**
    * Setup the service (required by BaseAccessory)
    */
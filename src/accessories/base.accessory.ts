@@ -1,22 +1,40 @@
-import { CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
+import { Characteristic, CharacteristicValue, PlatformAccessory, Service, WithUUID } from 'homebridge';
 import { TSVESyncPlatform } from '../platform';
-import { DeviceCapabilities, VeSyncDeviceWithPower } from '../types/device.types';
+import { DeviceCapabilities, ModelDefinition, SensorReadings, VeSyncDeviceWithPower, VeSyncDeviceWithTimer } from '../types/device.types';
 import { RetryManager } from '../utils/retry';
 import { LogContext, PluginLogger } from '../utils/logger';
 import { sanitizeDeviceName } from '../utils/sanitize-name';
+import { AccessoryActivity } from '../utils/poll-scheduler';
+import { MqttDevice } from '../utils/mqtt-bridge';
 
-export abstract class BaseAccessory {
+export abstract class BaseAccessory implements MqttDevice {
   protected service!: Service;
   protected readonly platform: TSVESyncPlatform;
   protected readonly accessory: PlatformAccessory;
   protected readonly device: VeSyncDeviceWithPower;
   private readonly retryManager: RetryManager;
-  private readonly logger: PluginLogger;
+  protected readonly logger: PluginLogger;
   private needsRetry = false;
   private isInitialized = false;
   private initializationPromise: Promise<void>;
   private initializationResolver!: () => void;
   private isInitializing = false;
+  private stateFingerprint?: string;
+  private readonly createdAt = Date.now();
+  private lastStateChange = 0;
+  private lastInteraction = 0;
+  private timerService?: Service;
+  // Remaining seconds the device last reported, to tell a new report from a repeated one
+  private lastReportedTimer?: number;
+  // Set handlers of the primary service's characteristics by UUID, which MQTT commands go through
+  private readonly commandHandlers = new Map<string, {
+    type: WithUUID<new () => Characteristic>;
+    onSet: (value: CharacteristicValue) => Promise<void> | void;
+  }>();
+
+  private static readonly TIMER_SERVICE_NAME = 'Timer';
+  // VeSync off timers run for up to a day
+  private static readonly MAX_TIMER_SECONDS = 24 * 60 * 60;
 
   constructor(
     platform: TSVESyncPlatform,
@@ -89,10 +107,17 @@ export abstract class BaseAccessory {
     return sanitizeDeviceName(this.device.deviceName);
   }
 
+  /**
+   * This model's model registry entry, including any `modelOverrides` from the config
+   */
+  protected get modelDefinition(): ModelDefinition | undefined {
+    return this.platform.modelRegistry.resolve(this.device.deviceType);
+  }
+
   /**
    * Get the device type for polling configuration
    */
-  protected getDeviceType(): string {
+  public getDeviceType(): string {
     // Default implementation - override in subclasses if needed
     if (this.device.deviceType.toLowerCase().includes('air')) {
       return 'airPurifier';
@@ -123,6 +148,190 @@ export abstract class BaseAccessory {
 
     // Set up device-specific service
     this.setupService();
+    this.setupTimer();
+  }
+
+  /**
+   * The device, if it has an off timer
+   */
+  private get timerDevice(): VeSyncDeviceWithTimer | undefined {
+    const device = this.device as Partial<VeSyncDeviceWithTimer>;
+    if (typeof device.setTimer !== 'function' || typeof device.clearTimer !== 'function') {
+      return undefined;
+    }
+    const hasTimer = this.modelDefinition?.features?.includes('timer') ?? device.hasFeature?.('timer') ?? false;
+    return hasTimer ? device as VeSyncDeviceWithTimer : undefined;
+  }
+
+  /**
+   * Add an optional switch if the user listed it and the device supports it, or remove it
+   *
+   * @param option Name of the switch in the config list; also used as the service subtype
+   * @param configured The config list of switches for this kind of device, such as `humidifierSwitches`
+   * @returns The switch service, if it was added
+   */
+  protected setupOptionalSwitch<T extends string>(
+    option: T,
+    configured: readonly T[] | undefined,
+    name: string,
+    supported: boolean,
+    getOn: () => boolean,
+    setOn: (value: CharacteristicValue) => Promise<void>,
+  ): Service | undefined {
+    const existing = this.accessory.getService(name);
+
+    if (!supported || !configured?.includes(option)) {
+      if (existing) {
+        this.platform.log.debug(`${this.device.deviceName}: Removing ${name} switch - ${supported ? 'not configured' : 'not supported by device'}`);
+        this.accessory.removeService(existing);
+      }
+      return undefined;
+    }
+
+    const service = existing || this.accessory.addService(this.platform.Service.Switch, name, option);
+    service.getCharacteristic(this.platform.Characteristic.On)
+      .onGet(getOn)
+      .onSet(setOn);
+
+    this.platform.log.debug(`${this.device.deviceName}: ${name} switch configured`);
+    return service;
+  }
+
+  /**
+   * With `deviceTimers`, devices that can turn themselves off after a while get a "Timer" switch.
+   * It is on while the timer runs; SetDuration picks how long the next timer runs and
+   * RemainingDuration counts down, both shown by apps such as Eve. The end time is kept in the
+   * accessory context so the countdown carries over a restart on models that don't report it.
+   */
+  private setupTimer(): void {
+    if (!this.timerDevice) {
+      return;
+    }
+
+    const existing = this.accessory.getService(BaseAccessory.TIMER_SERVICE_NAME);
+    if (!this.platform.config.deviceTimers?.enabled) {
+      if (existing) {
+        this.platform.log.debug(`${this.device.deviceName}: Removing Timer switch - not configured`);
+        this.accessory.removeService(existing);
+      }
+      return;
+    }
+
+    const { Characteristic } = this.platform;
+    this.timerService = existing ||
+      this.accessory.addService(this.platform.Service.Switch, BaseAccessory.TIMER_SERVICE_NAME, 'timer');
+
+    for (const characteristic of [Characteristic.SetDuration, Characteristic.RemainingDuration]) {
+      if (!this.timerService.testCharacteristic(characteristic)) {
+        this.timerService.addCharacteristic(characteristic);
+      }
+    }
+
+    this.setupCharacteristic(
+      Characteristic.On,
+      async () => this.getTimerRemaining() > 0,
+      this.setTimerOn.bind(this),
+      undefined,
+      this.timerService
+    );
+    this.setupCharacteristic(
+      Characteristic.SetDuration,
+      async () => this.getTimerDuration(),
+      async (value: CharacteristicValue) => {
+        this.accessory.context.timer = { ...this.accessory.context.timer, duration: value as number };
+      },
+      { maxValue: BaseAccessory.MAX_TIMER_SECONDS },
+      this.timerService
+    );
+    this.setupCharacteristic(
+      Characteristic.RemainingDuration,
+      async () => this.getTimerRemaining(),
+      undefined,
+      { maxValue: BaseAccessory.MAX_TIMER_SECONDS },
+      this.timerService
+    );
+  }
+
+  /**
+   * Seconds the next timer runs for: the last SetDuration, else the configured default
+   */
+  private getTimerDuration(): number {
+    const duration = this.accessory.context.timer?.duration ??
+      (this.platform.config.deviceTimers?.duration ?? 60) * 60;
+    return Math.min(Math.max(Math.round(duration), 60), BaseAccessory.MAX_TIMER_SECONDS);
+  }
+
+  private getTimerRemaining(): number {
+    const endsAt: number | undefined = this.accessory.context.timer?.endsAt;
+    return endsAt ? Math.max(Math.ceil((endsAt - Date.now()) / 1000), 0) : 0;
+  }
+
+  private setTimerEnd(endsAt: number | undefined): void {
+    this.accessory.context.timer = { ...this.accessory.context.timer, endsAt };
+  }
+
+  /**
+   * Seconds left on the device's timer as the device or library reports it, if it does
+   */
+  private getReportedTimer(): number | undefined {
+    const device = this.timerDevice as VeSyncDeviceWithTimer & { details?: Record<string, unknown> };
+    const reported = device.details?.timerRemain ??
+      (typeof device.timer === 'object' && device.timer !== null ? device.timer.duration : device.timer);
+    return typeof reported === 'number' && Number.isFinite(reported) ? reported : undefined;
+  }
+
+  private async setTimerOn(value: CharacteristicValue): Promise<void> {
+    const device = this.timerDevice!;
+    try {
+      if (value) {
+        if (device.deviceStatus !== 'on') {
+          throw new Error('Timer can only be started while the device is on');
+        }
+        const duration = this.getTimerDuration();
+        this.platform.log.info(`Starting ${Math.round(duration / 60)} minute off timer for device: ${this.device.deviceName}`);
+        if (!await device.setTimer(duration / 3600)) {
+          throw new Error('Failed to start timer');
+        }
+        this.setTimerEnd(Date.now() + duration * 1000);
+      } else {
+        this.platform.log.info(`Cancelling off timer for device: ${this.device.deviceName}`);
+        if (!await device.clearTimer()) {
+          throw new Error('Failed to cancel timer');
+        }
+        this.setTimerEnd(undefined);
+      }
+      // What the library holds now describes the timer just set, not a new report
+      this.lastReportedTimer = this.getReportedTimer();
+      this.updateTimer();
+    } catch (error) {
+      await this.handleDeviceError(`${value ? 'start' : 'cancel'} timer`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Follow the device's own timer after a refresh. A timer ends once the device is off, and a
+   * changed report of the seconds left moves the end time.
+   */
+  private updateTimer(): void {
+    if (!this.timerService) {
+      return;
+    }
+
+    const reported = this.getReportedTimer();
+    if (this.device.deviceStatus !== 'on') {
+      this.setTimerEnd(undefined);
+    } else if (reported !== undefined && reported !== this.lastReportedTimer) {
+      this.setTimerEnd(reported > 0 ? Date.now() + reported * 1000 : undefined);
+    }
+    this.lastReportedTimer = reported;
+
+    const remaining = this.getTimerRemaining();
+    if (remaining === 0 && this.accessory.context.timer?.endsAt !== undefined) {
+      this.setTimerEnd(undefined);
+    }
+    this.timerService.updateCharacteristic(this.platform.Characteristic.On, remaining > 0);
+    this.timerService.updateCharacteristic(this.platform.Characteristic.RemainingDuration, remaining);
   }
 
   /**
@@ -171,6 +380,8 @@ export abstract class BaseAccessory {
       
       // Update states using device info we have
       await this.updateDeviceSpecificStates(this.device);
+      this.updateTimer();
+      this.platform.mqttBridge?.publishState(this);
       
       this.isInitialized = true;
       this.logger.debug('Accessory initialized', this.getLogContext());
@@ -239,6 +450,206 @@ export abstract class BaseAccessory {
     this.cacheDeviceDetails(this.device as any);
   }
 
+  /**
+   * Merge list-level state (power, connection, name) from a device list refresh.
+   *
+   * A list-only refresh creates device instances without details, so unlike
+   * `applyUpdatedDeviceState()` this leaves the existing details and cache alone; the next
+   * `syncDeviceState()` fetches them when the accessory is due.
+   */
+  public applyDeviceListState(updatedDevice: VeSyncDeviceWithPower): void {
+    const listed = updatedDevice as any;
+    const target = this.device as any;
+    for (const key of ['deviceName', 'deviceStatus', 'connectionStatus', 'deviceRegion', 'configModule', 'macId']) {
+      if (listed[key] !== undefined) {
+        target[key] = listed[key];
+      }
+    }
+  }
+
+  /**
+   * Whether a per-device config entry refers to this device, by id (cid or uuid) or exact name
+   */
+  protected matchesDeviceEntry(entry: { id?: string; name?: string }): boolean {
+    return (entry.id !== undefined && (entry.id === this.device.cid || entry.id === this.device.uuid)) ||
+      (entry.name !== undefined && entry.name.trim() === this.device.deviceName.trim());
+  }
+
+  /**
+   * The configured update interval for this device in milliseconds, if any. A device entry
+   * matching the id or name wins over the entry for its type.
+   */
+  public getUpdateIntervalOverride(): number | undefined {
+    const overrides = this.platform.config.updateIntervals;
+    if (!overrides) {
+      return undefined;
+    }
+
+    const deviceEntry = overrides.devices?.find(entry => this.matchesDeviceEntry(entry));
+    const seconds = deviceEntry?.updateInterval ?? overrides.types?.[this.getDeviceType()];
+    if (!seconds || seconds <= 0) {
+      return undefined;
+    }
+
+    // Syncs inside the cache TTL are served from cached details, so polling faster gains nothing
+    return Math.max(seconds * 1000, this.CACHE_TTL);
+  }
+
+  /**
+   * Recent activity used by the poll scheduler
+   */
+  public getActivity(): AccessoryActivity {
+    return {
+      trackedSince: this.createdAt,
+      lastStateChange: this.lastStateChange,
+      lastInteraction: this.lastInteraction,
+      offline: this.isDeviceOffline(),
+    };
+  }
+
+  /**
+   * Note when the device's reported state differs from the previous sync
+   */
+  private trackStateChange(): void {
+    const device = this.device as any;
+    const fingerprint = JSON.stringify({
+      deviceStatus: device.deviceStatus,
+      connectionStatus: device.connectionStatus,
+      details: device.details,
+      power: device.power,
+      energy: device.energy,
+    });
+    if (this.stateFingerprint !== undefined && fingerprint !== this.stateFingerprint) {
+      this.lastStateChange = Date.now();
+    }
+    this.stateFingerprint = fingerprint;
+  }
+
+  /**
+   * Whether the device list reports the device as online
+   */
+  public isOnline(): boolean {
+    return !this.isDeviceOffline();
+  }
+
+  /**
+   * Sensor values for metrics, read from the characteristics last sent to HomeKit
+   */
+  public getSensorReadings(): SensorReadings {
+    const { Characteristic } = this.platform;
+    const sources: [keyof SensorReadings, typeof Characteristic.PM2_5Density][] = [
+      ['pm25', Characteristic.PM2_5Density],
+      ['humidity', Characteristic.CurrentRelativeHumidity],
+      ['filterLife', Characteristic.FilterLifeLevel],
+    ];
+
+    const readings: SensorReadings = {};
+    for (const service of this.accessory.services ?? []) {
+      for (const [key, characteristic] of sources) {
+        if (readings[key] === undefined && service.testCharacteristic(characteristic)) {
+          const value = service.getCharacteristic(characteristic).value;
+          if (typeof value === 'number') {
+            readings[key] = value;
+          }
+        }
+      }
+    }
+    return readings;
+  }
+
+  /**
+   * Normalized state for MQTT: the primary service's characteristic values keyed by camelCased
+   * characteristic name (e.g. `rotationSpeed`), plus the device's name, model and connection status.
+   */
+  public getMqttState(): Record<string, unknown> {
+    const state: Record<string, unknown> = {
+      name: this.device.deviceName,
+      model: this.device.deviceType,
+      online: this.isOnline(),
+    };
+    for (const characteristic of this.service.characteristics ?? []) {
+      if (characteristic.UUID === this.platform.Characteristic.Name.UUID) {
+        continue;
+      }
+      state[this.mqttKey(characteristic)] = characteristic.value;
+    }
+    return state;
+  }
+
+  /**
+   * Apply an MQTT command, e.g. `{"active": 1, "rotationSpeed": 50}`. Each value is checked against the
+   * characteristic's props, written through the accessory's own set handler like a Home app change,
+   * and then shown in HomeKit.
+   */
+  public async handleMqttCommand(command: Record<string, unknown>): Promise<void> {
+    const writable = new Map<string, Characteristic>();
+    for (const characteristic of this.service.characteristics ?? []) {
+      if (this.commandHandlers.has(characteristic.UUID)) {
+        writable.set(this.mqttKey(characteristic), characteristic);
+      }
+    }
+
+    const unknownKeys = Object.keys(command).filter(key => !writable.has(key));
+    if (unknownKeys.length > 0) {
+      throw new Error(`Unsupported command keys: ${unknownKeys.join(', ')}`);
+    }
+    const values = Object.entries(command).map(([key, value]) => {
+      const characteristic = writable.get(key)!;
+      return [characteristic, this.validateCommandValue(characteristic, value)] as const;
+    });
+
+    this.lastInteraction = Date.now();
+    await Promise.all(values.map(async ([characteristic, value]) => {
+      const { type, onSet } = this.commandHandlers.get(characteristic.UUID)!;
+      await onSet(value);
+      this.service.updateCharacteristic(type, value);
+    }));
+  }
+
+  /**
+   * Make a primary service characteristic's set handler available to MQTT commands.
+   * `setupCharacteristic` does this itself; handlers passed to `onSet` directly need it.
+   */
+  protected registerCommandHandler(
+    type: WithUUID<new () => Characteristic>,
+    onSet: (value: CharacteristicValue) => Promise<void> | void,
+  ): void {
+    this.commandHandlers.set(type.UUID, { type, onSet });
+  }
+
+  private validateCommandValue(characteristic: Characteristic, value: unknown): CharacteristicValue {
+    const { format, minValue, maxValue, validValues } = characteristic.props;
+    if (format === this.platform.api.hap.Formats.BOOL) {
+      if (typeof value === 'boolean' || value === 0 || value === 1) {
+        return Boolean(value);
+      }
+    } else if (format === this.platform.api.hap.Formats.STRING) {
+      if (typeof value === 'string') {
+        return value;
+      }
+    } else if (typeof value === 'number' && Number.isFinite(value) &&
+        (minValue === undefined || value >= minValue) &&
+        (maxValue === undefined || value <= maxValue) &&
+        (!validValues || validValues.includes(value))) {
+      return value;
+    }
+    throw new Error(`Invalid value for ${characteristic.displayName}: ${JSON.stringify(value)}`);
+  }
+
+  private mqttKey(characteristic: Characteristic): string {
+    const words = characteristic.displayName.split(/[^A-Za-z0-9]+/).filter(Boolean);
+    return words
+      .map((word, index) => index === 0 ? word.toLowerCase() : word[0].toUpperCase() + word.slice(1).toLowerCase())
+      .join('');
+  }
+
+  /**
+   * Write out state that is saved lazily, synchronously, as Homebridge shuts down
+   */
+  public shutdown(): void {
+    // Nothing is saved lazily by default
+  }
+
   /**
    * Sync the device state with VeSync
    */
@@ -286,6 +697,9 @@ export abstract class BaseAccessory {
       
       // Update states using the device's internal state (even if refresh failed)
       await this.updateDeviceSpecificStates(this.device);
+      this.updateTimer();
+      this.trackStateChange();
+      this.platform.mqttBridge?.publishState(this);
     } catch (error) {
       await this.handleDeviceError(
         'Failed to sync device state',
@@ -324,6 +738,7 @@ export abstract class BaseAccessory {
           characteristic.name
         );
         
+        this.lastInteraction = Date.now();
         try {
           const value = await onGet();
           this.logger.stateChange({ ...context, value } as LogContext);
@@ -340,6 +755,9 @@ export abstract class BaseAccessory {
     }
     
     if (onSet) {
+      if (targetService === this.service) {
+        this.registerCommandHandler(characteristic, onSet);
+      }
       char.onSet(async (value) => {
         const context = this.getLogContext(
           'set characteristic',
@@ -347,6 +765,7 @@ export abstract class BaseAccessory {
           value
         );
         
+        this.lastInteraction = Date.now();
         try {
           await onSet(value); 
           this.logger.stateChange(context as LogContext);
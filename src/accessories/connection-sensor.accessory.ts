@@ -0,0 +1,48 @@
+import { Service, PlatformAccessory } from 'homebridge';
+import { TSVESyncPlatform } from '../platform';
+
+/**
+ * Connection Sensor Accessory
+ * A contact sensor that opens while a VeSync account can't log in, so HomeKit can notify about it.
+ * It belongs to the platform rather than a device.
+ */
+export class ConnectionSensorAccessory {
+  public static readonly NAME = 'VeSync Connection';
+
+  private readonly service: Service;
+
+  constructor(
+    private readonly platform: TSVESyncPlatform,
+    public readonly accessory: PlatformAccessory,
+    private readonly isFailing: () => boolean,
+  ) {
+    this.accessory.getService(this.platform.Service.AccessoryInformation)!
+      .setCharacteristic(this.platform.Characteristic.Manufacturer, 'VeSync')
+      .setCharacteristic(this.platform.Characteristic.Model, 'Connection Sensor')
+      .setCharacteristic(this.platform.Characteristic.SerialNumber, 'tsvesync-connection');
+
+    this.service = this.accessory.getService(this.platform.Service.ContactSensor) ||
+      this.accessory.addService(this.platform.Service.ContactSensor, ConnectionSensorAccessory.NAME);
+
+    this.service.getCharacteristic(this.platform.Characteristic.ContactSensorState)
+      .onGet(() => this.getContactState());
+
+    // The "Log In Again" switch moved to its own accessory
+    const staleSwitch = this.accessory.getServiceById(this.platform.Service.Switch, 'relogin');
+    if (staleSwitch) {
+      this.accessory.removeService(staleSwitch);
+    }
+  }
+
+  /**
+   * Push the current state to HomeKit
+   */
+  update(): void {
+    this.service.updateCharacteristic(this.platform.Characteristic.ContactSensorState, this.getContactState());
+  }
+
+  private getContactState(): number {
+    const { ContactSensorState } = this.platform.Characteristic;
+    return this.isFailing() ? ContactSensorState.CONTACT_NOT_DETECTED : ContactSensorState.CONTACT_DETECTED;
+  }
+}
@@ -13,30 +13,8 @@ const MODE_AUTO = 1;
 const MODE_SLEEP = 2;
 const MODE_TURBO = 3;
 
-// Fan speed levels for different device types
-const FAN_SPEED_LEVELS: { [key: string]: number[] } = {
-  'LTF-F422S-KEU': [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12],
-  'LTF-F422S-WUSR': [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12],
-  'LTF-F422_WJP': [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12],
-  'LTF-F422S-WUS': [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12],
-  'Core200S': [1, 2, 3],
-  'Core300S': [1, 2, 3, 4],
-  'Core400S': [1, 2, 3, 4],
-  'Core600S': [1, 2, 3, 4],
-  'LAP-C201S-AUSR': [1, 2, 3],
-  'LAP-C202S-WUSR': [1, 2, 3],
-  'LAP-C301S-WJP': [1, 2, 3, 4],
-  'LAP-C302S-WUSB': [1, 2, 3, 4],
-  'LAP-C301S-WAAA': [1, 2, 3, 4],
-  'LAP-C401S-WJP': [1, 2, 3, 4],
-  'LAP-C401S-WUSR': [1, 2, 3, 4],
-  'LAP-C401S-WAAA': [1, 2, 3, 4],
-  'LAP-C601S-WUS': [1, 2, 3, 4],
-  'LAP-C601S-WUSR': [1, 2, 3, 4],
-  'LAP-C601S-WEU': [1, 2, 3, 4],
-  'LV-PUR131S': [1, 2, 3],
-  'LV-RH131S': [1, 2, 3]
-};
+// Speed levels for fans the model registry has no levels for
+const DEFAULT_SPEED_LEVELS = [1, 2, 3, 4];
 
 export class FanAccessory extends BaseAccessory {
   protected readonly device: VeSyncFan;
@@ -51,7 +29,7 @@ export class FanAccessory extends BaseAccessory {
     super(platform, accessory, device);
     this.device = device;
     this.capabilities = this.getDeviceCapabilities();
-    this.speedLevels = FAN_SPEED_LEVELS[this.device.deviceType] || [1, 2, 3, 4];
+    this.speedLevels = this.modelDefinition?.levels || DEFAULT_SPEED_LEVELS;
   }
 
   protected setupService(): void {
@@ -179,6 +157,13 @@ export class FanAccessory extends BaseAccessory {
     };
   }
 
+  /**
+   * Get the device type for polling configuration
+   */
+  public getDeviceType(): string {
+    return 'fan';
+  }
+
   private async getActive(): Promise<CharacteristicValue> {
     return this.device.deviceStatus === 'on' ? 1 : 0;
   }
@@ -288,6 +273,10 @@ export class FanAccessory extends BaseAccessory {
     if (typeof device.setChildLock !== 'function') {
       return false;
     }
+    const registryFeatures = this.modelDefinition?.features;
+    if (registryFeatures) {
+      return registryFeatures.includes('child_lock');
+    }
     // Older tsvesync versions have no hasFeature; fall back to the setter
     return typeof device.hasFeature === 'function' ? device.hasFeature('child_lock') : true;
   }
@@ -17,6 +17,7 @@ interface ExtendedVeSyncHumidifier extends VeSyncHumidifier {
   
   // Common methods across humidifier types
   setMistLevel?(level: number): Promise<boolean>;
+  setWarmLevel?(level: number): Promise<boolean>;
   setHumidity?(humidity: number): Promise<boolean>;
   setAutoMode?(): Promise<boolean>;
   setManualMode?(): Promise<boolean>;
@@ -36,6 +37,8 @@ interface ExtendedVeSyncHumidifier extends VeSyncHumidifier {
   
   // Common properties
   mistLevel?: number;
+  mistLevels?: number[];
+  warmLevels?: number[];
   // Note: humidity must be non-optional to match VeSyncHumidifier interface
   humidity: number;
   currentHumidity?: number; // Actual humidity reading in the room
@@ -63,8 +66,19 @@ interface ExtendedVeSyncHumidifier extends VeSyncHumidifier {
     humidity_high?: boolean;
     automatic_stop?: boolean;
     automatic_stop_configured?: boolean;
+    display?: boolean;
+    warm_level?: number;
+    warm_enabled?: boolean;
     temperature?: number;
     filter_life?: number;
+    drying_mode?: {
+      autoDryingSwitch?: number;
+      dryingState?: number;
+      dryingRemain?: number;
+    };
+    configuration?: {
+      automatic_stop?: boolean;
+    };
   };
   
   // Device configuration object
@@ -90,6 +104,16 @@ interface HumidifierPendingWrite {
 }
 
 export class HumidifierAccessory extends BaseAccessory {
+  private static readonly DISPLAY_SERVICE_NAME = 'Display';
+  private static readonly AUTO_STOP_SERVICE_NAME = 'Auto Stop';
+  private static readonly DRYING_MODE_SERVICE_NAME = 'Drying Mode';
+  private static readonly WATER_EMPTY_SERVICE_NAME = 'Water Empty';
+  private static readonly TANK_LIFTED_SERVICE_NAME = 'Tank Lifted';
+  private static readonly WARM_MIST_SERVICE_NAME = 'Warm Mist';
+  private static readonly DEFAULT_MIST_LEVELS = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+  // Drying after a session can run for hours, past RemainingDuration's default 1 hour maximum
+  private static readonly MAX_DRYING_SECONDS = 24 * 60 * 60;
+
   protected readonly device: VeSyncHumidifier;
   private capabilities: DeviceCapabilities; // Removed readonly to allow re-initialization
   
@@ -330,14 +354,16 @@ export class HumidifierAccessory extends BaseAccessory {
 
     // Register humidity handlers IMMEDIATELY after updateCharacteristic — no separation.
     // The updateCharacteristic creates the instance; onGet/onSet must be on that same instance.
+    const setTargetHumidity = async (value: CharacteristicValue) => {
+      this.platform.log.info(`Setting target humidity to ${value}% for ${this.device.deviceName}`);
+      await this.setTargetHumidity(value);
+    };
     this.service
       .getCharacteristic(this.platform.Characteristic.RelativeHumidityHumidifierThreshold)
       .setProps({ minValue: 30, maxValue: 80, minStep: 1 })
       .onGet(this.getTargetHumidity.bind(this))
-      .onSet(async (value: CharacteristicValue) => {
-        this.platform.log.info(`Setting target humidity to ${value}% for ${this.device.deviceName}`);
-        await this.setTargetHumidity(value);
-      });
+      .onSet(setTargetHumidity);
+    this.registerCommandHandler(this.platform.Characteristic.RelativeHumidityHumidifierThreshold, setTargetHumidity);
 
     // Set up required characteristics
     this.setupCharacteristic(
@@ -375,14 +401,28 @@ export class HumidifierAccessory extends BaseAccessory {
       this.handleSetRotationSpeed.bind(this)
     );
 
-    // Constrain rotation speed to 2 steps for Dual200S (Low=50%, High=100%)
-    if (this.isHumidDual200S) {
+    // With humidifierMistLevels, each step of RotationSpeed is one mist level
+    if (this.platform.config.humidifierMistLevels) {
+      this.service.getCharacteristic(this.platform.Characteristic.RotationSpeed).setProps({
+        minValue: 0,
+        maxValue: this.getMistLevels().length,
+        minStep: 1,
+      });
+    } else if (this.isHumidDual200S) {
+      // Constrain rotation speed to 2 steps for Dual200S (Low=50%, High=100%)
       const rotationSpeedChar = this.service.getCharacteristic(this.platform.Characteristic.RotationSpeed);
       rotationSpeedChar.setProps({
         minValue: 0,
         maxValue: 100,
         minStep: 50,
       });
+    } else {
+      // Cached accessories keep the mist level steps of an earlier humidifierMistLevels
+      this.service.getCharacteristic(this.platform.Characteristic.RotationSpeed).setProps({
+        minValue: 0,
+        maxValue: 100,
+        minStep: 1,
+      });
     }
 
     // Add Name characteristic
@@ -427,8 +467,189 @@ export class HumidifierAccessory extends BaseAccessory {
       this.setupTemperatureService();
       this.setupFilterService();
     }
+
+    this.setupOptionalSwitches();
+    this.setupWaterSensors();
+    this.setupWarmMistService();
   }
-  
+
+  /**
+   * Mist levels from the model registry, else the library's, else 1-9
+   */
+  private getMistLevels(): number[] {
+    const registryLevels = this.modelDefinition?.levels;
+    if (registryLevels?.length) {
+      return registryLevels;
+    }
+    const deviceLevels = (this.device as ExtendedVeSyncHumidifier).mistLevels;
+    return deviceLevels?.length ? deviceLevels : HumidifierAccessory.DEFAULT_MIST_LEVELS;
+  }
+
+  /**
+   * Warm mist levels from the model registry, else the library's
+   */
+  private getWarmLevels(): number[] {
+    const registryLevels = this.modelDefinition?.warmLevels;
+    return registryLevels?.length ? registryLevels : (this.device as ExtendedVeSyncHumidifier).warmLevels ?? [];
+  }
+
+  /**
+   * RotationSpeed with `humidifierMistLevels`: the current mist level's step in the level table,
+   * or 0 while the humidifier is off
+   */
+  private getMistLevelStep(): number {
+    if (this.device.deviceStatus !== 'on') {
+      return 0;
+    }
+    const level = (this.device as ExtendedVeSyncHumidifier).mistLevel ?? this.device.speed;
+    return this.getMistLevels().indexOf(level) + 1;
+  }
+
+  /**
+   * Models that heat their mist get a "Warm Mist" fan whose speed steps through the warm mist
+   * levels, so it can be set apart from the mist level. A fan rather than a light keeps light
+   * scenes and "turn off the lights" away from the heater. The library can only set levels
+   * 1 and up, so the fan can turn warm mist on but not off.
+   */
+  private setupWarmMistService(): void {
+    const extendedDevice = this.device as ExtendedVeSyncHumidifier;
+    let existing = this.accessory.getService(HumidifierAccessory.WARM_MIST_SERVICE_NAME);
+    // Earlier versions showed warm mist as a light
+    if (existing && existing.UUID !== this.platform.Service.Fanv2.UUID) {
+      this.accessory.removeService(existing);
+      existing = undefined;
+    }
+    // The registry's features decide, like for the other features, then the library's
+    const hasWarmFeature = this.modelDefinition?.features?.includes('warm') ?? extendedDevice.hasFeature?.('warm') ?? false;
+    const supported = typeof extendedDevice.setWarmLevel === 'function' &&
+      hasWarmFeature &&
+      this.getWarmLevels().length > 0;
+
+    if (!supported) {
+      if (existing) {
+        this.platform.log.debug(`${this.device.deviceName}: Removing Warm Mist service`);
+        this.accessory.removeService(existing);
+      }
+      return;
+    }
+
+    const warmService = existing ||
+      this.accessory.addService(this.platform.Service.Fanv2, HumidifierAccessory.WARM_MIST_SERVICE_NAME, 'warm-mist');
+
+    this.setupCharacteristic(
+      this.platform.Characteristic.Active,
+      async () => this.getWarmLevelStep() > 0 ? 1 : 0,
+      async (value: CharacteristicValue) => {
+        if (value) {
+          await this.setWarmLevelStep(Math.max(this.getWarmLevelStep(), 1));
+        } else {
+          this.refuseWarmMistOff();
+        }
+      },
+      undefined,
+      warmService
+    );
+    this.setupCharacteristic(
+      this.platform.Characteristic.RotationSpeed,
+      async () => Math.max(this.getWarmLevelStep(), 1),
+      async (value: CharacteristicValue) => this.setWarmLevelStep(value as number),
+      { minValue: 1, maxValue: this.getWarmLevels().length, minStep: 1 },
+      warmService
+    );
+  }
+
+  /**
+   * Warm mist can't be turned off through the library: say so and show the device's state again
+   * once HomeKit has taken the "off"
+   */
+  private refuseWarmMistOff(): void {
+    this.platform.log.warn(`${this.device.deviceName}: Warm mist can't be turned off from HomeKit; use the VeSync app`);
+    setTimeout(() => this.updateWarmMistService(), 0);
+  }
+
+  /**
+   * The sensors `humidifierWaterSensors` adds: name, subtype and whether the sensor is tripped
+   */
+  private waterSensors(): Array<[string, string, () => boolean]> {
+    const details = () => (this.device as ExtendedVeSyncHumidifier).details;
+    return [
+      [HumidifierAccessory.WATER_EMPTY_SERVICE_NAME, 'water-empty', () => details()?.water_lacks ?? false],
+      [HumidifierAccessory.TANK_LIFTED_SERVICE_NAME, 'tank-lifted', () => details()?.water_tank_lifted ?? false],
+    ];
+  }
+
+  /**
+   * Add the leak or contact sensors `humidifierWaterSensors` asks for, which trip when the tank is
+   * empty or lifted. HomeKit can notify on these, unlike the WaterLevel characteristic. Sensors of
+   * the other type, or from an earlier config, are removed.
+   */
+  private setupWaterSensors(): void {
+    const { Service } = this.platform;
+    const type = this.platform.config.humidifierWaterSensors ?? 'none';
+    const sensorType = type === 'leak' ? Service.LeakSensor : type === 'contact' ? Service.ContactSensor : undefined;
+
+    for (const [name, subtype, isTripped] of this.waterSensors()) {
+      let sensor = this.accessory.getService(name);
+      if (sensor && sensor.UUID !== sensorType?.UUID) {
+        this.platform.log.debug(`${this.device.deviceName}: Removing ${name} sensor`);
+        this.accessory.removeService(sensor);
+        sensor = undefined;
+      }
+      if (!sensorType) {
+        continue;
+      }
+
+      sensor ??= this.accessory.addService(sensorType, name, subtype);
+      sensor.getCharacteristic(this.waterSensorCharacteristic())
+        .onGet(() => this.waterSensorValue(isTripped()));
+    }
+  }
+
+  /**
+   * Add the `humidifierSwitches` the device supports: Display, Auto Stop (turn off once the target
+   * humidity is reached) and Drying Mode (Superior 6000S dries its wick after a session, and the
+   * switch reports the time left in RemainingDuration). Cached switches that are no longer
+   * configured or supported are removed.
+   */
+  private setupOptionalSwitches(): void {
+    const extendedDevice = this.device as ExtendedVeSyncHumidifier;
+
+    this.setupOptionalSwitch(
+      'display',
+      this.platform.config.humidifierSwitches,
+      HumidifierAccessory.DISPLAY_SERVICE_NAME,
+      typeof extendedDevice.setDisplay === 'function' && (extendedDevice.hasFeature?.('display') ?? true),
+      this.getDisplayOn.bind(this),
+      this.setDisplayOn.bind(this),
+    );
+    this.setupOptionalSwitch(
+      'autoStop',
+      this.platform.config.humidifierSwitches,
+      HumidifierAccessory.AUTO_STOP_SERVICE_NAME,
+      typeof extendedDevice.setAutomaticStop === 'function' || typeof extendedDevice.automaticStopOn === 'function',
+      this.getAutoStopOn.bind(this),
+      this.setAutoStopOn.bind(this),
+    );
+    const dryingService = this.setupOptionalSwitch(
+      'dryingMode',
+      this.platform.config.humidifierSwitches,
+      HumidifierAccessory.DRYING_MODE_SERVICE_NAME,
+      typeof extendedDevice.setDryingModeEnabled === 'function' && (extendedDevice.hasFeature?.('drying') ?? false),
+      this.getDryingModeOn.bind(this),
+      this.setDryingModeOn.bind(this),
+    );
+
+    if (dryingService) {
+      const { Characteristic } = this.platform;
+      const remaining = dryingService.testCharacteristic(Characteristic.RemainingDuration)
+        ? dryingService.getCharacteristic(Characteristic.RemainingDuration)
+        : dryingService.addCharacteristic(Characteristic.RemainingDuration);
+      remaining
+        .setProps({ maxValue: HumidifierAccessory.MAX_DRYING_SECONDS })
+        .onGet(this.getDryingSecondsRemaining.bind(this));
+    }
+  }
+
   /**
    * Set up night light service for devices that support it
    */
@@ -637,6 +858,159 @@ export class HumidifierAccessory extends BaseAccessory {
     }
   }
 
+  /**
+   * Get display state
+   */
+  private getDisplayOn(): boolean {
+    const extendedDevice = this.device as ExtendedVeSyncHumidifier;
+    return extendedDevice.details?.display ?? extendedDevice.screenStatus === 'on';
+  }
+
+  /**
+   * Turn the display on or off
+   */
+  private async setDisplayOn(value: CharacteristicValue): Promise<void> {
+    try {
+      const isOn = value as boolean;
+      const extendedDevice = this.device as ExtendedVeSyncHumidifier;
+      this.platform.log.info(`Turning display ${isOn ? 'on' : 'off'} for device: ${this.device.deviceName}`);
+
+      if (!await extendedDevice.setDisplay!(isOn)) {
+        throw new Error(`Failed to turn ${isOn ? 'on' : 'off'} display`);
+      }
+
+      // Not every model updates its details after the call; hold the new state until the next refresh
+      if (extendedDevice.details) {
+        extendedDevice.details.display = isOn;
+      }
+    } catch (error) {
+      await this.handleDeviceError('set display state', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get whether the device turns itself off once the target humidity is reached. Models keep this
+   * setting under different keys.
+   */
+  private getAutoStopOn(): boolean {
+    const details = (this.device as ExtendedVeSyncHumidifier).details;
+    return details?.automatic_stop_configured ??
+      details?.configuration?.automatic_stop ??
+      details?.automatic_stop ??
+      false;
+  }
+
+  /**
+   * Set whether the device turns itself off once the target humidity is reached
+   */
+  private async setAutoStopOn(value: CharacteristicValue): Promise<void> {
+    try {
+      const enabled = value as boolean;
+      const extendedDevice = this.device as ExtendedVeSyncHumidifier;
+      this.platform.log.info(`${enabled ? 'Enabling' : 'Disabling'} auto stop for device: ${this.device.deviceName}`);
+
+      const success = typeof extendedDevice.setAutomaticStop === 'function'
+        ? await extendedDevice.setAutomaticStop(enabled)
+        : await (enabled ? extendedDevice.automaticStopOn!() : extendedDevice.automaticStopOff!());
+      if (!success) {
+        throw new Error(`Failed to ${enabled ? 'enable' : 'disable'} auto stop`);
+      }
+
+      if (extendedDevice.details) {
+        extendedDevice.details.automatic_stop_configured = enabled;
+      }
+    } catch (error) {
+      await this.handleDeviceError('set auto stop', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get whether the device dries itself after humidifying
+   */
+  private getDryingModeOn(): boolean {
+    return (this.device as ExtendedVeSyncHumidifier).dryingModeEnabled ?? false;
+  }
+
+  /**
+   * Set whether the device dries itself after humidifying
+   */
+  private async setDryingModeOn(value: CharacteristicValue): Promise<void> {
+    try {
+      const enabled = value as boolean;
+      const extendedDevice = this.device as ExtendedVeSyncHumidifier;
+      this.platform.log.info(`${enabled ? 'Enabling' : 'Disabling'} drying mode for device: ${this.device.deviceName}`);
+
+      if (!await extendedDevice.setDryingModeEnabled!(enabled)) {
+        throw new Error(`Failed to ${enabled ? 'enable' : 'disable'} drying mode`);
+      }
+
+      if (extendedDevice.details) {
+        extendedDevice.details.drying_mode = {
+          ...extendedDevice.details.drying_mode,
+          autoDryingSwitch: enabled ? 1 : 0,
+        };
+      }
+    } catch (error) {
+      await this.handleDeviceError('set drying mode', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The current warm mist level's step in the warm level table, or 0 while warm mist is off
+   */
+  private getWarmLevelStep(): number {
+    const details = (this.device as ExtendedVeSyncHumidifier).details;
+    if (!details?.warm_enabled || !details.warm_level) {
+      return 0;
+    }
+    return this.getWarmLevels().indexOf(details.warm_level) + 1;
+  }
+
+  /**
+   * Set the warm mist level by its step in the warm level table, from 1
+   */
+  private async setWarmLevelStep(step: number): Promise<void> {
+    try {
+      const levels = this.getWarmLevels();
+      const level = levels[Math.min(Math.max(Math.round(step), 1), levels.length) - 1];
+      this.platform.log.info(`Setting warm mist level to ${level} for device: ${this.device.deviceName}`);
+
+      if (!await (this.device as ExtendedVeSyncHumidifier).setWarmLevel!(level)) {
+        throw new Error(`Failed to set warm mist level to ${level}`);
+      }
+      this.updateWarmMistService();
+    } catch (error) {
+      await this.handleDeviceError('set warm mist level', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Keep the Warm Mist fan in sync with the device
+   */
+  private updateWarmMistService(): void {
+    const warmService = this.accessory.getService(HumidifierAccessory.WARM_MIST_SERVICE_NAME);
+    if (warmService) {
+      const step = this.getWarmLevelStep();
+      warmService.updateCharacteristic(this.platform.Characteristic.Active, step > 0 ? 1 : 0);
+      warmService.updateCharacteristic(this.platform.Characteristic.RotationSpeed, Math.max(step, 1));
+    }
+  }
+
+  /**
+   * Seconds left until drying finishes, or 0 when the device is not drying
+   */
+  private getDryingSecondsRemaining(): number {
+    const extendedDevice = this.device as ExtendedVeSyncHumidifier;
+    if (extendedDevice.dryingModeState !== 'on') {
+      return 0;
+    }
+    return Math.min(extendedDevice.dryingModeSecondsRemaining ?? 0, HumidifierAccessory.MAX_DRYING_SECONDS);
+  }
+
   /**
    * Update device states based on the latest details
    */
@@ -764,6 +1138,10 @@ export class HumidifierAccessory extends BaseAccessory {
       }
     }
 
+    if (this.platform.config.humidifierMistLevels) {
+      rotationSpeed = this.getMistLevelStep();
+    }
+
     this.platform.log.debug(`Setting rotation speed to ${rotationSpeed}% for device: ${this.device.deviceName}`);
     this.service.updateCharacteristic(
       this.platform.Characteristic.RotationSpeed,
@@ -840,6 +1218,10 @@ export class HumidifierAccessory extends BaseAccessory {
       );
     }
 
+    this.updateOptionalSwitches();
+    this.updateWaterSensors();
+    this.updateWarmMistService();
+
     if (this.isSuperior6000S && this.filterService) {
       const filterLife = extendedDevice.filterLifePercentage ||
         (extendedDevice.details && extendedDevice.details.filter_life) ||
@@ -857,6 +1239,61 @@ export class HumidifierAccessory extends BaseAccessory {
     }
   }
 
+  /**
+   * Characteristic the water sensors report on
+   */
+  private waterSensorCharacteristic() {
+    const { Characteristic } = this.platform;
+    return this.platform.config.humidifierWaterSensors === 'leak'
+      ? Characteristic.LeakDetected
+      : Characteristic.ContactSensorState;
+  }
+
+  /**
+   * A tripped sensor reports a leak, or an open contact
+   */
+  private waterSensorValue(tripped: boolean): number {
+    const { Characteristic } = this.platform;
+    if (this.platform.config.humidifierWaterSensors === 'leak') {
+      return tripped ? Characteristic.LeakDetected.LEAK_DETECTED : Characteristic.LeakDetected.LEAK_NOT_DETECTED;
+    }
+    return tripped
+      ? Characteristic.ContactSensorState.CONTACT_NOT_DETECTED
+      : Characteristic.ContactSensorState.CONTACT_DETECTED;
+  }
+
+  /**
+   * Keep the water sensors in sync with the tank
+   */
+  private updateWaterSensors(): void {
+    for (const [name, , isTripped] of this.waterSensors()) {
+      this.accessory.getService(name)?.updateCharacteristic(
+        this.waterSensorCharacteristic(),
+        this.waterSensorValue(isTripped()),
+      );
+    }
+  }
+
+  /**
+   * Keep the optional switches, and the drying time left, in sync with the device
+   */
+  private updateOptionalSwitches(): void {
+    const { Characteristic } = this.platform;
+    const switches: Array<[string, () => boolean]> = [
+      [HumidifierAccessory.DISPLAY_SERVICE_NAME, this.getDisplayOn.bind(this)],
+      [HumidifierAccessory.AUTO_STOP_SERVICE_NAME, this.getAutoStopOn.bind(this)],
+      [HumidifierAccessory.DRYING_MODE_SERVICE_NAME, this.getDryingModeOn.bind(this)],
+    ];
+    for (const [name, getOn] of switches) {
+      this.accessory.getService(name)?.updateCharacteristic(Characteristic.On, getOn());
+    }
+
+    this.accessory.getService(HumidifierAccessory.DRYING_MODE_SERVICE_NAME)?.updateCharacteristic(
+      Characteristic.RemainingDuration,
+      this.getDryingSecondsRemaining(),
+    );
+  }
+
   protected getDeviceCapabilities(): DeviceCapabilities {
     return {
       hasBrightness: false,
@@ -871,6 +1308,13 @@ export class HumidifierAccessory extends BaseAccessory {
     };
   }
 
+  /**
+   * Get the device type for polling configuration
+   */
+  public getDeviceType(): string {
+    return 'humidifier';
+  }
+
   private async getActive(): Promise<CharacteristicValue> {
     // Log the current device status for debugging
     this.platform.log.debug(`Getting active state for device: ${this.device.deviceName}, current status: ${this.device.deviceStatus}`);
@@ -1075,6 +1519,10 @@ export class HumidifierAccessory extends BaseAccessory {
   private async getRotationSpeed(): Promise<CharacteristicValue> {
     const extendedDevice = this.device as ExtendedVeSyncHumidifier;
 
+    if (this.platform.config.humidifierMistLevels) {
+      return this.getMistLevelStep();
+    }
+
     if (this.isHumidDual200S) {
       const level = extendedDevice.mistLevel;
       if (level === undefined || level === null || level === 0) {
@@ -1215,7 +1663,11 @@ export class HumidifierAccessory extends BaseAccessory {
 
       // Convert percentage to mist level based on device type
       let speed: number;
-      if (this.isHumidDual200S) {
+      if (this.platform.config.humidifierMistLevels) {
+        // Each step is one mist level; 0 never gets here, it turns the device off
+        const levels = this.getMistLevels();
+        speed = levels[Math.min(Math.max(Math.round(percentage), 1), levels.length) - 1];
+      } else if (this.isHumidDual200S) {
         // Dual200S: 2 levels — 1-50% = Low (1), 51-100% = High (2)
         speed = percentage <= 50 ? 1 : 2;
       } else if (percentage <= 11) {
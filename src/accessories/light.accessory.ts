@@ -269,6 +269,13 @@ export class LightAccessory extends BaseAccessory {
     };
   }
 
+  /**
+   * Get the device type for polling configuration
+   */
+  public getDeviceType(): string {
+    return 'light';
+  }
+
   private async getOn(): Promise<CharacteristicValue> {
     return this.device.deviceStatus === 'on';
   }
@@ -1,31 +1,27 @@
-import { CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
+import { CharacteristicValue, PlatformAccessory } from 'homebridge';
 import { BaseAccessory } from './base.accessory';
 import { TSVESyncPlatform } from '../platform';
-import { DeviceCapabilities, VeSyncOutlet } from '../types/device.types';
-
-// Constants for power monitoring service
-const POWER_SERVICE_NAME = 'Power Consumption';
-const POWER_CHARACTERISTIC = {
-  displayName: 'Power',
-  UUID: '7B2B25B0-DB50-4351-9A8B-5B9F3E3E3E3E',
-};
-const VOLTAGE_CHARACTERISTIC = {
-  displayName: 'Voltage',
-  UUID: '7B2B25B1-DB50-4351-9A8B-5B9F3E3E3E3E',
-};
-const ENERGY_CHARACTERISTIC = {
-  displayName: 'Energy',
-  UUID: '7B2B25B2-DB50-4351-9A8B-5B9F3E3E3E3E',
-};
+import { DeviceCapabilities, OutletInUseConfig, SensorReadings, VeSyncOutlet } from '../types/device.types';
+import { EnergyHistory } from '../utils/energy-history';
+import { EveEnergyService } from '../utils/eve-history';
+
+// Service earlier versions added for power monitoring, with characteristics no HomeKit app understood
+const LEGACY_POWER_SERVICE_NAME = 'Power Consumption';
+
+const firstNumber = (...values: unknown[]): number | undefined => values
+  .map(value => (value === undefined || value === null || value === '' ? NaN : Number(value)))
+  .find(value => Number.isFinite(value));
 
 export class OutletAccessory extends BaseAccessory {
-  protected readonly device: VeSyncOutlet;
-  private powerService?: Service;
+  private static readonly LOAD_SENSOR_NAME = 'In Use';
+  private static readonly LOAD_BUTTON_NAME = 'Load Events';
 
-  // Custom characteristics for power monitoring
-  private readonly POWER_UUID = '7B2B25B0-DB50-4351-9A8B-5B9F3E3E3E3E';
-  private readonly VOLTAGE_UUID = '7B2B25B1-DB50-4351-9A8B-5B9F3E3E3E3E';
-  private readonly ENERGY_UUID = '7B2B25B2-DB50-4351-9A8B-5B9F3E3E3E3E';
+  protected readonly device: VeSyncOutlet;
+  private eveEnergy?: EveEnergyService;
+  private loadConfig?: OutletInUseConfig;
+  // Whether the load is running, once the first reading has set it
+  private loadInUse?: boolean;
+  private belowThresholdSince?: number;
 
   constructor(
     platform: TSVESyncPlatform,
@@ -54,11 +50,23 @@ export class OutletAccessory extends BaseAccessory {
       this.getOutletInUse.bind(this)
     );
 
-    // Add power consumption characteristics if supported
-    if (this.device.power !== undefined) {
-      this.setupPowerMonitoringService();
+    const legacyPowerService = this.accessory.getService(LEGACY_POWER_SERVICE_NAME);
+    if (legacyPowerService) {
+      this.accessory.removeService(legacyPowerService);
     }
 
+    // Eve energy characteristics and history for models that report power
+    if (this.modelDefinition?.features?.includes('energy')) {
+      this.eveEnergy = new EveEnergyService(
+        this.platform.api.hap,
+        this.accessory,
+        this.service,
+        EnergyHistory.forDevice(this.platform.api.user.storagePath(), this.accessory.UUID, this.logger),
+      );
+    }
+
+    this.setupLoadDetection();
+
     // Add Name characteristic
     this.setupCharacteristic(
       this.platform.Characteristic.Name,
@@ -66,64 +74,47 @@ export class OutletAccessory extends BaseAccessory {
     );
   }
 
-  private setupPowerMonitoringService(): void {
-    // Create power consumption service
-    this.powerService = this.accessory.getService(POWER_SERVICE_NAME) ||
-      this.accessory.addService(this.platform.Service.Switch, POWER_SERVICE_NAME, 'power-consumption');
-
-    // Add power characteristic
-    const powerChar = this.powerService.getCharacteristic(POWER_CHARACTERISTIC.UUID) ||
-      this.powerService.addCharacteristic(new this.platform.api.hap.Characteristic(
-        POWER_CHARACTERISTIC.displayName,
-        POWER_CHARACTERISTIC.UUID,
-        {
-          format: this.platform.Characteristic.Formats.FLOAT,
-          unit: 'W',
-          minValue: 0,
-          maxValue: 10000,
-          minStep: 0.1,
-          perms: [this.platform.Characteristic.Perms.READ, this.platform.Characteristic.Perms.NOTIFY]
-        }
-      ));
-
-    powerChar.onGet(this.getPower.bind(this));
-
-    // Add voltage characteristic if available
-    if (this.device.voltage !== undefined) {
-      const voltageChar = this.powerService.getCharacteristic(VOLTAGE_CHARACTERISTIC.UUID) ||
-        this.powerService.addCharacteristic(new this.platform.api.hap.Characteristic(
-          VOLTAGE_CHARACTERISTIC.displayName,
-          VOLTAGE_CHARACTERISTIC.UUID,
-          {
-            format: this.platform.Characteristic.Formats.FLOAT,
-            unit: 'V',
-            minValue: 0,
-            maxValue: 250,
-            minStep: 0.1,
-            perms: [this.platform.Characteristic.Perms.READ, this.platform.Characteristic.Perms.NOTIFY]
-          }
-        ));
-
-      voltageChar.onGet(this.getVoltage.bind(this));
+  /**
+   * Read this outlet's `outletInUse` entry, and add the contact sensor or button that signals load
+   * changes when it asks for one, removing the one a previous config added.
+   */
+  private setupLoadDetection(): void {
+    const config = this.platform.config.outletInUse?.find(entry => this.matchesDeviceEntry(entry));
+    if (config && (!Number.isFinite(config.threshold) || config.threshold < 0)) {
+      this.platform.log.warn(`${this.device.deviceName}: Ignoring outletInUse entry without a valid threshold`);
+    } else {
+      this.loadConfig = config;
     }
 
-    // Add energy characteristic if available
-    if (this.device.energy !== undefined) {
-      const energyChar = this.powerService.getCharacteristic(ENERGY_CHARACTERISTIC.UUID) ||
-        this.powerService.addCharacteristic(new this.platform.api.hap.Characteristic(
-          ENERGY_CHARACTERISTIC.displayName,
-          ENERGY_CHARACTERISTIC.UUID,
-          {
-            format: this.platform.Characteristic.Formats.FLOAT,
-            unit: 'kWh',
-            minValue: 0,
-            maxValue: 100000,
-            minStep: 0.001,
-            perms: [this.platform.Characteristic.Perms.READ, this.platform.Characteristic.Perms.NOTIFY]
-          }
-        ));
-
-      energyChar.onGet(this.getEnergy.bind(this));
+    const { Service, Characteristic } = this.platform;
+    const event = this.loadConfig?.event ?? 'none';
+    const sensor = this.accessory.getServiceById(Service.ContactSensor, 'load-contact');
+    const button = this.accessory.getServiceById(Service.StatelessProgrammableSwitch, 'load-button');
+
+    if (event !== 'contact' && sensor) {
+      this.accessory.removeService(sensor);
+    }
+    if (event !== 'button' && button) {
+      this.accessory.removeService(button);
+    }
+
+    if (event === 'contact') {
+      const contactService = sensor ||
+        this.accessory.addService(Service.ContactSensor, OutletAccessory.LOAD_SENSOR_NAME, 'load-contact');
+      contactService.getCharacteristic(Characteristic.ContactSensorState)
+        .onGet(() => this.loadInUse
+          ? Characteristic.ContactSensorState.CONTACT_NOT_DETECTED
+          : Characteristic.ContactSensorState.CONTACT_DETECTED);
+    } else if (event === 'button') {
+      const buttonService = button ||
+        this.accessory.addService(Service.StatelessProgrammableSwitch, OutletAccessory.LOAD_BUTTON_NAME, 'load-button');
+      // A single press when the load starts, a double press when it finishes
+      buttonService.getCharacteristic(Characteristic.ProgrammableSwitchEvent).setProps({
+        validValues: [
+          Characteristic.ProgrammableSwitchEvent.SINGLE_PRESS,
+          Characteristic.ProgrammableSwitchEvent.DOUBLE_PRESS,
+        ],
+      });
     }
   }
 
@@ -131,40 +122,33 @@ export class OutletAccessory extends BaseAccessory {
    * Update device states based on the latest details
    */
   protected async updateDeviceSpecificStates(details: any): Promise<void> {
-    const outletDetails = details as {
-      deviceStatus: string;
-      power?: number;
-      voltage?: number;
-      energy?: number;
-    };
-
     // Update active state
-    const isActive = outletDetails.deviceStatus === 'on';
+    const isActive = details.deviceStatus === 'on';
     this.updateCharacteristicValue(
       this.platform.Characteristic.On,
       isActive
     );
 
-    // Update outlet in use (always true when device is on)
+    const { power, energy } = this.getSensorReadings();
+    const time = Math.floor(Date.now() / 1000);
+
+    // Without an outletInUse entry, the outlet is in use whenever it is on
     this.updateCharacteristicValue(
       this.platform.Characteristic.OutletInUse,
-      isActive
+      this.loadConfig ? this.updateLoadState(isActive, power, time) : isActive
     );
 
-    // Update power monitoring characteristics if available
-    const powerService = this.accessory.getService(POWER_SERVICE_NAME);
-    if (powerService) {
-      if (outletDetails.power !== undefined) {
-        powerService.updateCharacteristic(this.POWER_UUID, outletDetails.power);
-      }
-
-      if (outletDetails.voltage !== undefined) {
-        powerService.updateCharacteristic(this.VOLTAGE_UUID, outletDetails.voltage);
-      }
-
-      if (outletDetails.energy !== undefined) {
-        powerService.updateCharacteristic(this.ENERGY_UUID, outletDetails.energy);
-      }
+    if (this.eveEnergy) {
+      const device = this.device as any;
+      await this.eveEnergy.record({
+        time,
+        power,
+        energy,
+        voltage: firstNumber(device.voltage, device.energy?.voltage, device.details?.voltage),
+      });
+    }
+    if (this.platform.energyReports && (power !== undefined || energy !== undefined)) {
+      await this.platform.energyReports.record(this.device.cid, this.accessory.displayName, { time, power, energy });
     }
   }
 
@@ -182,6 +166,39 @@ export class OutletAccessory extends BaseAccessory {
     };
   }
 
+  /**
+   * Get the device type for polling configuration
+   */
+  public getDeviceType(): string {
+    return 'outlet';
+  }
+
+  /**
+   * Adds the outlet's power and energy readings. Depending on the model these come from the device
+   * detail response or the last energy update.
+   */
+  public getSensorReadings(): SensorReadings {
+    const readings = super.getSensorReadings();
+    const device = this.device as any;
+
+    const power = firstNumber(device.power, device.energy?.power, device.details?.power);
+    const energy = firstNumber(
+      typeof device.energy === 'object' ? device.energy?.energyToday : device.energy,
+      device.details?.energy,
+    );
+    if (power !== undefined) {
+      readings.power = power;
+    }
+    if (energy !== undefined) {
+      readings.energy = energy;
+    }
+    return readings;
+  }
+
+  public shutdown(): void {
+    this.eveEnergy?.flushSync();
+  }
+
   private async getOn(): Promise<CharacteristicValue> {
     return this.device.deviceStatus === 'on';
   }
@@ -201,21 +218,56 @@ export class OutletAccessory extends BaseAccessory {
     }
   }
 
-  private async getOutletInUse(): Promise<CharacteristicValue> {
-    // Consider outlet in use if it's on and consuming power (if power monitoring is available)
-    return this.device.deviceStatus === 'on' && 
-           (this.device.power ? this.device.power > 0 : true);
-  }
+  /**
+   * Work out whether the load is running from a new reading. It starts as soon as the power reaches
+   * the threshold, and finishes when the outlet is turned off or the power has stayed below the
+   * threshold for the hold-off time. Changes after the first reading are logged and signalled on
+   * the configured contact sensor or button.
+   *
+   * @param time Time of the reading in Unix seconds
+   */
+  private updateLoadState(isOn: boolean, power: number | undefined, time: number): boolean {
+    const config = this.loadConfig!;
+    let inUse = this.loadInUse ?? false;
+    if (!isOn) {
+      inUse = false;
+    } else if (power === undefined) {
+      inUse = this.loadInUse ?? true;
+    } else if (power >= config.threshold) {
+      inUse = true;
+      this.belowThresholdSince = undefined;
+    } else if (inUse) {
+      this.belowThresholdSince ??= time;
+      inUse = time - this.belowThresholdSince < (config.holdOff ?? 0);
+    }
 
-  private async getPower(): Promise<CharacteristicValue> {
-    return this.device.power || 0;
-  }
+    const previous = this.loadInUse;
+    this.loadInUse = inUse;
+    if (!inUse) {
+      this.belowThresholdSince = undefined;
+    }
 
-  private async getVoltage(): Promise<CharacteristicValue> {
-    return this.device.voltage || 0;
+    const { Service, Characteristic } = this.platform;
+    this.accessory.getServiceById(Service.ContactSensor, 'load-contact')?.updateCharacteristic(
+      Characteristic.ContactSensorState,
+      inUse ? Characteristic.ContactSensorState.CONTACT_NOT_DETECTED : Characteristic.ContactSensorState.CONTACT_DETECTED,
+    );
+    if (previous !== undefined && previous !== inUse) {
+      this.platform.log.info(`${this.device.deviceName}: Load ${inUse ? 'started' : 'finished'}`);
+      this.accessory.getServiceById(Service.StatelessProgrammableSwitch, 'load-button')?.updateCharacteristic(
+        Characteristic.ProgrammableSwitchEvent,
+        inUse ? Characteristic.ProgrammableSwitchEvent.SINGLE_PRESS : Characteristic.ProgrammableSwitchEvent.DOUBLE_PRESS,
+      );
+    }
+    return inUse;
   }
 
-  private async getEnergy(): Promise<CharacteristicValue> {
-    return this.device.energy || 0;
+  private async getOutletInUse(): Promise<CharacteristicValue> {
+    if (this.loadConfig) {
+      return this.loadInUse ?? false;
+    }
+    // Consider outlet in use if it's on and consuming power (if power monitoring is available)
+    return this.device.deviceStatus === 'on' && 
+           (this.device.power ? this.device.power > 0 : true);
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,34 @@
+import { PlatformAccessory } from 'homebridge';
+import { TSVESyncPlatform } from '../platform';
+
+/**
+ * Re-Login Switch Accessory
+ * A stateless "Log In Again" switch that logs failing VeSync accounts in again and turns itself back off.
+ * It belongs to the platform rather than a device.
+ */
+export class ReloginSwitchAccessory {
+  public static readonly NAME = 'VeSync Log In Again';
+
+  constructor(
+    private readonly platform: TSVESyncPlatform,
+    public readonly accessory: PlatformAccessory,
+    private readonly relogin: () => void,
+  ) {
+    this.accessory.getService(this.platform.Service.AccessoryInformation)!
+      .setCharacteristic(this.platform.Characteristic.Manufacturer, 'VeSync')
+      .setCharacteristic(this.platform.Characteristic.Model, 'Re-Login Switch')
+      .setCharacteristic(this.platform.Characteristic.SerialNumber, 'tsvesync-relogin');
+
+    const service = this.accessory.getService(this.platform.Service.Switch) ||
+      this.accessory.addService(this.platform.Service.Switch, ReloginSwitchAccessory.NAME);
+    service.getCharacteristic(this.platform.Characteristic.On)
+      .onGet(() => false)
+      .onSet((value) => {
+        if (!value) {
+          return;
+        }
+        this.relogin();
+        setTimeout(() => service.updateCharacteristic(this.platform.Characteristic.On, false), 1000);
+      });
+  }
+}
@@ -23,9 +23,11 @@ export class SwitchAccessory extends BaseAccessory {
       || this.accessory.addService(this.platform.Service.Switch);
 
     // Set up handlers for the On/Off characteristic
+    const handleOnSet = this.handleOnSet.bind(this);
     this.service.getCharacteristic(this.platform.Characteristic.On)
-      .onSet(this.handleOnSet.bind(this))
+      .onSet(handleOnSet)
       .onGet(this.handleOnGet.bind(this));
+    this.registerCommandHandler(this.platform.Characteristic.On, handleOnSet);
 
     // Add Name characteristic
     this.service.setCharacteristic(
@@ -59,6 +61,13 @@ export class SwitchAccessory extends BaseAccessory {
     };
   }
 
+  /**
+   * Get the device type for polling configuration
+   */
+  public getDeviceType(): string {
+    return 'switch';
+  }
+
   private async handleOnGet(): Promise<CharacteristicValue> {
     try {
       return this.device.power || this.device.deviceStatus === 'on';
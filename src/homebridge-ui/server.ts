@@ -0,0 +1,57 @@
+import { HomebridgePluginUiServer, RequestError } from '@homebridge/plugin-ui-utils';
+import { PluginLogger } from '../utils/logger';
+import { DeviceExclusion, ModelOverride, SessionEncryptionConfig, SessionStoreConfig } from '../types/device.types';
+import { ProbeCredentials, listDevices, testLogin } from './vesync-probe';
+
+interface ProbeRequest extends Partial<ProbeCredentials> {
+  exclude?: DeviceExclusion;
+  modelOverrides?: ModelOverride[];
+  sessionEncryption?: SessionEncryptionConfig;
+  sessionStore?: SessionStoreConfig;
+}
+
+/**
+ * Backend for the plugin's custom settings UI. Homebridge UI runs it as a separate process while the
+ * settings page is open; the page calls it with the credentials currently entered in the form.
+ */
+class TSVESyncUiServer extends HomebridgePluginUiServer {
+  private readonly logger = new PluginLogger(console as any, false);
+
+  constructor() {
+    super();
+
+    this.onRequest('/test-login', (payload: ProbeRequest) => testLogin(this.credentials(payload)));
+    this.onRequest('/devices', async (payload: ProbeRequest) => {
+      const storagePath = this.homebridgeStoragePath;
+      if (!storagePath) {
+        throw new RequestError('Homebridge storage path is not available', {});
+      }
+      const listing = await listDevices(this.credentials(payload), storagePath, this.logger, {
+        exclude: payload.exclude,
+        modelOverrides: payload.modelOverrides,
+        sessionEncryption: payload.sessionEncryption,
+        sessionStore: payload.sessionStore,
+      });
+      if (!listing.login.success) {
+        throw new RequestError(listing.login.message, listing.login);
+      }
+      return listing;
+    });
+
+    this.ready();
+  }
+
+  private credentials(payload: ProbeRequest): ProbeCredentials {
+    if (!payload?.username || !payload?.password) {
+      throw new RequestError('Enter a VeSync username and password first', {});
+    }
+    return {
+      username: payload.username,
+      password: payload.password,
+      countryCode: payload.countryCode,
+      apiUrl: payload.apiUrl,
+    };
+  }
+}
+
+(() => new TSVESyncUiServer())();
@@ -0,0 +1,229 @@
+import { VeSync } from 'tsvesync';
+import { SessionStore, accountFileSuffix, createSessionStore, decodeJwtTimestampsLocal, resolveSessionSecret } from '../utils/session-store';
+import { PluginLogger } from '../utils/logger';
+import { ModelRegistry } from '../utils/model-registry';
+import { findExclusionMatch } from '../utils/device-exclusion';
+import { DeviceExclusion, DeviceTypeKey, ModelOverride, SessionEncryptionConfig, SessionStoreConfig } from '../types/device.types';
+import { CapturedLog, LoginFailure, classifyLoginFailure, collectErrorCodes } from '../utils/login-diagnosis';
+
+/**
+ * Credentials and endpoint settings as entered in the settings UI
+ */
+export interface ProbeCredentials {
+  username: string;
+  password: string;
+  countryCode?: string;
+  apiUrl?: string;
+}
+
+/**
+ * Outcome of a login, with the error codes VeSync returned along the way
+ */
+export interface LoginReport {
+  success: boolean;
+  failure?: LoginFailure;
+  message: string;
+  errorCodes: { code: number; meaning?: string }[];
+  hints: string[];
+  region?: string;
+  countryCode?: string;
+  endpoint?: string;
+  authFlow?: string;
+  reusedSession?: boolean;
+}
+
+export interface DiscoveredDevice {
+  name: string;
+  cid: string;
+  uuid?: string;
+  model: string;
+  type: DeviceTypeKey | 'unknown';
+  online: boolean;
+  // The `exclude` rule that already hides this device, if any
+  excludedBy?: keyof DeviceExclusion;
+}
+
+export interface DeviceListing {
+  login: LoginReport;
+  devices: DiscoveredDevice[];
+}
+
+const DEFAULT_COUNTRY_CODE = 'US';
+
+// tsvesync logs through a single global logger, so probes run one at a time to keep captures apart
+let probeQueue: Promise<unknown> = Promise.resolve();
+
+function exclusive<T>(task: () => Promise<T>): Promise<T> {
+  const run = probeQueue.then(task, task);
+  probeQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Create a plain (not rate-limited) client whose library logging is captured for diagnosis
+ */
+function createProbeClient(credentials: ProbeCredentials, logs: CapturedLog[]): VeSync {
+  const capture = (level: CapturedLog['level']) => (...args: unknown[]) => {
+    logs.push({ level, args });
+  };
+  return new (VeSync as any)(credentials.username, credentials.password, Intl.DateTimeFormat().resolvedOptions().timeZone, {
+    debug: true,
+    redact: true,
+    apiUrl: credentials.apiUrl || undefined,
+    countryCode: credentials.countryCode || DEFAULT_COUNTRY_CODE,
+    customLogger: { debug: capture('debug'), info: capture('info'), warn: capture('warn'), error: capture('error') },
+  });
+}
+
+function diagnoseFailure(credentials: ProbeCredentials, logs: CapturedLog[]): LoginReport {
+  const errorCodes = collectErrorCodes(logs);
+  const report = (failure: LoginFailure, message: string, hints: string[] = []): LoginReport =>
+    ({ success: false, failure, message, errorCodes, hints });
+
+  const failure = classifyLoginFailure(logs);
+  if (failure === 'region') {
+    const countryCode = credentials.countryCode || DEFAULT_COUNTRY_CODE;
+    return report('region', `Both the US and EU endpoints rejected the account for country code ${countryCode}.`, [
+      'Set the Country Code to the country the VeSync account was created in (e.g. AU, NZ, JP, CA).',
+    ]);
+  }
+  if (failure === 'credentials') {
+    return report('credentials', 'VeSync rejected the username or password.', [
+      'Check the credentials by signing in to the VeSync app.',
+    ]);
+  }
+  if (failure === 'network') {
+    return report('network', 'Could not reach the VeSync API.', [
+      'Check that the Homebridge host can reach the internet, and any API URL override.',
+    ]);
+  }
+  return report('unknown', 'VeSync login failed.', errorCodes.some(({ code }) => code === -11012022)
+    ? ['VeSync rejected the app version; updating the plugin may help.']
+    : []);
+}
+
+function describeSession(client: any, credentials: ProbeCredentials, reusedSession: boolean): LoginReport {
+  const countryCode = (client.countryCode as string | null) || undefined;
+  const configured = (credentials.countryCode || DEFAULT_COUNTRY_CODE).toUpperCase();
+  const hints: string[] = [];
+  if (countryCode && countryCode.toUpperCase() !== configured) {
+    hints.push(`The account is registered in ${countryCode}; set the Country Code to ${countryCode} to match.`);
+  }
+  return {
+    success: true,
+    message: reusedSession ? 'Using the saved VeSync session.' : 'Logged in to VeSync.',
+    errorCodes: [],
+    hints,
+    region: client._region ?? client.region,
+    countryCode,
+    endpoint: client.apiBaseUrl,
+    authFlow: client.authFlowUsed,
+    reusedSession,
+  };
+}
+
+async function saveSession(sessionStore: SessionStore, client: any, username: string): Promise<void> {
+  const ts = decodeJwtTimestampsLocal(client.token);
+  await sessionStore.save({
+    token: client.token,
+    accountId: client.accountId,
+    countryCode: client.countryCode,
+    region: client._region ?? client.region,
+    apiBaseUrl: client.apiBaseUrl,
+    authFlowUsed: client.authFlowUsed,
+    terminalId: client.terminalId ?? undefined,
+    appId: client.appId ?? undefined,
+    issuedAt: ts?.iat ?? null,
+    expiresAt: ts?.exp ?? null,
+    lastValidatedAt: Date.now(),
+    username,
+  });
+}
+
+/**
+ * Log in with the given credentials and explain any failure. Nothing is persisted, so a test login
+ * never replaces the session the plugin is using.
+ */
+export function testLogin(credentials: ProbeCredentials): Promise<LoginReport> {
+  return exclusive(async () => {
+    const logs: CapturedLog[] = [];
+    const client = createProbeClient(credentials, logs) as any;
+    try {
+      if (await client.login(1, 0)) {
+        return describeSession(client, credentials, false);
+      }
+    } catch (error) {
+      logs.push({ level: 'error', args: [error instanceof Error ? error.message : String(error)] });
+    }
+    return diagnoseFailure(credentials, logs);
+  });
+}
+
+/**
+ * List the account's devices, reusing the session the plugin saved for the account so the picker costs
+ * no extra login. Otherwise log in, keeping the saved session's client identity, and save the new
+ * session for the plugin unless the saved one is for a different account.
+ */
+export function listDevices(
+  credentials: ProbeCredentials,
+  storagePath: string,
+  logger: PluginLogger,
+  options: {
+    exclude?: DeviceExclusion;
+    modelOverrides?: ModelOverride[];
+    sessionEncryption?: SessionEncryptionConfig;
+    sessionStore?: SessionStoreConfig;
+  } = {},
+): Promise<DeviceListing> {
+  return exclusive(async () => {
+    const logs: CapturedLog[] = [];
+    const secret = resolveSessionSecret(options.sessionEncryption, logger);
+    const sessionStore = createSessionStore(
+      options.sessionStore,
+      storagePath,
+      logger,
+      accountFileSuffix(credentials.username, storagePath, options.sessionStore, secret),
+      secret,
+    );
+    const session = await sessionStore.load();
+    const sameAccount = session && (!session.username || session.username === credentials.username);
+    const exp = session ? decodeJwtTimestampsLocal(session.token)?.exp : undefined;
+    const reusable = Boolean(sameAccount && (!exp || exp * 1000 > Date.now()));
+
+    const client = createProbeClient(credentials, logs) as any;
+    try {
+      if (reusable) {
+        client.hydrateSession(session!);
+      } else if (sameAccount && (session!.terminalId || session!.appId)) {
+        client.restoreClientIdentity({ terminalId: session!.terminalId, appId: session!.appId });
+      }
+      if (!reusable) {
+        if (!await client.login(1, 0)) {
+          return { login: diagnoseFailure(credentials, logs), devices: [] };
+        }
+        if (!session || sameAccount) {
+          await saveSession(sessionStore, client, credentials.username);
+        }
+      }
+      if (!await client.getDevices()) {
+        return { login: diagnoseFailure(credentials, logs), devices: [] };
+      }
+    } catch (error) {
+      logs.push({ level: 'error', args: [error instanceof Error ? error.message : String(error)] });
+      return { login: diagnoseFailure(credentials, logs), devices: [] };
+    }
+
+    const registry = new ModelRegistry(options.modelOverrides);
+    const devices: DiscoveredDevice[] = [...client.fans, ...client.outlets, ...client.switches, ...client.bulbs].map(device => ({
+      name: device.deviceName,
+      cid: device.cid,
+      uuid: device.uuid,
+      model: device.deviceType,
+      type: registry.getDeviceTypeKey(device.deviceType) ?? 'unknown',
+      online: device.connectionStatus === 'online',
+      excludedBy: findExclusionMatch(device, options.exclude)?.rule,
+    }));
+    devices.sort((a, b) => a.name.localeCompare(b.name));
+    return { login: describeSession(client, credentials, reusable), devices };
+  });
+}
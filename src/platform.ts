@@ -1,13 +1,24 @@
 import { API, DynamicPlatformPlugin, Logger, PlatformAccessory, Service, Characteristic } from 'homebridge';
 import { PLATFORM_NAME, PLUGIN_NAME } from './settings';
-import { VeSync } from 'tsvesync';
 import { DeviceFactory } from './utils/device-factory';
 import { BaseAccessory } from './accessories/base.accessory';
+import { ConnectionSensorAccessory } from './accessories/connection-sensor.accessory';
+import { ReloginSwitchAccessory } from './accessories/relogin-switch.accessory';
 import { PluginLogger } from './utils/logger';
-import { createRateLimitedVeSync } from './utils/api-proxy';
-import { PlatformConfig as TSVESyncPlatformConfig } from './types/device.types';
-import { FileSessionStore, PluginSession, decodeJwtTimestampsLocal } from './utils/session-store';
+import { PlatformConfig as TSVESyncPlatformConfig, UnknownDevicePolicy } from './types/device.types';
+import { VeSyncAccount, resolveAccountConfigs } from './utils/vesync-account';
 import { sanitizeDeviceName } from './utils/sanitize-name';
+import { findExclusionMatch } from './utils/device-exclusion';
+import { ModelRegistry } from './utils/model-registry';
+import { DeviceDiagnostics } from './utils/device-diagnostics';
+import { PollActivityClass, PollScheduler } from './utils/poll-scheduler';
+import { REQUEST_PRIORITIES } from './utils/request-queue';
+import { MqttBridge } from './utils/mqtt-bridge';
+import { MetricFamily, MetricsServer } from './utils/metrics-server';
+import { EnergyReports } from './utils/energy-reports';
+
+// How often the poll loop checks for accessories that are due for a sync
+const POLL_TICK_INTERVAL = 15 * 1000;
 
 /**
  * HomebridgePlatform
@@ -31,26 +42,36 @@ export class TSVESyncPlatform implements DynamicPlatformPlugin {
    * users lose automations. Instead we keep the accessory cached and let it come back.
    */
   private readonly missingAccessories: Set<string> = new Set();
+  // Cached accessories of unknown models that were kept, so each is logged once
+  private readonly keptUnknownAccessories: Set<string> = new Set();
   
-  private client!: VeSync;
+  private readonly vesyncAccounts: VeSyncAccount[] = [];
+  // The account each accessory's device was discovered through
+  private readonly accessoryAccounts: Map<string, VeSyncAccount> = new Map();
+  // Stable id (device cid, or cid_subDeviceNo) of each accessory, used for MQTT topics and metric labels
+  private readonly accessoryIds: Map<string, string> = new Map();
   private deviceUpdateInterval?: NodeJS.Timeout;
-  private refreshTimer?: NodeJS.Timeout;
   private refreshInProgress = false;
-  private scheduledExpMs: number | null = null;
-  private refreshRemainingMs: number | null = null;
+  private nextDeviceListRefresh = 0;
   private readonly updateInterval!: number;
+  private readonly deviceListInterval!: number;
+  private readonly pollScheduler!: PollScheduler;
+  public readonly modelRegistry: ModelRegistry;
+  private readonly unknownDevicePolicy: UnknownDevicePolicy;
+  private readonly deviceDiagnostics?: DeviceDiagnostics;
+  // Unknown devices already logged or recorded since startup
+  private readonly reportedUnknownDevices: Set<string> = new Set();
+  public readonly mqttBridge?: MqttBridge;
+  public readonly metricsServer?: MetricsServer;
+  public readonly energyReports?: EnergyReports;
+  private connectionSensor?: ConnectionSensorAccessory;
+  private reloginSwitch?: ReloginSwitchAccessory;
   private readonly debug!: boolean;
-  private lastLoginAttempt: Date = new Date(0);
-  private loginBackoffTime = 10000; // Start with 10 seconds
   private initializationPromise: Promise<void>;
   private initializationResolver!: () => void;
   private isInitialized = false;
+  private isShuttingDown = false;
   private readonly logger!: PluginLogger;
-  private readonly sessionStore!: FileSessionStore;
-  // VeSync JWT tokens are valid for 30 days (verified by decoding the JWT)
-  // We'll refresh at 25 days to ensure we never hit expiration
-  private readonly TOKEN_EXPIRY = 25 * 24 * 60 * 60 * 1000; // 25 days in milliseconds
-  private lastTokenRefresh: Date = new Date(0);
 
   constructor(
     public readonly log: Logger,
@@ -69,38 +90,61 @@ export class TSVESyncPlatform implements DynamicPlatformPlugin {
     // Initialize logger
     this.logger = new PluginLogger(this.log, this.debug);
 
+    // The device list refreshes on the update interval - default is 30 seconds, but we'll increase it to reduce API calls.
+    // Accessories sync on the same interval unless adaptive polling spreads the remaining quota differently.
+    const effectiveUpdateInterval = Math.max(this.updateInterval, 120); // Minimum 2 minutes (120 seconds)
+    this.deviceListInterval = effectiveUpdateInterval * 1000;
+    this.pollScheduler = new PollScheduler(this.deviceListInterval, config.adaptivePolling);
+    this.modelRegistry = new ModelRegistry(config.modelOverrides, message => this.logger.warn(message));
+    this.unknownDevicePolicy = config.unknownDevices ?? 'ignore';
+    if (!['ignore', 'power-switch-only', 'diagnostic'].includes(this.unknownDevicePolicy)) {
+      this.logger.warn(`Unknown unknownDevices policy "${this.unknownDevicePolicy}", using "ignore"`);
+      this.unknownDevicePolicy = 'ignore';
+    }
+    if (this.unknownDevicePolicy === 'diagnostic') {
+      this.deviceDiagnostics = new DeviceDiagnostics(this.api.user.storagePath(), this.logger);
+    }
+
+    if (config.mqtt?.enabled && config.mqtt.url) {
+      this.mqttBridge = new MqttBridge(config.mqtt, this.logger);
+    }
+    if (config.energyReports?.enabled) {
+      this.energyReports = new EnergyReports(config.energyReports, this.api.user.storagePath(), this.logger);
+    }
+    if (config.metrics?.enabled) {
+      const energyReports = this.energyReports;
+      this.metricsServer = new MetricsServer(
+        config.metrics,
+        this.logger,
+        () => this.collectMetrics(),
+        energyReports && (() => energyReports.buildReport()),
+      );
+    }
+
     // Validate configuration
-    if (!config.username || !config.password) {
+    const accountConfigs = resolveAccountConfigs(config);
+    if (accountConfigs.length === 0) {
       this.logger.error('Missing required configuration. Please check your config.json');
       return;
     }
 
-    // Prepare session store
-    this.sessionStore = new FileSessionStore(this.api.user.storagePath(), this.logger);
-
-    // Initialize VeSync client with all configuration
-    this.client = createRateLimitedVeSync(
-      config.username,
-      config.password,
-      Intl.DateTimeFormat().resolvedOptions().timeZone,
-      this.debug,
-      true, // redact sensitive info
-      config.apiUrl,
-      this.logger,
-      config.exclude,
-      { 
-        countryCode: config.countryCode,
-        quotaManagement: config.quotaManagement || { enabled: true } 
-      },
-      {
-        store: this.sessionStore,
-        onTokenChange: (s) => this.onTokenChange(s)
-      }
-    );
+    // One client, session file and quota manager per VeSync account
+    for (const accountConfig of accountConfigs) {
+      this.vesyncAccounts.push(new VeSyncAccount(
+        accountConfig,
+        config,
+        this.api.user.storagePath(),
+        this.logger,
+        accountConfigs.length > 1,
+      ));
+    }
+    for (const account of this.vesyncAccounts) {
+      account.onLoginStateChange = () => this.connectionSensor?.update();
+    }
 
     this.logger.debug('Initialized platform with config:', {
       name: config.name,
-      username: config.username,
+      accounts: accountConfigs.map(account => account.username),
       updateInterval: this.updateInterval,
       debug: this.debug,
       apiUrl: config.apiUrl,
@@ -113,81 +157,159 @@ export class TSVESyncPlatform implements DynamicPlatformPlugin {
       this.logger.debug('Executed didFinishLaunching callback');
 
       try {
-        // Try to hydrate session from disk before any login
-        const session = await this.sessionStore.load();
-        if (session) {
-          try {
-            if ((session as any).username && (session as any).username !== this.config.username) {
-              this.logger.info('Found persisted session for a different account; ignoring persisted session.');
-            } else {
-              const ts = decodeJwtTimestampsLocal(session.token);
-              // A token whose exp has already passed can only be rejected by VeSync, so don't hand it to
-              // the client: doing so skips the login below and burns a request to be told it expired.
-              // Keep the client identity from that session so the fresh login presents the same terminal.
-              const expiredBySkewMs = 60 * 1000;
-              if (ts?.exp && ts.exp * 1000 <= Date.now() + expiredBySkewMs) {
-                this.logger.info(
-                  `Persisted VeSync session expired ${new Date(ts.exp * 1000).toISOString()}; authenticating again.`,
-                );
-                this.adoptClientIdentity(session);
-                await this.sessionStore.clear();
-              } else {
-                this.hydrateSessionCompat(session);
-                // Use actual token issuance time if available to avoid overextending lifetime
-                this.lastTokenRefresh = ts?.iat ? new Date(ts.iat * 1000) : new Date();
-                const expStr = ts?.exp ? new Date(ts.exp * 1000).toISOString() : 'unknown';
-                this.logger.info(`Reusing persisted VeSync session. Token exp: ${expStr}`);
-                // Schedule a proactive refresh before expiry
-                this.scheduleProactiveRefreshFromToken(session.token);
-              }
-            }
-          } catch (e: any) {
-            this.logger.debug(`Failed to hydrate persisted session, will login fresh: ${e?.message || e}`);
-          }
-        } else {
-          this.logger.debug('No persisted VeSync session available; will authenticate.');
+        this.setupConnectionSensor();
+        this.setupReloginSwitch();
+
+        // Try to hydrate sessions from disk before any login
+        for (const account of this.vesyncAccounts) {
+          await account.restoreSession();
         }
 
+        // Connect before the first sync so initial states are published
+        this.mqttBridge?.start();
+        await this.metricsServer?.start();
+
         // Initialize platform
         await this.initializePlatform();
-        
-    // Set up device update interval - default is 30 seconds, but we'll increase it to reduce API calls
-    const effectiveUpdateInterval = Math.max(this.updateInterval, 120); // Minimum 2 minutes (120 seconds)
-    this.deviceUpdateInterval = setInterval(() => {
-      this.updateDeviceStates();
-    }, effectiveUpdateInterval * 1000);
-    
-    if (effectiveUpdateInterval > this.updateInterval) {
-      this.logger.warn(`Increased update interval from ${this.updateInterval} to ${effectiveUpdateInterval} seconds to reduce API calls and prevent quota exhaustion`);
-    }
+        for (const account of this.vesyncAccounts) {
+          account.logTokenStatus();
+        }
       } catch (error) {
         this.logger.error('Failed to initialize platform:', error);
         // Ensure initialization is resolved even on error
         this.isInitialized = true;
         this.initializationResolver();
       }
+
+      // Poll even after a failed start, so accounts that log in later get their devices
+      this.startPolling();
     });
 
     // Clean up when shutting down
     this.api.on('shutdown', () => {
+      this.isShuttingDown = true;
       if (this.deviceUpdateInterval) {
         clearInterval(this.deviceUpdateInterval);
       }
-      if (this.refreshTimer) {
-        clearTimeout(this.refreshTimer);
+      for (const account of this.vesyncAccounts) {
+        account.shutdown();
       }
+      for (const deviceAccessory of this.deviceAccessories.values()) {
+        deviceAccessory.shutdown();
+      }
+      this.energyReports?.flushSync();
+      void this.mqttBridge?.stop();
+      void this.metricsServer?.stop();
     });
   }
 
+  /**
+   * Start the poll loop. Each tick refreshes the device list when it is due and syncs the
+   * accessories the poll scheduler reports as due.
+   */
+  private startPolling(): void {
+    // Homebridge may shut down while the first sync is still running
+    if (this.isShuttingDown) {
+      return;
+    }
+    this.nextDeviceListRefresh = Date.now() + this.deviceListInterval;
+    this.deviceUpdateInterval = setInterval(() => {
+      this.updateDeviceStates();
+    }, POLL_TICK_INTERVAL);
+
+    if (this.deviceListInterval > this.updateInterval * 1000) {
+      this.logger.warn(`Increased update interval from ${this.updateInterval} to ${this.deviceListInterval / 1000} seconds to reduce API calls and prevent quota exhaustion`);
+    }
+    if (this.pollScheduler.isAdaptive) {
+      this.logger.info('Adaptive polling enabled; device sync intervals follow the remaining API quota and device activity');
+    }
+  }
+
+  /**
+   * With `connectionSensor`, add a "VeSync Connection" contact sensor that opens while any account
+   * fails to log in, or remove the cached one without it
+   */
+  private setupConnectionSensor(): void {
+    const uuid = this.api.hap.uuid.generate(`${PLATFORM_NAME}-connection-sensor`);
+    let accessory = this.accessories.find(acc => acc.UUID === uuid);
+    if (!this.config.connectionSensor) {
+      if (accessory) {
+        this.unregisterAccessory(accessory, 'connection sensor disabled');
+      }
+      return;
+    }
+
+    if (!accessory) {
+      this.logger.info('Adding new accessory:', ConnectionSensorAccessory.NAME);
+      accessory = new this.api.platformAccessory(ConnectionSensorAccessory.NAME, uuid, this.api.hap.Categories.SENSOR);
+      accessory.context.isConnectionSensor = true;
+      this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+      this.accessories.push(accessory);
+    }
+    this.connectionSensor = new ConnectionSensorAccessory(
+      this,
+      accessory,
+      () => this.vesyncAccounts.some(account => account.isLoginFailing()),
+    );
+  }
+
+  /**
+   * With `reloginSwitch`, add a "Log In Again" switch that logs in again the accounts that fail to log
+   * in or hold no valid token, or remove the cached one without it
+   */
+  private setupReloginSwitch(): void {
+    const uuid = this.api.hap.uuid.generate(`${PLATFORM_NAME}-relogin-switch`);
+    let accessory = this.accessories.find(acc => acc.UUID === uuid);
+    if (!this.config.reloginSwitch) {
+      if (accessory) {
+        this.unregisterAccessory(accessory, 're-login switch disabled');
+      }
+      return;
+    }
+
+    if (!accessory) {
+      this.logger.info('Adding new accessory:', ReloginSwitchAccessory.NAME);
+      accessory = new this.api.platformAccessory(ReloginSwitchAccessory.NAME, uuid, this.api.hap.Categories.SWITCH);
+      accessory.context.isReloginSwitch = true;
+      this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+      this.accessories.push(accessory);
+    }
+    this.reloginSwitch = new ReloginSwitchAccessory(this, accessory, () => {
+      const failing = this.vesyncAccounts.filter(account => account.needsRelogin());
+      if (failing.length === 0) {
+        this.logger.info('Not logging in again: every VeSync account is logged in');
+        return;
+      }
+      for (const account of failing) {
+        this.logger.info(`Logging in to VeSync again on request as ${account.label}`);
+        void this.reloginAccount(account);
+      }
+    });
+  }
+
+  /**
+   * Log an account in again and, once that works, refresh the device list so its devices are
+   * discovered and polled
+   */
+  private async reloginAccount(account: VeSyncAccount): Promise<void> {
+    if (!await account.relogin() || this.isShuttingDown) {
+      return;
+    }
+    this.nextDeviceListRefresh = 0;
+    // A refresh already in progress leaves this to the next poll tick
+    await this.updateDeviceStates();
+  }
+
   /**
    * Check if platform is ready
    */
   public async isReady(): Promise<void> {
     if (!this.isInitialized) {
+      let timeout: NodeJS.Timeout | undefined;
       try {
         // Add a 30 second timeout to prevent infinite waiting
         const timeoutPromise = new Promise<void>((_, reject) => {
-          setTimeout(() => reject(new Error('Platform initialization timed out')), 30000);
+          timeout = setTimeout(() => reject(new Error('Platform initialization timed out')), 30000);
         });
 
         await Promise.race([this.initializationPromise, timeoutPromise]);
@@ -197,10 +319,25 @@ export class TSVESyncPlatform implements DynamicPlatformPlugin {
         this.isInitialized = true;
         this.initializationResolver();
         throw error;
+      } finally {
+        clearTimeout(timeout);
       }
     }
   }
 
+  /**
+   * Log in the accounts that have no session, side by side and with one attempt each, so an
+   * unreachable account doesn't hold up the others. The poll loop calls this again for accounts
+   * that failed, once their login backoff has run out.
+   *
+   * @returns The accounts that had no session
+   */
+  private async loginAccountsWithoutSession(): Promise<VeSyncAccount[]> {
+    const accounts = this.vesyncAccounts.filter(account => !account.hasSession());
+    await Promise.allSettled(accounts.map(account => account.ensureLogin(false, false)));
+    return accounts;
+  }
+
   /**
    * Initialize the platform
    */
@@ -208,9 +345,10 @@ export class TSVESyncPlatform implements DynamicPlatformPlugin {
     try {
       // If we don't have a token/account yet, perform a login once. Otherwise,
       // trust the persisted token and let the library re-login only if the API rejects it.
-      if (!(this.client as any).token || !(this.client as any).accountId) {
-        if (!await this.ensureLogin()) {
-          throw new Error('Failed to login to VeSync API');
+      // An account that can't log in is left out of discovery; the others still come up.
+      for (const account of await this.loginAccountsWithoutSession()) {
+        if (!account.hasSession()) {
+          this.logger.error(`Failed to login to VeSync API as ${account.label}; its devices are not available until it logs in`);
         }
       }
 
@@ -230,6 +368,11 @@ export class TSVESyncPlatform implements DynamicPlatformPlugin {
       });
       
       await Promise.all(initPromises);
+
+      // Initialization fetched fresh details, so nothing is due until its first interval passes
+      for (const uuid of this.deviceAccessories.keys()) {
+        this.pollScheduler.markPolled(uuid);
+      }
     } catch (error) {
       this.logger.error('Failed to initialize platform:', error);
       // Still resolve the promise to allow retries during polling
@@ -268,18 +411,6 @@ export class TSVESyncPlatform implements DynamicPlatformPlugin {
     this.api.updatePlatformAccessories([accessory]);
   }
 
-  /**
-   * Get all devices from all categories
-   */
-  private getAllDevices() {
-    return [
-      ...this.client.fans,
-      ...this.client.outlets,
-      ...this.client.switches,
-      ...this.client.bulbs,
-    ];
-  }
-
   /**
    * Create a serializable device context
    */
@@ -300,87 +431,6 @@ export class TSVESyncPlatform implements DynamicPlatformPlugin {
     };
   }
 
-  /**
-   * Ensure client is logged in, but avoid unnecessary logins
-   */
-  private async ensureLogin(forceLogin = false): Promise<boolean> {
-    // Check if token needs refresh
-    const timeSinceLastRefresh = Date.now() - this.lastTokenRefresh.getTime();
-    if (!forceLogin && timeSinceLastRefresh < this.TOKEN_EXPIRY) {
-      return true; // Token is still valid
-    }
-
-    let isLoggedIn = false;
-    while (!isLoggedIn) {  // Keep trying until successful
-      try {
-        // Check if we need to wait for backoff
-        const timeSinceLastAttempt = Date.now() - this.lastLoginAttempt.getTime();
-        if (timeSinceLastAttempt < this.loginBackoffTime) {
-          const waitTime = this.loginBackoffTime - timeSinceLastAttempt;
-          this.logger.debug(`Waiting ${waitTime}ms before next login attempt (backoff)`);
-          await new Promise(resolve => setTimeout(resolve, waitTime));
-        }
-
-        // Need to login again
-        this.logger.debug(forceLogin ? 'Forcing new login to VeSync API' : 'Refreshing VeSync API token');
-        
-        this.lastLoginAttempt = new Date();
-        const loginResult = await this.client.login();
-        
-        if (!loginResult) {
-          this.logger.error('Login failed - invalid credentials or API error');
-          this.loginBackoffTime = Math.min(this.loginBackoffTime * 2, 300000);
-          continue;  // Try again after backoff
-        }
-        
-        // Reset backoff and update token refresh time on successful login
-        this.loginBackoffTime = 10000;
-        this.lastTokenRefresh = new Date();
-        // Best-effort: persist the fresh session immediately in case callbacks fail
-        try {
-          const token = (this.client as any).token as string | null;
-          const accountId = (this.client as any).accountId as string | null;
-          const region = (this.client as any).region as string | null;
-          const apiBaseUrl = (this.client as any).apiBaseUrl as string | null;
-          if (token && accountId && region && apiBaseUrl) {
-            const ts = decodeJwtTimestampsLocal(token);
-            await this.sessionStore.save({
-              token,
-              accountId,
-              region,
-              apiBaseUrl,
-              terminalId: (this.client as any).terminalId ?? undefined,
-              appId: (this.client as any).appId ?? undefined,
-              issuedAt: ts?.iat ?? null,
-              expiresAt: ts?.exp ?? null,
-              lastValidatedAt: Date.now(),
-              username: this.config.username,
-            } as any);
-          }
-        } catch {/* ignore */}
-        isLoggedIn = true;
-        return true;
-      } catch (error) {
-        // Handle specific errors
-        const errorObj = error as any;
-        const errorMsg = errorObj?.error?.msg || errorObj?.msg || String(error);
-        
-        if (errorMsg.includes('Not logged in')) {
-          this.logger.debug('Session expired, forcing new login');
-          this.loginBackoffTime = Math.min(this.loginBackoffTime, 5000);
-          continue;  // Try again after backoff
-        }
-        
-        // Increase backoff time exponentially, max 5 minutes
-        this.loginBackoffTime = Math.min(this.loginBackoffTime * 2, 300000);
-        
-        this.logger.error('Login error:', error);
-        continue;  // Try again after backoff
-      }
-    }
-    return true;  // This line will never be reached but TypeScript needs it
-  }
-
   /**
    * Update device states periodically
    */
@@ -392,9 +442,27 @@ export class TSVESyncPlatform implements DynamicPlatformPlugin {
     this.refreshInProgress = true;
 
     try {
-      await this.discoverDevices();
+      // Accounts whose earlier logins failed get their devices discovered as soon as they log in
+      const loggedIn = (await this.loginAccountsWithoutSession()).filter(account => account.hasSession());
+      for (const account of loggedIn) {
+        this.logger.info(`Logged in to VeSync as ${account.label}; discovering its devices`);
+        this.nextDeviceListRefresh = 0;
+      }
+
+      // Refresh the device list to pick up new, removed and offline devices
+      if (Date.now() >= this.nextDeviceListRefresh) {
+        this.nextDeviceListRefresh = Date.now() + this.deviceListInterval;
+        await this.discoverDevices(false);
+      }
+
+      this.updatePollBudgets();
 
-      const syncTasks = Array.from(this.deviceAccessories.values()).map(async accessory => {
+      const now = Date.now();
+      const dueAccessories = Array.from(this.deviceAccessories.entries())
+        .filter(([uuid, accessory]) => this.pollScheduler.isDue(uuid, this.getPollInterval(uuid, accessory, now), now));
+
+      const syncTasks = dueAccessories.map(async ([uuid, accessory]) => {
+        this.pollScheduler.markPolled(uuid);
         try {
           await accessory.syncDeviceState();
         } catch (error) {
@@ -409,245 +477,121 @@ export class TSVESyncPlatform implements DynamicPlatformPlugin {
   }
 
   /**
-   * Handle token updates from the library
-   */
-  private onTokenChange(session: { token: string } | undefined) {
-    if (!session?.token) return;
-    this.scheduleProactiveRefreshFromToken(session.token);
-    // NOTE: The library already saved the session via sessionStore.save()
-    // We should NOT save again here as it creates a race condition and corrupts the file
-    // The username field is added during initial login in onSuccessfulLogin()
-  }
-
-  /**
-   * Reuse the client identity from a persisted session whose credentials we are discarding.
-   *
-   * VeSync binds tokens to the terminal id, so keeping it stable stops every login looking like a new
-   * device to VeSync (which is what triggers its "new login to your account" notifications).
+   * The sync interval for an accessory, in milliseconds. Configured per-device and per-type
+   * intervals take precedence over the platform and adaptive intervals.
    */
-  private adoptClientIdentity(session: PluginSession) {
-    if (!session.terminalId && !session.appId) return;
-    const client: any = this.client as any;
-    if (typeof client.restoreClientIdentity === 'function') {
-      client.restoreClientIdentity({ terminalId: session.terminalId, appId: session.appId });
+  private getPollInterval(uuid: string, accessory: BaseAccessory, now = Date.now()): number {
+    const override = accessory.getUpdateIntervalOverride();
+    if (override !== undefined) {
+      return override;
     }
+    const group = this.accessoryAccounts.get(uuid)?.username ?? '';
+    return this.pollScheduler.getInterval(group, accessory.getActivity(), now);
   }
 
   /**
-   * Backward-compatible session hydration when using older tsvesync versions
+   * Spread each account's remaining quota over its accessories (adaptive polling only)
    */
-  private hydrateSessionCompat(session: { token: string; accountId: string; countryCode?: string | null; apiBaseUrl?: string; region?: string; terminalId?: string; appId?: string }) {
-    const client: any = this.client as any;
-    if (typeof client.hydrateSession === 'function') {
-      client.hydrateSession(session);
+  private updatePollBudgets(): void {
+    if (!this.pollScheduler.isAdaptive) {
       return;
     }
-    // Fallback: set core fields directly
-    client.token = session.token;
-    client.accountId = session.accountId;
-    client.countryCode = session.countryCode ?? null;
-    if (session.apiBaseUrl) {
-      client.apiBaseUrl = session.apiBaseUrl;
-    }
-    if (session.region) {
-      try { client.region = session.region; } catch { /* ignore */ }
-    }
-    client.enabled = true;
-  }
 
-  /**
-   * Schedule a proactive token refresh before JWT expiry
-   */
-  private scheduleProactiveRefreshFromToken(token: string) {
-    try {
-      const ts = decodeJwtTimestampsLocal(token);
-      if (!ts?.exp) {
-        return; // Cannot schedule without exp
+    const now = Date.now();
+    for (const account of this.vesyncAccounts) {
+      const quota = account.getQuotaStatus();
+      if (!quota) {
+        continue;
       }
-      const now = Date.now();
-      const expMs = ts.exp * 1000;
-      const msToExpiry = expMs - now;
-      
-      // If we already have a timer for this exact token expiration, skip
-      if (this.scheduledExpMs === expMs && this.refreshTimer) {
-        return;
-      }
-      if (msToExpiry <= 0) {
-        // Already expired; trigger immediate login in background
-        void this.ensureLogin(true);
-        return;
-      }
-
-      // Schedule policy to prevent thrash and avoid frequent logins:
-      // - If >7d left: refresh 5d before expiry
-      // - If 1–7d left: refresh 12h before expiry
-      // - If 1–24h left: refresh 1h before expiry
-      // - If <1h left: do not proactively refresh; rely on library's 401-triggered re-login
-      const ONE_HOUR = 60 * 60 * 1000;
-      const TWELVE_HOURS = 12 * ONE_HOUR;
-      const FIVE_DAYS = 5 * 24 * ONE_HOUR;
-      const SEVEN_DAYS = 7 * 24 * ONE_HOUR;
-
-      let refreshIn: number;
-      if (msToExpiry > SEVEN_DAYS) {
-        refreshIn = msToExpiry - FIVE_DAYS;
-      } else if (msToExpiry > 24 * ONE_HOUR) {
-        refreshIn = msToExpiry - TWELVE_HOURS;
-      } else if (msToExpiry > ONE_HOUR) {
-        refreshIn = msToExpiry - ONE_HOUR;
-      } else {
-        // Too close to expiry; avoid hammering login — let 401 path handle it
-        this.logger.debug('Token near expiry (<1h). Skipping proactive refresh; relying on auto re-login.');
-        return;
-      }
-
-      // Safety floor: never schedule earlier than 30 minutes from now
-      refreshIn = Math.max(refreshIn, 30 * 60 * 1000);
-
-      if (this.refreshTimer) {
-        clearTimeout(this.refreshTimer);
-      }
-      this.scheduledExpMs = expMs;
-      // Handle Node.js setTimeout max delay (~24.8 days). Chain timers when needed.
-      const MAX_DELAY = 0x7fffffff; // 2,147,483,647 ms
-      if (refreshIn > MAX_DELAY) {
-        this.refreshRemainingMs = refreshIn - MAX_DELAY;
-        this.logger.debug('Proactive refresh scheduled beyond setTimeout max; chaining timers.');
-        this.refreshTimer = setTimeout(() => this.chainRefreshTimer(), MAX_DELAY);
-      } else {
-        this.refreshRemainingMs = 0;
-        this.refreshTimer = setTimeout(async () => {
-          if (this.refreshInProgress) {
-            this.logger.debug('Proactive refresh already in progress; skipping.');
-            return;
-          }
-          this.refreshInProgress = true;
-          this.logger.debug('Proactively refreshing VeSync session before token expiry');
-          try {
-            await this.ensureLogin(true);
-          } finally {
-            this.refreshInProgress = false;
-          }
-        }, refreshIn);
-      }
-
-      const hours = Math.round(refreshIn / (60 * 60 * 1000));
-      this.logger.debug(`Scheduled proactive token refresh in ~${hours}h`);
-    } catch (e) {
-      // Best-effort scheduling; ignore errors
-    }
-  }
-
-  private chainRefreshTimer() {
-    if (!this.refreshRemainingMs || this.refreshRemainingMs <= 0) {
-      // Final hop: trigger refresh now
-      if (this.refreshInProgress) {
-        this.logger.debug('Proactive refresh already in progress; skipping.');
-        return;
+      // Accessories with a configured interval poll at a fixed rate; the rest share what is left
+      let fixedCallsPerSecond = 1000 / this.deviceListInterval;
+      const activities: PollActivityClass[] = [];
+      for (const [uuid, accessory] of this.deviceAccessories) {
+        if (this.accessoryAccounts.get(uuid) !== account) {
+          continue;
+        }
+        const override = accessory.getUpdateIntervalOverride();
+        if (override !== undefined) {
+          fixedCallsPerSecond += 1000 / override;
+        } else {
+          activities.push(this.pollScheduler.classify(accessory.getActivity(), now));
+        }
       }
-      this.refreshInProgress = true;
-      this.logger.debug('Proactively refreshing VeSync session before token expiry');
-      void this.ensureLogin(true).finally(() => { this.refreshInProgress = false; });
-      return;
+      this.pollScheduler.updateBudget(account.username, {
+        remainingCalls: quota.remaining,
+        msUntilReset: quota.msUntilReset,
+        activities,
+        fixedCallsPerSecond,
+      });
     }
-    const MAX_DELAY = 0x7fffffff;
-    const hop = Math.min(this.refreshRemainingMs, MAX_DELAY);
-    this.refreshRemainingMs -= hop;
-    this.refreshTimer = setTimeout(() => this.chainRefreshTimer(), hop);
   }
 
   /**
    * Check if a device should be excluded based on configuration
    */
   private shouldExcludeDevice(device: any): boolean {
-    const exclude = this.config.exclude;
-    if (!exclude) {
-      return false;
-    }
-
-    // Check device type
-    if (exclude.type?.includes(device.deviceType.toLowerCase())) {
-      this.logger.debug(`Excluding device ${device.deviceName} by type: ${device.deviceType}`);
-      return true;
-    }
-
-    // Check device model
-    if (exclude.model?.some(model => device.deviceType.toUpperCase().includes(model.toUpperCase()))) {
-      this.logger.debug(`Excluding device ${device.deviceName} by model: ${device.deviceType}`);
-      return true;
-    }
-
-    // Check exact name match
-    if (exclude.name?.includes(device.deviceName.trim())) {
-      this.logger.debug(`Excluding device ${device.deviceName} by exact name match`);
-      return true;
-    }
-
-    // Check name patterns
-    if (exclude.namePattern) {
-      for (const pattern of exclude.namePattern) {
-        try {
-          const regex = new RegExp(pattern);
-          if (regex.test(device.deviceName.trim())) {
-            this.logger.debug(`Excluding device ${device.deviceName} by name pattern: ${pattern}`);
-            return true;
-          }
-        } catch (error) {
-          this.logger.warn(`Invalid regex pattern in exclude config: ${pattern}`);
-        }
-      }
-    }
-
-    // Check device ID (cid or uuid)
-    if (exclude.id?.includes(device.cid) || exclude.id?.includes(device.uuid)) {
-      this.logger.debug(`Excluding device ${device.deviceName} by ID: ${device.cid}/${device.uuid}`);
+    const match = findExclusionMatch(device, this.config.exclude, pattern => {
+      this.logger.warn(`Invalid regex pattern in exclude config: ${pattern}`);
+    });
+    if (match) {
+      this.logger.debug(`Excluding device ${device.deviceName} by ${match.rule}: ${match.value}`);
       return true;
     }
-
     return false;
   }
 
   /**
    * This function discovers and registers your devices as accessories
+   *
+   * @param full Fetch details for every device as well as the device list. Periodic refreshes pass
+   * false and leave details to the per-accessory syncs the poll scheduler makes due.
    */
-  async discoverDevices() {
+  async discoverDevices(full = true) {
     this.logger.debug('Discovering devices');
     try {
-      // Do not force login; rely on library to re-login only if needed
+      // Merge devices from every account. A device shared between accounts reports the same cid
+      // in each, so the first account to list it owns the accessory and later copies are skipped.
+      const devices: ReturnType<VeSyncAccount['getAllDevices']> = [];
+      const deviceOwners = new Map<string, VeSyncAccount>();
+      for (const account of this.vesyncAccounts) {
+        if (!account.hasSession()) {
+          this.logger.debug(`Skipping devices of ${account.label}: not logged in`);
+          continue;
+        }
+        await account.update(full);
 
-      let retryCount = 0;
-      let success = false;
+        const accountDevices = account.getAllDevices().filter(device => !this.shouldExcludeDevice(device));
 
-      // Keep retrying API calls
-      while (!success) {
-        try {
-          // Update device data from API
-          await this.client.update();
-          success = true;
-        } catch (error) {
-          retryCount++;
-          const backoffTime = Math.min(10000 * Math.pow(2, retryCount), 300000);
-          this.logger.warn(`API call failed, retry attempt ${retryCount}. Waiting ${backoffTime/1000} seconds...`);
-          await new Promise(resolve => setTimeout(resolve, backoffTime));
-          
-          // Try to ensure we're still logged in before next attempt
-          if (!await this.ensureLogin()) {
+        // Update quota manager with device count
+        account.updateQuotaDeviceCount(accountDevices.length);
+
+        for (const device of accountDevices) {
+          const key = this.getDeviceKey(device);
+          const owner = deviceOwners.get(key);
+          if (owner) {
+            this.logger.debug(`Skipping ${device.deviceName} from ${account.label}; already provided by ${owner.label}`);
             continue;
           }
+          deviceOwners.set(key, account);
+          if (!this.isBridgedModel(device.deviceType)) {
+            await this.reportUnknownDevice(account, device);
+            continue;
+          }
+          devices.push(device);
+          this.accessoryAccounts.set(this.generateDeviceUUID(device), account);
         }
-      }
-
-      // Get all devices
-      const devices = this.getAllDevices().filter(device => !this.shouldExcludeDevice(device));
 
-      // Update quota manager with device count
-      if (typeof (this.client as any).updateQuotaDeviceCount === 'function') {
-        (this.client as any).updateQuotaDeviceCount(devices.length);
-        this.logger.debug(`Updated quota manager with ${devices.length} devices`);
+        await this.reportUnsupportedDevices(account);
       }
 
       // Track processed devices for cleanup
       const processedDeviceUUIDs = new Set<string>();
+      if (this.connectionSensor) {
+        processedDeviceUUIDs.add(this.connectionSensor.accessory.UUID);
+      }
+      if (this.reloginSwitch) {
+        processedDeviceUUIDs.add(this.reloginSwitch.accessory.UUID);
+      }
 
       // Loop over the discovered devices and register each one
       for (const device of devices) {
@@ -675,7 +619,7 @@ export class TSVESyncPlatform implements DynamicPlatformPlugin {
           accessory = new this.api.platformAccessory(
             sanitizeDeviceName(device.deviceName),
             uuid,
-            DeviceFactory.getAccessoryCategory(device.deviceType)
+            DeviceFactory.getAccessoryCategory(device.deviceType, this.modelRegistry)
           );
 
           // Store device information in context
@@ -686,15 +630,21 @@ export class TSVESyncPlatform implements DynamicPlatformPlugin {
         let deviceAccessory = this.deviceAccessories.get(uuid);
         if (deviceAccessory) {
           // tsvesync recreates device instances on each update(); merge latest state into the existing instance
-          deviceAccessory.applyUpdatedDeviceState(device as any);
+          if (full) {
+            deviceAccessory.applyUpdatedDeviceState(device as any);
+          } else {
+            deviceAccessory.applyDeviceListState(device as any);
+          }
         } else {
           deviceAccessory = DeviceFactory.createAccessory(this, accessory, device);
           deviceAccessory.applyUpdatedDeviceState(device as any);
           this.deviceAccessories.set(uuid, deviceAccessory);
+          this.accessoryIds.set(uuid, this.getDeviceKey(device));
+          this.mqttBridge?.register(this.accessoryIds.get(uuid)!, deviceAccessory);
         }
 
         // Check if device needs a separate AQ sensor accessory
-        if (this.deviceHasAirQuality(device) && DeviceFactory.isAirPurifier(device.deviceType)) {
+        if (this.deviceHasAirQuality(device) && DeviceFactory.isAirPurifier(device.deviceType, this.modelRegistry)) {
           const aqUuid = this.generateDeviceUUID(device, '-AQ');
           processedDeviceUUIDs.add(aqUuid);
           
@@ -734,13 +684,20 @@ export class TSVESyncPlatform implements DynamicPlatformPlugin {
           
           // Create or reuse the AQ sensor accessory handler
           const existingAqSensorAccessory = this.deviceAccessories.get(aqUuid);
+          this.accessoryAccounts.set(aqUuid, deviceOwners.get(this.getDeviceKey(device))!);
           if (existingAqSensorAccessory) {
-            existingAqSensorAccessory.applyUpdatedDeviceState(device as any);
+            if (full) {
+              existingAqSensorAccessory.applyUpdatedDeviceState(device as any);
+            } else {
+              existingAqSensorAccessory.applyDeviceListState(device as any);
+            }
           } else {
             const createdAqSensorAccessory = DeviceFactory.createAQSensorAccessory(this, aqAccessory, device);
             if (createdAqSensorAccessory) {
               createdAqSensorAccessory.applyUpdatedDeviceState(device as any);
               this.deviceAccessories.set(aqUuid, createdAqSensorAccessory);
+              this.accessoryIds.set(aqUuid, `${this.getDeviceKey(device)}-air-quality`);
+              this.mqttBridge?.register(this.accessoryIds.get(aqUuid)!, createdAqSensorAccessory);
             
               // Register new AQ sensor accessory
               if (!this.accessories.find(acc => acc.UUID === aqUuid)) {
@@ -782,6 +739,20 @@ export class TSVESyncPlatform implements DynamicPlatformPlugin {
           this.unregisterAccessory(accessory, 'excluded by configuration');
           continue;
         }
+        // e.g. an accessory an earlier version bridged as an outlet for a model it did not know.
+        // Removing it would also remove the HomeKit automations using it, so that is opt-in.
+        const deviceType = (accessory.context as any)?.device?.deviceType;
+        if (deviceType && !accessory.context.isAQSensor && !this.isBridgedModel(deviceType)) {
+          if (this.config.removeUnknownAccessories) {
+            this.unregisterAccessory(accessory, 'unknown device type');
+          } else if (!this.keptUnknownAccessories.has(accessory.UUID)) {
+            this.keptUnknownAccessories.add(accessory.UUID);
+            this.logger.warn(
+              `Accessory "${accessory.displayName}" is for a model the plugin does not know (${deviceType}) and is no longer controlled. Keeping it cached to preserve HomeKit automations; add the model to modelOverrides to bridge it, or set removeUnknownAccessories to remove it.`
+            );
+          }
+          continue;
+        }
 
         if (!this.missingAccessories.has(accessory.UUID)) {
           this.missingAccessories.add(accessory.UUID);
@@ -796,6 +767,58 @@ export class TSVESyncPlatform implements DynamicPlatformPlugin {
     }
   }
 
+  /**
+   * Whether devices of this model get an accessory: every model the registry knows, and unknown
+   * models only under the power-switch-only policy
+   */
+  private isBridgedModel(deviceType: string): boolean {
+    return this.unknownDevicePolicy === 'power-switch-only' || this.modelRegistry.getDeviceTypeKey(deviceType) !== undefined;
+  }
+
+  /**
+   * Log an unknown device that is not bridged, or record its diagnostics, once per run
+   */
+  private async reportUnknownDevice(account: VeSyncAccount, device: any, listEntry?: Record<string, any>) {
+    const key = this.getDeviceKey(device);
+    if (this.reportedUnknownDevices.has(key)) {
+      return;
+    }
+    this.reportedUnknownDevices.add(key);
+
+    const label = `${device.deviceName} (${device.deviceType})`;
+    const supported = listEntry === undefined;
+    if (this.deviceDiagnostics) {
+      const entry = listEntry ?? account.getRawDeviceList().find(candidate => candidate.cid === device.cid)
+        ?? this.createDeviceContext(device);
+      const file = await this.deviceDiagnostics.record(key, entry, supported ? device : undefined);
+      if (file) {
+        this.logger.info(`Not bridging unknown device ${label}; diagnostics for a support issue written to ${file}`);
+      }
+    } else if (supported) {
+      this.logger.info(
+        `Not bridging unknown device ${label}. Add its model to modelOverrides to bridge it, or set unknownDevices to "diagnostic" to record its data for a support issue.`
+      );
+    } else {
+      this.logger.info(
+        `Not bridging ${label}: the VeSync library does not support this model. Set unknownDevices to "diagnostic" to record its data for a support issue.`
+      );
+    }
+  }
+
+  /**
+   * Report the account's devices the library dropped from its device list for lack of a device
+   * class, such as scales and kettles. They never reach discovery as device objects.
+   */
+  private async reportUnsupportedDevices(account: VeSyncAccount) {
+    const known = new Set(account.getAllDevices().map(device => device.cid));
+    for (const entry of account.getRawDeviceList()) {
+      if (!entry?.cid || !entry.deviceType || known.has(entry.cid) || this.shouldExcludeDevice(entry)) {
+        continue;
+      }
+      await this.reportUnknownDevice(account, entry, entry);
+    }
+  }
+
   private isAccessoryExcluded(accessory: PlatformAccessory): boolean {
     const device = (accessory.context as any)?.device;
     if (!device) {
@@ -818,7 +841,14 @@ export class TSVESyncPlatform implements DynamicPlatformPlugin {
     }
 
     // Remove from tracking maps
+    const deviceAccessory = this.deviceAccessories.get(accessory.UUID);
+    if (deviceAccessory) {
+      this.mqttBridge?.unregister(deviceAccessory);
+    }
     this.deviceAccessories.delete(accessory.UUID);
+    this.accessoryAccounts.delete(accessory.UUID);
+    this.accessoryIds.delete(accessory.UUID);
+    this.pollScheduler.forget(accessory.UUID);
     this.aqSensorAccessories.delete(accessory.UUID);
     this.missingAccessories.delete(accessory.UUID);
 
@@ -837,11 +867,110 @@ export class TSVESyncPlatform implements DynamicPlatformPlugin {
    * @returns The generated UUID string
    */
   private generateDeviceUUID(device: { cid: string; isSubDevice?: boolean; subDeviceNo?: number }, suffix = ''): string {
-    let id = device.cid;
+    return this.api.hap.uuid.generate(this.getDeviceKey(device) + suffix);
+  }
+
+  /**
+   * Build the Prometheus metrics: API usage, quota and logins per account, and the state and sensor
+   * readings of each accessory. Everything is read from memory, so a scrape makes no API calls.
+   */
+  private collectMetrics(): MetricFamily[] {
+    const family = (name: string, type: MetricFamily['type'], help: string): MetricFamily =>
+      ({ name, type, help, samples: [] });
+    const apiCalls = family('tsvesync_api_calls_total', 'counter', 'VeSync API calls made since startup, by method');
+    const blockedCalls = family('tsvesync_api_calls_blocked_total', 'counter', 'VeSync API calls skipped because the daily quota was used up, by method');
+    const quotaUsed = family('tsvesync_quota_used', 'gauge', 'API calls counted against the current quota day');
+    const quotaRemaining = family('tsvesync_quota_remaining', 'gauge', 'API calls left in the current quota day');
+    const quotaLimit = family('tsvesync_quota_limit', 'gauge', 'Daily API call quota, after the configured buffer');
+    const loginAttempts = family('tsvesync_login_attempts_total', 'counter', 'VeSync login attempts since startup');
+    const loginFailures = family('tsvesync_login_failures_total', 'counter', 'Failed VeSync login attempts since startup');
+    const loginBackoff = family('tsvesync_login_backoff_seconds', 'gauge', 'Wait before the next login attempt while logins are failing');
+    const queueDepth = family('tsvesync_api_queue_depth', 'gauge', 'VeSync API calls waiting for their turn, by priority');
+    const queueDispatched = family('tsvesync_api_queue_dispatched_total', 'counter', 'VeSync API calls that left the request queue, by priority');
+    const queueWait = family('tsvesync_api_queue_wait_seconds_total', 'counter', 'Time VeSync API calls spent waiting in the request queue, by priority');
+    const queueMaxWait = family('tsvesync_api_queue_wait_max_seconds', 'gauge', 'Longest time a VeSync API call waited in the request queue since startup, by priority');
+    const queueDropped = family('tsvesync_api_queue_dropped_total', 'counter', 'VeSync API calls dropped because the request queue was full, by priority');
+    const queueCoalesced = family('tsvesync_api_queue_coalesced_total', 'counter', 'Polls not made because the same poll was already waiting in the request queue; they share its result');
+
+    for (const account of this.vesyncAccounts) {
+      const labels = { account: account.label };
+      const stats = account.getApiCallStats();
+      for (const [method, count] of Object.entries(stats.calls)) {
+        apiCalls.samples.push({ labels: { ...labels, method }, value: count });
+      }
+      for (const [method, count] of Object.entries(stats.blocked)) {
+        blockedCalls.samples.push({ labels: { ...labels, method }, value: count });
+      }
+
+      const quota = account.getQuotaStatus();
+      if (quota) {
+        quotaUsed.samples.push({ labels, value: quota.used });
+        quotaRemaining.samples.push({ labels, value: quota.remaining });
+        quotaLimit.samples.push({ labels, value: quota.dailyQuota });
+      }
+
+      const login = account.getLoginStats();
+      loginAttempts.samples.push({ labels, value: login.attempts });
+      loginFailures.samples.push({ labels, value: login.failures });
+      loginBackoff.samples.push({ labels, value: login.backoffMs / 1000 });
+
+      const queue = account.getRequestQueueStats();
+      if (queue) {
+        for (const priority of REQUEST_PRIORITIES) {
+          const priorityLabels = { ...labels, priority };
+          queueDepth.samples.push({ labels: priorityLabels, value: queue.depth[priority] });
+          queueDispatched.samples.push({ labels: priorityLabels, value: queue.dispatched[priority] });
+          queueWait.samples.push({ labels: priorityLabels, value: queue.waitMs[priority] / 1000 });
+          queueMaxWait.samples.push({ labels: priorityLabels, value: queue.maxWaitMs[priority] / 1000 });
+          queueDropped.samples.push({ labels: priorityLabels, value: queue.dropped[priority] });
+        }
+        queueCoalesced.samples.push({ labels, value: queue.coalesced });
+      }
+    }
+
+    const online = family('tsvesync_device_online', 'gauge', 'Whether VeSync reports the device as online (1) or offline (0)');
+    const sensors = {
+      pm25: family('tsvesync_pm25_density', 'gauge', 'PM2.5 density in micrograms per cubic metre'),
+      humidity: family('tsvesync_relative_humidity_percent', 'gauge', 'Current relative humidity in percent'),
+      filterLife: family('tsvesync_filter_life_percent', 'gauge', 'Remaining filter life in percent'),
+      power: family('tsvesync_power_watts', 'gauge', 'Current power draw in watts'),
+      energy: family('tsvesync_energy_kwh', 'gauge', 'Energy used today as reported by the outlet, in kilowatt-hours'),
+    };
+
+    for (const [uuid, deviceAccessory] of this.deviceAccessories) {
+      const accessory = this.accessories.find(candidate => candidate.UUID === uuid);
+      const labels = {
+        id: this.accessoryIds.get(uuid) ?? uuid,
+        name: accessory?.displayName ?? '',
+        type: deviceAccessory.getDeviceType(),
+      };
+      online.samples.push({ labels, value: deviceAccessory.isOnline() ? 1 : 0 });
+
+      const readings = deviceAccessory.getSensorReadings();
+      for (const key of Object.keys(sensors) as (keyof typeof sensors)[]) {
+        const value = readings[key];
+        if (value !== undefined) {
+          sensors[key].samples.push({ labels, value });
+        }
+      }
+    }
+
+    return [
+      apiCalls, blockedCalls, quotaUsed, quotaRemaining, quotaLimit, loginAttempts, loginFailures, loginBackoff,
+      queueDepth, queueDispatched, queueWait, queueMaxWait, queueDropped, queueCoalesced,
+      online, ...Object.values(sensors),
+    ];
+  }
+
+  /**
+   * The identity of a physical device. It is independent of the account the device was discovered
+   * through, so moving a device between accounts keeps its HomeKit accessory.
+   */
+  private getDeviceKey(device: { cid: string; isSubDevice?: boolean; subDeviceNo?: number }): string {
     if (device.isSubDevice && device.subDeviceNo !== undefined) {
-      id = `${device.cid}_${device.subDeviceNo}`;
+      return `${device.cid}_${device.subDeviceNo}`;
     }
-    return this.api.hap.uuid.generate(id + suffix);
+    return device.cid;
   }
 
   /**
@@ -850,6 +979,12 @@ export class TSVESyncPlatform implements DynamicPlatformPlugin {
    * @returns true if device has AQ sensor
    */
   private deviceHasAirQuality(device: any): boolean {
+    // Features from the model registry take precedence
+    const features = this.modelRegistry.resolve(device.deviceType || '')?.features;
+    if (features) {
+      return features.includes('air_quality');
+    }
+
     // Use the device's native feature detection if available
     if (typeof device.hasFeature === 'function') {
       return device.hasFeature('air_quality');
@@ -6,6 +6,35 @@ export interface FanConfig {
   levels?: number[];
 }
 
+/**
+ * Accessory type keys, as returned by each accessory's `getDeviceType()`
+ */
+export type DeviceTypeKey = 'airPurifier' | 'humidifier' | 'fan' | 'light' | 'outlet' | 'switch';
+
+/**
+ * HomeKit accessory categories the plugin uses, by their `Categories` enum name
+ */
+export type AccessoryCategoryName = 'AIR_PURIFIER' | 'AIR_HUMIDIFIER' | 'FAN' | 'LIGHTBULB' | 'OUTLET' | 'SWITCH';
+
+/**
+ * One registry entry. `model` is matched case-insensitively against the whole `deviceType`, with `*`
+ * matching any run of characters (`LAP-*` for a prefix, `*Core300S*` for a substring). `features` and
+ * `levels` follow the library's `FanConfig`; when set they take precedence over the library's own
+ * feature detection and speed count.
+ */
+export interface ModelDefinition extends Partial<FanConfig> {
+  model: string;
+  type: DeviceTypeKey;
+  category?: AccessoryCategoryName;
+  warmLevels?: number[];  // Warm mist levels of humidifiers that heat their mist
+}
+
+/**
+ * A `modelOverrides` entry. Without a `type` it refines a model the registry already knows, e.g. to
+ * correct its speed levels.
+ */
+export type ModelOverride = Omit<ModelDefinition, 'type'> & { type?: DeviceTypeKey };
+
 export interface DeviceCapabilities {
   hasBrightness: boolean;
   hasColorTemp: boolean;
@@ -18,6 +47,17 @@ export interface DeviceCapabilities {
   hasSwingMode: boolean;
 }
 
+/**
+ * Sensor values an accessory reports for metrics
+ */
+export interface SensorReadings {
+  pm25?: number;        // µg/m³
+  humidity?: number;    // %
+  filterLife?: number;  // %
+  power?: number;       // W
+  energy?: number;      // kWh
+}
+
 export interface VeSyncDeviceWithPower extends VeSyncBaseDevice {
   deviceStatus: string;
   turnOn(): Promise<boolean>;
@@ -83,6 +123,14 @@ export interface VeSyncDeviceWithControls extends VeSyncDeviceWithPower {
   setSwingMode?(enabled: boolean): Promise<boolean>;
 }
 
+export interface VeSyncDeviceWithTimer extends VeSyncDeviceWithPower {
+  // Set by the library when a timer is started, or from the device's remaining seconds on some models
+  timer?: number | { duration: number; action?: string } | null;
+  setTimer(hours: number): Promise<boolean>;
+  clearTimer(): Promise<boolean>;
+  hasFeature?(feature: string): boolean;
+}
+
 // Combined device types for specific device categories
 export interface VeSyncAirPurifier extends VeSyncDeviceWithPower, VeSyncDeviceWithSpeed, VeSyncDeviceWithAirQuality, VeSyncDeviceWithControls {}
 
@@ -134,16 +182,149 @@ export interface DeviceExclusion {
   id?: string[];         // Device IDs to exclude (cid/uuid)
 }
 
+export interface DeviceUpdateInterval {
+  id?: string;            // Device ID (cid/uuid)
+  name?: string;          // Device name (exact match)
+  updateInterval: number; // Seconds between state refreshes
+}
+
+export interface UpdateIntervalOverrides {
+  types?: Record<string, number>;     // Seconds by device type (airPurifier, humidifier, fan, light, outlet, switch)
+  devices?: DeviceUpdateInterval[];   // Take precedence over type intervals
+}
+
+export interface MqttConfig {
+  enabled: boolean;
+  url: string;            // Broker URL, e.g. mqtt://localhost:1883
+  username?: string;
+  password?: string;
+  topicPrefix?: string;   // Default: tsvesync
+  retain?: boolean;       // Retain state messages (default: true)
+}
+
+export interface DeviceTimersConfig {
+  enabled: boolean;
+  duration?: number;      // Minutes a timer runs for unless set per device (default: 60)
+}
+
+export interface SessionEncryptionConfig {
+  enabled: boolean;
+  secret?: string;     // Passphrase the encryption key is derived from
+  secretEnv?: string;  // Environment variable holding the passphrase when `secret` is unset (default: TSVESYNC_SESSION_SECRET)
+}
+
+export interface MetricsConfig {
+  enabled: boolean;
+  port?: number;          // Default: 9464
+  host?: string;          // Default: 127.0.0.1
+}
+
+/**
+ * Load detection for one outlet: OutletInUse follows its power draw instead of its on/off state
+ */
+export interface OutletInUseConfig {
+  id?: string;            // Device ID (cid/uuid)
+  name?: string;          // Device name (exact match)
+  threshold: number;      // Watts at or above which the outlet is in use
+  holdOff?: number;       // Seconds the power must stay below the threshold before the load has finished (default: 0)
+  event?: 'none' | 'contact' | 'button';  // Extra service that signals when the load starts and finishes (default: none)
+}
+
+/**
+ * Extra humidifier settings that can be exposed as HomeKit switches
+ */
+export type HumidifierSwitch = 'display' | 'autoStop' | 'dryingMode';
+
+/**
+ * Auto mode preference for one air purifier, applied whenever it is switched to auto
+ */
+export interface AirPurifierAutoModeConfig {
+  id?: string;            // Device ID (cid/uuid)
+  name?: string;          // Device name (exact match)
+  preference: 'default' | 'efficient' | 'quiet';
+  roomSize?: number;      // Room size in square feet, which sets how hard 'efficient' works (default: 600)
+}
+
+/**
+ * Extra air purifier settings that can be exposed as HomeKit switches
+ */
+export type AirPurifierSwitch = 'display' | 'lightDetection';
+
+/**
+ * A time-of-use tariff period, in the energy report timezone
+ */
+export interface TariffPeriod {
+  start: string;          // HH:MM
+  end: string;            // HH:MM; earlier than start for a period that runs past midnight
+  rate: number;           // Price per kWh
+  days?: string[];        // mon..sun (default: every day)
+}
+
+export interface EnergyReportsConfig {
+  enabled: boolean;
+  rate?: number;              // Flat price per kWh, also used outside the time-of-use periods (default: 0)
+  periods?: TariffPeriod[];   // Time-of-use rates; the first period covering a time sets its price
+  currency?: string;          // Shown with costs, e.g. USD
+  timeZone?: string;          // IANA timezone for days, weeks, months and periods (default: the host's)
+  logSummary?: boolean;       // Log each outlet's usage for the previous day (default: true)
+}
+
+/**
+ * What to do with devices whose model the plugin does not know: leave them out of HomeKit, bridge
+ * them as a plain on/off switch, or leave them out and write redacted diagnostics for a support issue
+ */
+export type UnknownDevicePolicy = 'ignore' | 'power-switch-only' | 'diagnostic';
+
+export interface VeSyncAccountConfig {
+  name?: string;         // Label used in logs; defaults to the username
+  username: string;
+  password: string;
+  countryCode?: string;  // Falls back to the platform-level countryCode
+  apiUrl?: string;       // Falls back to the platform-level apiUrl
+  sessionStore?: SessionStoreConfig;  // Falls back to the platform-level sessionStore
+}
+
+export interface SessionStoreConfig {
+  type: 'storage' | 'file' | 'readonly';
+  path?: string;  // file: where the session is kept; readonly: a file holding the session JSON, e.g. a container secret
+  env?: string;   // readonly: environment variable holding the session JSON (default: TSVESYNC_SESSION)
+}
+
 export interface PlatformConfig {
   platform: string;
   name: string;
-  username: string;
-  password: string;
+  username?: string;
+  password?: string;
+  accounts?: VeSyncAccountConfig[];  // Additional VeSync accounts bridged by this platform
   updateInterval?: number;
+  updateIntervals?: UpdateIntervalOverrides;
+  adaptivePolling?: {
+    enabled: boolean;
+    minInterval?: number;  // Shortest per-device sync interval in seconds (default: 60)
+    maxInterval?: number;  // Longest per-device sync interval in seconds (default: 1800)
+  };
   debug?: boolean;
+  sessionEncryption?: SessionEncryptionConfig;  // Encrypt persisted VeSync sessions at rest
+  sessionStore?: SessionStoreConfig;  // Where VeSync sessions are persisted (default: the Homebridge storage dir)
+  connectionSensor?: boolean;  // A contact sensor that opens while logins fail (default: false)
+  reloginSwitch?: boolean;  // A switch that logs failing accounts in again (default: false)
   apiUrl?: string;
   countryCode?: string;  // Optional country code for non-US/EU regions (e.g., 'AU', 'JP', 'NZ')
   exclude?: DeviceExclusion;
+  modelOverrides?: ModelOverride[];  // Extra or corrected device models, matched before the built-in ones
+  unknownDevices?: UnknownDevicePolicy;  // Default: 'ignore'
+  removeUnknownAccessories?: boolean;  // Remove cached accessories of models that are not bridged (default: false)
+  mqtt?: MqttConfig;
+  metrics?: MetricsConfig;
+  energyReports?: EnergyReportsConfig;
+  deviceTimers?: DeviceTimersConfig;  // Off timers on devices that have one
+  outletInUse?: OutletInUseConfig[];  // Power-based in-use detection for individual outlets
+  airPurifierModeSwitches?: boolean;  // A switch per supported air purifier mode (default: false)
+  airPurifierSwitches?: AirPurifierSwitch[];  // Added to air purifiers that support them (default: none)
+  airPurifierAutoMode?: AirPurifierAutoModeConfig[];  // Auto mode preferences for individual air purifiers
+  humidifierSwitches?: HumidifierSwitch[];  // Added to humidifiers that support them (default: none)
+  humidifierWaterSensors?: 'none' | 'leak' | 'contact';  // Sensors that trip when a humidifier's tank is empty or lifted (default: none)
+  humidifierMistLevels?: boolean;  // RotationSpeed steps through the mist levels instead of percentages (default: false)
   retry?: {
     maxRetries: number;
     initialDelay?: number;
@@ -153,5 +334,6 @@ export interface PlatformConfig {
     enabled: boolean;
     bufferPercentage?: number;
     priorityMethods?: string[];
+    timeZone?: string;   // IANA timezone whose midnight starts a new quota day (default: UTC)
   };
 }
@@ -2,13 +2,14 @@ import { VeSync } from 'tsvesync';
 import { PluginLogger } from './logger';
 import { DeviceExclusion } from '../types/device.types';
 import { QuotaManager } from './quota-manager';
+import { RequestQueue, RequestQueueStats } from './request-queue';
 
 const RATE_LIMIT_DELAY = 500; // 500ms between API calls
+const MAX_QUEUE_DEPTH = 100; // API calls waiting for their turn
 const DEBOUNCE_DELAY = 5000; // 5 second debounce for rapid changes
 
 class RateLimiter {
-  private lastCallTime = 0;
-  private lastMethodName = '';
+  private readonly requestQueue: RequestQueue;
   private debounceTimers: Map<string, {
     timer: NodeJS.Timeout;
     lastValue: any;
@@ -16,6 +17,9 @@ class RateLimiter {
   }> = new Map();
   private quotaManager?: QuotaManager;
   private methodCallCounts: Map<string, number> = new Map();
+  // Running totals since startup; methodCallCounts is cleared after each log
+  private methodCallTotals: Map<string, number> = new Map();
+  private blockedCallTotals: Map<string, number> = new Map();
   private lastMethodLogTime = 0;
   private readonly METHOD_LOG_INTERVAL = 10 * 60 * 1000; // 10 minutes in milliseconds
 
@@ -25,11 +29,14 @@ class RateLimiter {
     quotaConfig?: {
       bufferPercentage?: number;
       priorityMethods?: string[];
+      timeZone?: string;
+      ledgerPath?: string;
     }
   ) {
     if (quotaConfig) {
       this.quotaManager = new QuotaManager(logger, deviceCount, quotaConfig);
     }
+    this.requestQueue = new RequestQueue(logger, RATE_LIMIT_DELAY, MAX_QUEUE_DEPTH);
   }
 
   /**
@@ -39,31 +46,74 @@ class RateLimiter {
     this.quotaManager?.updateDeviceCount(count);
   }
 
-  async rateLimit(methodName: string): Promise<boolean> {
-    // First check if we can make this API call based on quota
-    if (this.quotaManager && !this.quotaManager.canMakeApiCall(methodName)) {
-      return false;
+  /**
+   * Quota usage for the current quota day, or null when quota management is disabled
+   */
+  getQuotaStatus(): { used: number; remaining: number; dailyQuota: number; msUntilReset: number } | null {
+    if (!this.quotaManager) {
+      return null;
     }
+    return {
+      used: this.quotaManager.getApiCallCount(),
+      remaining: this.quotaManager.getRemainingQuota(),
+      dailyQuota: this.quotaManager.getDailyQuota(),
+      msUntilReset: this.quotaManager.getMsUntilReset(),
+    };
+  }
 
-    const now = Date.now();
-    const timeSinceLastCall = now - this.lastCallTime;
-    
-    if (timeSinceLastCall < RATE_LIMIT_DELAY) {
-      const waitTime = RATE_LIMIT_DELAY - timeSinceLastCall;
-      this.logger.debug(`Rate limiting '${methodName}' - waiting ${waitTime}ms before next API call (previous call was '${this.lastMethodName}' ${timeSinceLastCall}ms ago)`);
-      await new Promise(resolve => setTimeout(resolve, waitTime));
-    }
-    
-    this.lastMethodName = methodName;
-    this.lastCallTime = Date.now();
-    this.logger.debug(`Executing API call '${methodName}'`);
-    
-    // Track method call counts for diagnostics
-    this.trackMethodCall(methodName);
-    
-    // Record this API call in the quota manager
-    this.quotaManager?.recordApiCall(methodName);
-    return true;
+  /**
+   * API calls made and calls blocked by the quota, per method, since startup
+   */
+  getCallStats(): { calls: Record<string, number>; blocked: Record<string, number> } {
+    return {
+      calls: Object.fromEntries(this.methodCallTotals),
+      blocked: Object.fromEntries(this.blockedCallTotals),
+    };
+  }
+
+  /**
+   * Queue depth, wait times and dropped calls per priority class
+   */
+  getQueueStats(): RequestQueueStats {
+    return this.requestQueue.getStats();
+  }
+
+  /**
+   * Persist the quota ledger
+   */
+  async flushQuota(): Promise<void> {
+    await this.quotaManager?.flush();
+  }
+
+  /**
+   * Persist the quota ledger before returning, for shutdown
+   */
+  flushQuotaSync(): void {
+    this.quotaManager?.flushSync();
+  }
+
+  /**
+   * Run an API call in its turn in the request queue, checking the quota again when the turn comes.
+   * Resolves with null when the queue dropped the call or the quota was used up meanwhile.
+   */
+  enqueue<T>(methodName: string, deviceId: string | undefined, fn: () => Promise<T>, args: any[]): Promise<T | null> {
+    return this.requestQueue.run(methodName, this.getDebounceKey(methodName, deviceId, args), async () => {
+      if (this.quotaManager && !this.quotaManager.canMakeApiCall(methodName)) {
+        this.trackBlockedCall(methodName);
+        // Log at WARN level as requested by user
+        this.logger.warn(`Quota check failed during execution. Skipping API call: ${methodName}${deviceId ? ` for device ${deviceId}` : ''}${args.length > 0 ? ` with args ${JSON.stringify(args)}` : ''}`);
+        return null;
+      }
+
+      this.logger.debug(`Executing API call '${methodName}'`);
+
+      // Track method call counts for diagnostics
+      this.trackMethodCall(methodName);
+
+      // Record this API call in the quota manager
+      this.quotaManager?.recordApiCall(methodName);
+      return fn();
+    });
   }
   
   /**
@@ -73,6 +123,7 @@ class RateLimiter {
     // Increment the call count for this method
     const currentCount = this.methodCallCounts.get(methodName) || 0;
     this.methodCallCounts.set(methodName, currentCount + 1);
+    this.methodCallTotals.set(methodName, (this.methodCallTotals.get(methodName) || 0) + 1);
     
     // Log method call statistics periodically
     const now = Date.now();
@@ -82,6 +133,10 @@ class RateLimiter {
     }
   }
   
+  private trackBlockedCall(methodName: string): void {
+    this.blockedCallTotals.set(methodName, (this.blockedCallTotals.get(methodName) || 0) + 1);
+  }
+
   /**
    * Log method call statistics to help identify frequent API calls
    */
@@ -116,6 +171,7 @@ class RateLimiter {
   debounce<T>(methodName: string, deviceId: string | undefined, fn: () => Promise<T>, args: any[]): Promise<T | null> {
     // First check if we can make this API call based on quota
     if (this.quotaManager && !this.quotaManager.canMakeApiCall(methodName)) {
+      this.trackBlockedCall(methodName);
       // Log at WARN level as requested by user
       this.logger.warn(`Quota exceeded. Skipping API call: ${methodName}${deviceId ? ` for device ${deviceId}` : ''}${args.length > 0 ? ` with args ${JSON.stringify(args)}` : ''}`);
       return Promise.resolve(null);
@@ -145,15 +201,12 @@ class RateLimiter {
         }
 
         this.logger.debug(`Executing '${methodName}'${deviceId ? ` for device ${deviceId}` : ''} with args ${JSON.stringify(args)}`);
-        const canProceed = await this.rateLimit(methodName);
-        
-        if (!canProceed) {
-          // Log at WARN level as requested by user
-          this.logger.warn(`Quota check failed during execution. Skipping API call: ${methodName}${deviceId ? ` for device ${deviceId}` : ''}${args.length > 0 ? ` with args ${JSON.stringify(args)}` : ''}`);
+        const result = await this.enqueue(methodName, deviceId, fn, args);
+
+        // Skipped by the queue or the quota; nothing to reuse
+        if (result === null) {
           return null;
         }
-        
-        const result = await fn();
 
         // Store the result and set the debounce timer
         const timer = setTimeout(() => {
@@ -212,7 +265,9 @@ const createRateLimitedProxy = (target: any, rateLimiter: RateLimiter, deviceId?
         // Controlled interval methods
         'update',
         // Feature detection and configuration methods (don't make API calls)
-        'hasFeature', 'getMaxFanSpeed', 'isFeatureSupportedInCurrentMode'
+        'hasFeature', 'getMaxFanSpeed', 'isFeatureSupportedInCurrentMode',
+        // Quota and statistics helpers added to the proxy below
+        'updateQuotaDeviceCount', 'getQuotaStatus', 'getApiCallStats', 'getRequestQueueStats', 'flushQuotaLedger', 'flushQuotaLedgerSync', 'getRawDeviceList'
       ];
       
       const methodName = prop.toString();
@@ -232,8 +287,7 @@ const createRateLimitedProxy = (target: any, rateLimiter: RateLimiter, deviceId?
         ];
 
         if (noDebounceAPIMethods.includes(methodName)) {
-          await rateLimiter.rateLimit(methodName);
-          return value.apply(target, args);
+          return rateLimiter.enqueue(methodName, deviceId, () => value.apply(target, args), args);
         }
 
         // Everything else gets both rate limited and debounced
@@ -259,7 +313,9 @@ export const createRateLimitedVeSync = (
       enabled: boolean;
       bufferPercentage?: number;
       priorityMethods?: string[];
-    }
+      timeZone?: string;
+    };
+    quotaLedgerPath?: string;
   },
   session?: {
     store?: any;
@@ -283,11 +339,21 @@ export const createRateLimitedVeSync = (
   const quotaEnabled = config?.quotaManagement?.enabled ?? true;
   const quotaConfig = quotaEnabled ? {
     bufferPercentage: config?.quotaManagement?.bufferPercentage,
-    priorityMethods: config?.quotaManagement?.priorityMethods
+    priorityMethods: config?.quotaManagement?.priorityMethods,
+    timeZone: config?.quotaManagement?.timeZone,
+    ledgerPath: config?.quotaLedgerPath
   } : undefined;
   
   const rateLimiter = new RateLimiter(logger, 0, quotaConfig);
   
+  // Keep the device list as the cloud returned it, including models the library has no class for
+  let rawDeviceList: Record<string, any>[] = [];
+  const processDevices = client.processDevices;
+  client.processDevices = function (this: any, deviceList: Record<string, any>[]) {
+    rawDeviceList = Array.isArray(deviceList) ? deviceList.map(entry => ({ ...entry })) : [];
+    return processDevices.call(this, deviceList);
+  };
+
   // Create the proxy
   const proxy = createRateLimitedProxy(client, rateLimiter);
   
@@ -295,6 +361,24 @@ export const createRateLimitedVeSync = (
   (proxy as any).updateQuotaDeviceCount = (count: number) => {
     rateLimiter.updateDeviceCount(count);
   };
+
+  // Add a method to read quota usage (e.g. for poll scheduling)
+  (proxy as any).getQuotaStatus = () => rateLimiter.getQuotaStatus();
+
+  // Add a method to read per-method call counts (e.g. for metrics)
+  (proxy as any).getApiCallStats = () => rateLimiter.getCallStats();
+
+  // Add a method to read request queue depth and wait times (e.g. for metrics)
+  (proxy as any).getRequestQueueStats = () => rateLimiter.getQueueStats();
+
+  // Add a method to persist the quota ledger (e.g. on shutdown)
+  (proxy as any).flushQuotaLedger = () => rateLimiter.flushQuota();
+
+  // Add a method to persist the quota ledger synchronously (on shutdown)
+  (proxy as any).flushQuotaLedgerSync = () => rateLimiter.flushQuotaSync();
+
+  // Add a method to read the last raw device list (e.g. for unknown-device diagnostics)
+  (proxy as any).getRawDeviceList = () => rawDeviceList;
   
   return proxy;
 };
@@ -0,0 +1,133 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { PluginLogger } from './logger';
+
+/**
+ * Keys whose values identify the account, the user or a device, compared case-insensitively.
+ * Their values are replaced wherever they appear in a recorded payload.
+ */
+const REDACTED_KEYS = new Set([
+  'token', 'tk', 'accountid', 'userid', 'email', 'username', 'password', 'phone', 'nickname',
+  'authorizecode', 'biztoken', 'terminalid', 'traceid',
+  'cid', 'uuid', 'macid', 'mac', 'ip', 'ssid', 'devicename', 'subdevicename', 'deviceimg',
+]);
+
+export const REDACTED = '[REDACTED]';
+
+/**
+ * A copy of an API payload with identifying values replaced by `[REDACTED]`
+ */
+export function redactPayload<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(item => redactPayload(item)) as unknown as T;
+  }
+  if (value && typeof value === 'object') {
+    const redacted: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      redacted[key] = REDACTED_KEYS.has(key.toLowerCase()) && item !== null && item !== '' ? REDACTED : redactPayload(item);
+    }
+    return redacted as T;
+  }
+  return value;
+}
+
+/**
+ * One API call a device made while fetching its details
+ */
+export interface DetailsExchange {
+  endpoint: string;
+  method: string;
+  request: unknown;
+  status?: number;
+  response?: unknown;
+  error?: string;
+}
+
+/**
+ * Runs the device's `getDetails()` and records the API calls it makes. The library's device classes
+ * send every request through their `callApi` method, so it is wrapped on the instance for the
+ * duration of the call and then removed again.
+ */
+export async function captureDetails(device: any): Promise<DetailsExchange[]> {
+  const exchanges: DetailsExchange[] = [];
+  const original = Object.getPrototypeOf(device).callApi;
+  if (typeof device.getDetails !== 'function' || typeof original !== 'function') {
+    return exchanges;
+  }
+
+  device.callApi = async function (this: any, endpoint: string, method: string, data?: unknown, headers?: unknown) {
+    const exchange: DetailsExchange = { endpoint, method, request: data ?? null };
+    exchanges.push(exchange);
+    try {
+      const result = await original.call(this, endpoint, method, data, headers);
+      if (Array.isArray(result)) {
+        [exchange.response, exchange.status] = result;
+      } else {
+        exchange.response = result;
+      }
+      return result;
+    } catch (error: any) {
+      exchange.error = error?.message || String(error);
+      throw error;
+    }
+  };
+
+  try {
+    await device.getDetails();
+  } catch (error: any) {
+    if (exchanges.length === 0) {
+      exchanges.push({ endpoint: '', method: 'getDetails', request: null, error: error?.message || String(error) });
+    }
+  } finally {
+    delete device.callApi;
+  }
+  return exchanges;
+}
+
+/**
+ * Writes support diagnostics for devices the plugin does not know, one redacted JSON file per
+ * device under `tsvesync/diagnostics` in the Homebridge storage directory.
+ */
+export class DeviceDiagnostics {
+  private readonly dir: string;
+
+  constructor(storagePath: string, private readonly logger: PluginLogger) {
+    this.dir = path.join(storagePath, 'tsvesync', 'diagnostics');
+  }
+
+  /**
+   * Record a device's device-list entry and, when the library created a device object for it, the
+   * API calls its `getDetails()` makes. Returns the file written, or null if writing failed.
+   *
+   * @param deviceKey Stable device id (cid, or cid_subDeviceNo); only its hash ends up in the file name
+   * @param listEntry The device's raw entry from the device list
+   * @param device The library's device object, if it has one for this model
+   */
+  async record(deviceKey: string, listEntry: Record<string, any>, device?: unknown): Promise<string | null> {
+    const details = device ? await captureDetails(device) : null;
+    const deviceType = String(listEntry.deviceType ?? 'unknown');
+    const report = {
+      generatedAt: new Date().toISOString(),
+      deviceType,
+      type: listEntry.type ?? null,
+      deviceCategory: (device as any)?.deviceCategory ?? null,
+      note: device
+        ? undefined
+        : 'tsvesync has no device class for this model, so its details could not be requested',
+      deviceListEntry: redactPayload(listEntry),
+      details: details && redactPayload(details),
+    };
+
+    const hash = crypto.createHash('sha256').update(deviceKey).digest('hex').slice(0, 12);
+    const file = path.join(this.dir, `${deviceType.replace(/[^A-Za-z0-9._-]/g, '_')}-${hash}.json`);
+    try {
+      await fs.promises.mkdir(this.dir, { recursive: true });
+      await fs.promises.writeFile(file, JSON.stringify(report, null, 2));
+      return file;
+    } catch (error: any) {
+      this.logger.warn(`Failed to write device diagnostics to ${file}: ${error?.message || error}`);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { DeviceExclusion } from '../types/device.types';
+
+/**
+ * The device fields exclusion rules look at, as returned by the VeSync device list
+ */
+export interface ExcludableDevice {
+  deviceName: string;
+  deviceType: string;
+  cid: string;
+  uuid?: string;
+}
+
+/**
+ * The exclusion rule that matched a device, and what it matched on
+ */
+export interface ExclusionMatch {
+  rule: keyof DeviceExclusion;
+  value: string;
+}
+
+/**
+ * Find the first `exclude` rule matching a device, checked in the order type, model, name, name
+ * pattern, id. Invalid name patterns are reported through `onInvalidPattern` and skipped.
+ */
+export function findExclusionMatch(
+  device: ExcludableDevice,
+  exclude: DeviceExclusion | undefined,
+  onInvalidPattern?: (pattern: string) => void,
+): ExclusionMatch | undefined {
+  if (!exclude) {
+    return undefined;
+  }
+
+  // Check device type
+  if (exclude.type?.includes(device.deviceType.toLowerCase())) {
+    return { rule: 'type', value: device.deviceType };
+  }
+
+  // Check device model
+  const model = exclude.model?.find(model => device.deviceType.toUpperCase().includes(model.toUpperCase()));
+  if (model !== undefined) {
+    return { rule: 'model', value: model };
+  }
+
+  // Check exact name match
+  const name = device.deviceName.trim();
+  if (exclude.name?.includes(name)) {
+    return { rule: 'name', value: name };
+  }
+
+  // Check name patterns
+  for (const pattern of exclude.namePattern ?? []) {
+    try {
+      if (new RegExp(pattern).test(name)) {
+        return { rule: 'namePattern', value: pattern };
+      }
+    } catch {
+      onInvalidPattern?.(pattern);
+    }
+  }
+
+  // Check device ID (cid or uuid)
+  if (exclude.id?.includes(device.cid)) {
+    return { rule: 'id', value: device.cid };
+  }
+  if (device.uuid && exclude.id?.includes(device.uuid)) {
+    return { rule: 'id', value: device.uuid };
+  }
+
+  return undefined;
+}
@@ -16,69 +16,23 @@ import {
   VeSyncBulb,
   VeSyncDimmerSwitch,
   VeSyncOutlet,
-  VeSyncSwitch
+  VeSyncSwitch,
+  AccessoryCategoryName
 } from '../types/device.types';
+import { DEFAULT_MODEL_REGISTRY, ModelRegistry } from './model-registry';
 
-// Device model constants
-const AIR_PURIFIER_MODELS = [
-  'Core200S', 'Core300S', 'Core400S', 'Core600S',
-  'Vital100S', 'Vital200S', 'LV-PUR131S', 'LV-RH131S',
-  'EverestAir'
-];
-
-const HUMIDIFIER_MODELS = [
-  'Classic200S', 'Classic300S', 'Dual200S', 'LV600S',
-  'OasisMist', 'OasisMist600S', 'Superior6000S',
-  'OasisMist1000S'
-];
-
-const FAN_MODELS = ['LTF-F422'];
-
-const OUTLET_MODELS = [
-  'ESO15-TB', 'ESW15-USA', 'ESW03-USA', 'ESW01-EU',
-  'ESW10-USA', 'wifi-switch-1.3'
-];
-
-const SWITCH_MODELS = ['ESWL01', 'ESWL03'];
-
-const DIMMER_MODELS = ['ESWD16'];
+const CATEGORIES: Record<AccessoryCategoryName, Categories> = {
+  AIR_PURIFIER: Categories.AIR_PURIFIER,
+  AIR_HUMIDIFIER: Categories.AIR_HUMIDIFIER,
+  FAN: Categories.FAN,
+  LIGHTBULB: Categories.LIGHTBULB,
+  OUTLET: Categories.OUTLET,
+  SWITCH: Categories.SWITCH,
+};
 
 export class DeviceFactory {
-  private static modelMatches(deviceType: string, models: string[]): boolean {
-    const upperDeviceType = deviceType.toUpperCase();
-    return models.some(model => upperDeviceType.includes(model.toUpperCase()));
-  }
-
-  static isAirPurifier(deviceType: string): boolean {
-    return deviceType.startsWith('LAP-') || 
-           this.modelMatches(deviceType, AIR_PURIFIER_MODELS);
-  }
-
-  private static isHumidifier(deviceType: string): boolean {
-    return deviceType.startsWith('LUH-') || 
-           deviceType.startsWith('LEH-') ||
-           this.modelMatches(deviceType, HUMIDIFIER_MODELS);
-  }
-
-  private static isFan(deviceType: string): boolean {
-    return deviceType.startsWith('LTF-') || 
-           this.modelMatches(deviceType, FAN_MODELS);
-  }
-
-  private static isBulb(deviceType: string): boolean {
-    return deviceType.startsWith('ESL') || deviceType === 'XYD0001';
-  }
-
-  private static isDimmer(deviceType: string): boolean {
-    return this.modelMatches(deviceType, DIMMER_MODELS);
-  }
-
-  private static isOutlet(deviceType: string): boolean {
-    return this.modelMatches(deviceType, OUTLET_MODELS);
-  }
-
-  private static isSwitch(deviceType: string): boolean {
-    return this.modelMatches(deviceType, SWITCH_MODELS);
+  static isAirPurifier(deviceType: string, registry: ModelRegistry = DEFAULT_MODEL_REGISTRY): boolean {
+    return registry.getDeviceTypeKey(deviceType) === 'airPurifier';
   }
 
   static createAccessory(
@@ -86,77 +40,31 @@ export class DeviceFactory {
     accessory: PlatformAccessory,
     device: VeSyncBaseDevice
   ): BaseAccessory {
-    const deviceType = device.deviceType.toUpperCase();
-
-    // Air Purifiers
-    if (this.isAirPurifier(deviceType)) {
-      return new AirPurifierAccessory(platform, accessory, device as VeSyncAirPurifier);
-    }
-
-    // Humidifiers
-    if (this.isHumidifier(deviceType)) {
-      return new HumidifierAccessory(platform, accessory, device as VeSyncHumidifier);
-    }
-
-    // Fans
-    if (this.isFan(deviceType)) {
-      return new FanAccessory(platform, accessory, device as VeSyncFan);
-    }
-
-    // Dimmers
-    if (this.isDimmer(deviceType)) {
-      return new LightAccessory(platform, accessory, device as VeSyncDimmerSwitch);
-    }
-
-    // Bulbs
-    if (this.isBulb(deviceType)) {
-      return new LightAccessory(platform, accessory, device as VeSyncBulb);
-    }
-
-    // Outlets
-    if (this.isOutlet(deviceType)) {
-      return new OutletAccessory(platform, accessory, device as VeSyncOutlet);
+    switch (platform.modelRegistry.getDeviceTypeKey(device.deviceType)) {
+      case 'airPurifier':
+        return new AirPurifierAccessory(platform, accessory, device as VeSyncAirPurifier);
+      case 'humidifier':
+        return new HumidifierAccessory(platform, accessory, device as VeSyncHumidifier);
+      case 'fan':
+        return new FanAccessory(platform, accessory, device as VeSyncFan);
+      case 'light':
+        return new LightAccessory(platform, accessory, device as VeSyncBulb | VeSyncDimmerSwitch);
+      case 'outlet':
+        return new OutletAccessory(platform, accessory, device as VeSyncOutlet);
+      case 'switch':
+        return new SwitchAccessory(platform, accessory, device as VeSyncSwitch);
     }
 
-    // Switches
-    if (this.isSwitch(deviceType)) {
-      return new SwitchAccessory(platform, accessory, device as VeSyncSwitch);
-    }
-  
-    // Default to outlet for unknown devices
-    platform.log.warn(`Unknown device type: ${deviceType}, defaulting to outlet`);
-    return new OutletAccessory(platform, accessory, device as VeSyncOutlet);
+    // The platform only hands over unknown devices under the power-switch-only policy
+    platform.log.warn(`Unknown device type: ${device.deviceType.toUpperCase()}, bridging as a power switch`);
+    return new SwitchAccessory(platform, accessory, device as VeSyncSwitch);
   }
 
-  static getAccessoryCategory(deviceType: string): Categories {
-    const type = deviceType.toUpperCase();
-
-    if (this.isAirPurifier(type)) {
-      return Categories.AIR_PURIFIER;
-    }
-
-    if (this.isHumidifier(type)) {
-      return Categories.AIR_HUMIDIFIER;
-    }
-
-    if (this.isFan(type)) {
-      return Categories.FAN;
-    }
-
-    if (this.isDimmer(type) || this.isBulb(type)) {
-      return Categories.LIGHTBULB;
-    }
-
-    if (this.isSwitch(type)) {
-      return Categories.SWITCH;
-    }
-
-    if (this.isOutlet(type)) {
-      return Categories.OUTLET;
-    }
+  static getAccessoryCategory(deviceType: string, registry: ModelRegistry = DEFAULT_MODEL_REGISTRY): Categories {
+    const category = registry.getCategoryName(deviceType);
 
-    // Default to outlet for unknown devices
-    return Categories.OUTLET;
+    // Unknown devices are bridged as power switches
+    return category ? CATEGORIES[category] : Categories.SWITCH;
   }
 
   static createAQSensorAccessory(
@@ -165,11 +73,22 @@ export class DeviceFactory {
     device: VeSyncBaseDevice
   ): BaseAccessory | null {
     const deviceType = device.deviceType.toUpperCase();
-    
+    const definition = platform.modelRegistry.resolve(device.deviceType);
+
     // Only create AQ sensor for air purifier devices with AQ support
-    if (this.isAirPurifier(deviceType)) {
+    if (definition?.type === 'airPurifier') {
       // Check if device has the air_quality feature
       const extendedDevice = device as any;
+
+      // Features from the model registry take precedence
+      if (definition.features) {
+        if (definition.features.includes('air_quality')) {
+          platform.log.debug(`Creating AQ sensor for ${device.deviceName} - model registry lists air_quality`);
+          return new AirQualitySensorAccessory(platform, accessory, device);
+        }
+        platform.log.debug(`Not creating AQ sensor for ${device.deviceName} - model registry does not list air_quality`);
+        return null;
+      }
       
       // Use the device's native feature detection if available
       if (typeof extendedDevice.hasFeature === 'function' && extendedDevice.hasFeature('air_quality')) {
@@ -0,0 +1,251 @@
+import fs from 'fs';
+import path from 'path';
+import { PluginLogger } from './logger';
+
+/**
+ * One history entry: the average power over a 10-minute slot starting at `time` (Unix seconds)
+ */
+export interface EnergySample {
+  time: number;
+  power: number;
+}
+
+interface EnergyHistoryData {
+  // Unix time of the first sample ever recorded; Eve entry times are offsets from it
+  refTime?: number;
+  // History address of samples[0]; the Eve app resumes downloads by address, so it survives restarts
+  firstAddress: number;
+  samples: EnergySample[];
+  // kWh accumulated since the last reset
+  totalEnergy: number;
+  // Eve's reset timestamp, in seconds since 2001-01-01
+  resetTime: number;
+  // The last energy reading and when it was taken, to accumulate the daily counter into the total
+  lastEnergy?: number;
+  lastReadingTime?: number;
+  // Readings averaged into the last sample, so its average carries on after a restart
+  readings?: number;
+}
+
+export interface EnergyReading {
+  time: number;     // Unix seconds
+  power?: number;   // W
+  energy?: number;  // kWh so far today, as VeSync reports it
+}
+
+export const SAMPLE_INTERVAL = 10 * 60;
+// Coalesce history writes to at most one per sample; shutdown writes whatever is still pending
+const HISTORY_WRITE_DELAY = SAMPLE_INTERVAL * 1000;
+// Longest gap between two readings that is bridged by repeating the earlier power value
+const MAX_FILLED_GAP = 60 * 60;
+// Longest gap between two readings that power alone is integrated across
+const MAX_INTEGRATED_GAP = 60 * 60;
+
+/**
+ * kWh used between the previous reading and this one. VeSync reports energy as a counter that starts
+ * again each day, so its increase is used, or the whole reading once it has dropped back after
+ * midnight. Without an energy reading, power is integrated over the time since the last reading.
+ *
+ * @param lastEnergy The previous reading's energy value, if it had one
+ * @param lastReadingTime When the previous reading was taken, in Unix seconds
+ */
+export function energyUsedSince(lastEnergy: number | undefined, lastReadingTime: number | undefined, reading: EnergyReading): number {
+  if (reading.energy !== undefined) {
+    if (lastEnergy === undefined) {
+      return 0;
+    }
+    return reading.energy >= lastEnergy ? reading.energy - lastEnergy : reading.energy;
+  }
+  if (reading.power !== undefined && lastReadingTime !== undefined) {
+    const elapsed = reading.time - lastReadingTime;
+    if (elapsed > 0 && elapsed <= MAX_INTEGRATED_GAP) {
+      return reading.power * elapsed / 3600 / 1000;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Energy history of one outlet, kept on disk in `tsvesync/history`. Holds 10-minute power samples
+ * for the Eve app's graphs and a running total consumption that survives restarts and VeSync's
+ * daily counter resets.
+ */
+export class EnergyHistory {
+  /** Number of history entries the Eve app is told the accessory keeps, including the reference entry */
+  static readonly MEMORY_SIZE = 4032;
+
+  private data: EnergyHistoryData = { firstAddress: 2, samples: [], totalEnergy: 0, resetTime: 0 };
+  private saveTimer?: NodeJS.Timeout;
+  private saveInProgress: Promise<void> | null = null;
+  // Set once the history was written at shutdown; later async writes would only put an older one back
+  private closed = false;
+
+  constructor(private readonly file: string, private readonly logger: PluginLogger) {}
+
+  static forDevice(storagePath: string, deviceKey: string, logger: PluginLogger): EnergyHistory {
+    const fileName = `energy-${deviceKey.replace(/[^A-Za-z0-9._-]/g, '_')}.json`;
+    return new EnergyHistory(path.join(storagePath, 'tsvesync', 'history', fileName), logger);
+  }
+
+  get samples(): readonly EnergySample[] {
+    return this.data.samples;
+  }
+
+  get refTime(): number | undefined {
+    return this.data.refTime;
+  }
+
+  get firstAddress(): number {
+    return this.data.firstAddress;
+  }
+
+  get totalEnergy(): number {
+    return this.data.totalEnergy;
+  }
+
+  get resetTime(): number {
+    return this.data.resetTime;
+  }
+
+  async load(): Promise<void> {
+    try {
+      const data = JSON.parse(await fs.promises.readFile(this.file, 'utf8')) as Partial<EnergyHistoryData>;
+      if (Array.isArray(data?.samples) && typeof data.firstAddress === 'number') {
+        this.data = { ...this.data, ...data } as EnergyHistoryData;
+      }
+    } catch (e: any) {
+      if (e?.code !== 'ENOENT') {
+        this.logger.debug(`Energy history load error for ${this.file}: ${e?.message || e}`);
+      }
+    }
+  }
+
+  /**
+   * Add a reading. Returns true when it started a new 10-minute sample.
+   */
+  addReading(reading: EnergyReading): boolean {
+    this.accumulateTotal(reading);
+    if (reading.power === undefined) {
+      return false;
+    }
+
+    const slot = Math.floor(reading.time / SAMPLE_INTERVAL) * SAMPLE_INTERVAL;
+    const samples = this.data.samples;
+    const last = samples[samples.length - 1];
+    if (last && slot <= last.time) {
+      // Average the readings that fall in the same slot
+      const readings = (this.data.readings ?? 0) + 1;
+      last.power = last.power + (reading.power - last.power) / readings;
+      this.data.readings = readings;
+      return false;
+    }
+
+    if (last && slot - last.time <= MAX_FILLED_GAP) {
+      for (let time = last.time + SAMPLE_INTERVAL; time < slot; time += SAMPLE_INTERVAL) {
+        samples.push({ time, power: last.power });
+      }
+    }
+    samples.push({ time: slot, power: reading.power });
+    this.data.readings = 1;
+    this.data.refTime ??= slot;
+
+    const excess = samples.length - (EnergyHistory.MEMORY_SIZE - 1);
+    if (excess > 0) {
+      samples.splice(0, excess);
+      this.data.firstAddress += excess;
+    }
+    return true;
+  }
+
+  /**
+   * Set the total consumption back to zero, as the Eve app's reset action does
+   *
+   * @param resetTime Eve's reset timestamp, in seconds since 2001-01-01
+   */
+  reset(resetTime: number): void {
+    this.data.totalEnergy = 0;
+    this.data.resetTime = resetTime;
+  }
+
+  /**
+   * Write the history once the write delay has passed, together with any readings added meanwhile
+   */
+  scheduleSave(): void {
+    if (this.saveTimer || this.closed) {
+      return;
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      void this.flush();
+    }, HISTORY_WRITE_DELAY);
+    this.saveTimer.unref?.();
+  }
+
+  /**
+   * Write the history now
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    while (this.saveInProgress) {
+      await this.saveInProgress;
+    }
+    if (this.closed) {
+      return;
+    }
+    this.saveInProgress = (async () => {
+      const tmp = this.file + '.tmp';
+      try {
+        await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+        await fs.promises.writeFile(tmp, JSON.stringify(this.data), 'utf8');
+        if (this.closed) {
+          await fs.promises.unlink(tmp).catch(() => undefined);
+          return;
+        }
+        await fs.promises.rename(tmp, this.file);
+      } catch (e: any) {
+        this.logger.warn(`Failed to save energy history to ${this.file}: ${e?.message || e}`);
+      } finally {
+        this.saveInProgress = null;
+      }
+    })();
+    await this.saveInProgress;
+  }
+
+  /**
+   * Write a pending save synchronously, for shutdown, where Homebridge doesn't wait for pending writes
+   */
+  flushSync(): void {
+    if (this.closed) {
+      return;
+    }
+    // Nothing changed since the last write, unless a save is waiting or still being written
+    const pending = this.saveTimer !== undefined || this.saveInProgress !== null;
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    this.closed = true;
+    if (!pending) {
+      return;
+    }
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      const tmp = this.file + '.shutdown.tmp';
+      fs.writeFileSync(tmp, JSON.stringify(this.data), 'utf8');
+      fs.renameSync(tmp, this.file);
+    } catch (e: any) {
+      this.logger.warn(`Failed to save energy history to ${this.file}: ${e?.message || e}`);
+    }
+  }
+
+  private accumulateTotal(reading: EnergyReading): void {
+    this.data.totalEnergy += energyUsedSince(this.data.lastEnergy, this.data.lastReadingTime, reading);
+    if (reading.energy !== undefined) {
+      this.data.lastEnergy = reading.energy;
+    }
+    this.data.lastReadingTime = reading.time;
+  }
+}
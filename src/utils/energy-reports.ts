@@ -0,0 +1,397 @@
+import fs from 'fs';
+import path from 'path';
+import { PluginLogger } from './logger';
+import { EnergyReading, energyUsedSince } from './energy-history';
+import { EnergyReportsConfig, TariffPeriod } from '../types/device.types';
+
+const HOUR = 60 * 60;
+// Hourly usage older than this is dropped from the store
+const RETENTION_DAYS = 400;
+const REPORTED_DAYS = 31;
+const REPORTED_WEEKS = 12;
+const REPORTED_MONTHS = 12;
+const USAGE_WRITE_DELAY = 60 * 1000; // Coalesce usage writes from the readings of many outlets
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+interface DeviceUsage {
+  name: string;
+  lastEnergy?: number;
+  lastReadingTime?: number;
+  // kWh used in each hour, keyed by the hour's start in Unix seconds
+  hours: Record<string, number>;
+}
+
+interface EnergyUsageData {
+  devices: Record<string, DeviceUsage>;
+  // Local day the last daily summary was logged for
+  lastSummaryDay?: string;
+}
+
+/**
+ * kWh and cost over one day, week (keyed by its Monday) or month
+ */
+export interface EnergyUsagePeriod {
+  period: string;
+  kWh: number;
+  cost: number;
+}
+
+export interface DeviceEnergyReport {
+  id: string;
+  name: string;
+  daily: EnergyUsagePeriod[];
+  weekly: EnergyUsagePeriod[];
+  monthly: EnergyUsagePeriod[];
+}
+
+export interface EnergyReport {
+  generatedAt: string;
+  timeZone: string;
+  currency?: string;
+  devices: DeviceEnergyReport[];
+}
+
+interface LocalTime {
+  day: string;      // YYYY-MM-DD
+  week: string;     // YYYY-MM-DD of the Monday starting the week
+  month: string;    // YYYY-MM
+  weekday: string;  // sun..sat
+  minutes: number;  // Minutes since local midnight
+}
+
+interface ResolvedPeriod {
+  start: number;
+  end: number;
+  rate: number;
+  days?: string[];
+}
+
+const round = (value: number, digits: number): number => Number(value.toFixed(digits));
+
+const parseTime = (value: unknown): number | undefined => {
+  const match = typeof value === 'string' ? /^([01]?\d|2[0-4]):([0-5]\d)$/.exec(value) : null;
+  if (!match) {
+    return undefined;
+  }
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return minutes <= 24 * 60 ? minutes : undefined;
+};
+
+/**
+ * Records the energy outlets use into hourly buckets kept in `tsvesync/energy-usage.json`, prices it
+ * with a flat or time-of-use tariff, and writes daily, weekly and monthly summaries to
+ * `tsvesync/energy-report.json`.
+ *
+ * Usage is written a minute after a reading at most, and the report file is rebuilt with the first
+ * write in each hour; `buildReport` builds an up-to-date one on request.
+ */
+export class EnergyReports {
+  private readonly usageFile: string;
+  private readonly reportFile: string;
+  private readonly timeZone: string;
+  private readonly flatRate: number;
+  private readonly periods: ResolvedPeriod[];
+  private readonly formatter: Intl.DateTimeFormat;
+  private readonly ready: Promise<void>;
+  private data: EnergyUsageData = { devices: {} };
+  private saveTimer?: NodeJS.Timeout;
+  private saveInProgress: Promise<void> | null = null;
+  // Set once the files were written at shutdown; later async writes would only put older usage back
+  private closed = false;
+  // Start of the hour the report file was last written in, in Unix seconds
+  private reportHour?: number;
+  // Local times of hour starts, which never change for a timezone
+  private readonly localHours = new Map<number, LocalTime>();
+
+  constructor(
+    private readonly config: EnergyReportsConfig,
+    storagePath: string,
+    private readonly logger: PluginLogger,
+  ) {
+    this.usageFile = path.join(storagePath, 'tsvesync', 'energy-usage.json');
+    this.reportFile = path.join(storagePath, 'tsvesync', 'energy-report.json');
+    this.timeZone = this.resolveTimeZone(config.timeZone);
+    this.flatRate = Number.isFinite(config.rate) && config.rate! >= 0 ? config.rate! : 0;
+    this.periods = (config.periods ?? [])
+      .map(period => this.resolvePeriod(period))
+      .filter((period): period is ResolvedPeriod => period !== undefined);
+    this.formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: this.timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      weekday: 'short',
+    });
+    this.ready = this.load();
+  }
+
+  /**
+   * Add an outlet reading to its hourly usage, log yesterday's summary once a new day has started,
+   * and schedule saving the usage.
+   *
+   * @param id Device id (cid) the usage is stored under
+   * @param name Name shown in the report and log summary
+   */
+  async record(id: string, name: string, reading: EnergyReading): Promise<void> {
+    await this.ready;
+    const device = this.data.devices[id] ??= { name, hours: {} };
+    device.name = name;
+
+    const used = energyUsedSince(device.lastEnergy, device.lastReadingTime, reading);
+    if (used > 0) {
+      const hour = String(Math.floor(reading.time / HOUR) * HOUR);
+      device.hours[hour] = (device.hours[hour] ?? 0) + used;
+    }
+    if (reading.energy !== undefined) {
+      device.lastEnergy = reading.energy;
+    }
+    device.lastReadingTime = reading.time;
+
+    this.prune(reading.time);
+    this.logDailySummary(reading.time);
+    this.scheduleSave();
+  }
+
+  /**
+   * Usage and cost per device for recent days, weeks and months, newest first
+   */
+  buildReport(now = new Date()): EnergyReport {
+    const devices = Object.entries(this.data.devices).map(([id, device]) => {
+      const daily = new Map<string, EnergyUsagePeriod>();
+      const weekly = new Map<string, EnergyUsagePeriod>();
+      const monthly = new Map<string, EnergyUsagePeriod>();
+      for (const [hour, kWh] of Object.entries(device.hours)) {
+        const local = this.localHour(Number(hour));
+        const cost = kWh * this.rateAt(local);
+        for (const [periods, key] of [[daily, local.day], [weekly, local.week], [monthly, local.month]] as const) {
+          const total = periods.get(key) ?? { period: key, kWh: 0, cost: 0 };
+          total.kWh += kWh;
+          total.cost += cost;
+          periods.set(key, total);
+        }
+      }
+      const newest = (periods: Map<string, EnergyUsagePeriod>, count: number) => [...periods.values()]
+        .sort((a, b) => b.period.localeCompare(a.period))
+        .slice(0, count)
+        .map(total => ({ period: total.period, kWh: round(total.kWh, 3), cost: round(total.cost, 2) }));
+      return {
+        id,
+        name: device.name,
+        daily: newest(daily, REPORTED_DAYS),
+        weekly: newest(weekly, REPORTED_WEEKS),
+        monthly: newest(monthly, REPORTED_MONTHS),
+      };
+    });
+
+    return {
+      generatedAt: now.toISOString(),
+      timeZone: this.timeZone,
+      currency: this.config.currency,
+      devices,
+    };
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const data = JSON.parse(await fs.promises.readFile(this.usageFile, 'utf8')) as Partial<EnergyUsageData>;
+      if (data?.devices && typeof data.devices === 'object') {
+        this.data = { devices: data.devices, lastSummaryDay: data.lastSummaryDay };
+      }
+    } catch (e: any) {
+      if (e?.code !== 'ENOENT') {
+        this.logger.debug(`Energy usage load error for ${this.usageFile}: ${e?.message || e}`);
+      }
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) {
+      return;
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      void this.flush();
+    }, USAGE_WRITE_DELAY);
+    this.saveTimer.unref?.();
+  }
+
+  /**
+   * Write the usage now, and the report if it was last written in an earlier hour
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    await this.ready;
+    while (this.saveInProgress) {
+      await this.saveInProgress;
+    }
+    if (this.closed) {
+      return;
+    }
+    this.saveInProgress = (async () => {
+      try {
+        await fs.promises.mkdir(path.dirname(this.usageFile), { recursive: true });
+        await this.writeFile(this.usageFile, JSON.stringify(this.data));
+        const hour = Math.floor(Date.now() / 1000 / HOUR) * HOUR;
+        if (this.reportHour !== hour) {
+          await this.writeFile(this.reportFile, JSON.stringify(this.buildReport(), null, 2));
+          this.reportHour = hour;
+        }
+      } catch (e: any) {
+        this.logger.warn(`Failed to save energy usage: ${e?.message || e}`);
+      } finally {
+        this.saveInProgress = null;
+      }
+    })();
+    await this.saveInProgress;
+  }
+
+  /**
+   * Write the usage and the report synchronously, for shutdown, where Homebridge doesn't wait for
+   * pending writes
+   */
+  flushSync(): void {
+    if (this.closed) {
+      return;
+    }
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    this.closed = true;
+    try {
+      fs.mkdirSync(path.dirname(this.usageFile), { recursive: true });
+      for (const [file, content] of [
+        [this.usageFile, JSON.stringify(this.data)],
+        [this.reportFile, JSON.stringify(this.buildReport(), null, 2)],
+      ]) {
+        const tmp = file + '.shutdown.tmp';
+        fs.writeFileSync(tmp, content, 'utf8');
+        fs.renameSync(tmp, file);
+      }
+    } catch (e: any) {
+      this.logger.warn(`Failed to save energy usage: ${e?.message || e}`);
+    }
+  }
+
+  private async writeFile(file: string, content: string): Promise<void> {
+    const tmp = file + '.tmp';
+    await fs.promises.writeFile(tmp, content, 'utf8');
+    if (this.closed) {
+      await fs.promises.unlink(tmp).catch(() => undefined);
+      return;
+    }
+    await fs.promises.rename(tmp, file);
+  }
+
+  /**
+   * Log each device's usage for the previous day, the first time a reading arrives on a new day
+   */
+  private logDailySummary(time: number): void {
+    const today = this.localTime(time).day;
+    const { lastSummaryDay } = this.data;
+    this.data.lastSummaryDay = today;
+    if (lastSummaryDay === undefined || lastSummaryDay === today || this.config.logSummary === false) {
+      return;
+    }
+
+    const yesterday = this.localTime(time - 24 * HOUR).day;
+    for (const device of this.buildReport().devices) {
+      const usage = device.daily.find(total => total.period === yesterday);
+      if (usage) {
+        const cost = this.config.currency ? `${usage.cost.toFixed(2)} ${this.config.currency}` : usage.cost.toFixed(2);
+        this.logger.info(`Energy used on ${yesterday} by ${device.name}: ${usage.kWh} kWh, cost ${cost}`);
+      }
+    }
+  }
+
+  private prune(time: number): void {
+    const cutoff = time - RETENTION_DAYS * 24 * HOUR;
+    for (const device of Object.values(this.data.devices)) {
+      for (const hour of Object.keys(device.hours)) {
+        if (Number(hour) < cutoff) {
+          delete device.hours[hour];
+        }
+      }
+    }
+    for (const hour of this.localHours.keys()) {
+      if (hour < cutoff) {
+        this.localHours.delete(hour);
+      }
+    }
+  }
+
+  /**
+   * Price per kWh at a local time: the first time-of-use period covering it, else the flat rate
+   */
+  private rateAt(local: LocalTime): number {
+    const period = this.periods.find(candidate => {
+      if (candidate.days && !candidate.days.includes(local.weekday)) {
+        return false;
+      }
+      return candidate.start <= candidate.end
+        ? local.minutes >= candidate.start && local.minutes < candidate.end
+        : local.minutes >= candidate.start || local.minutes < candidate.end;
+    });
+    return period?.rate ?? this.flatRate;
+  }
+
+  private localHour(hour: number): LocalTime {
+    let local = this.localHours.get(hour);
+    if (!local) {
+      local = this.localTime(hour);
+      this.localHours.set(hour, local);
+    }
+    return local;
+  }
+
+  private localTime(time: number): LocalTime {
+    const parts = this.formatter.formatToParts(new Date(time * 1000));
+    const part = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+    const [year, month, day] = [Number(part('year')), Number(part('month')), Number(part('day'))];
+    const weekday = part('weekday').slice(0, 3).toLowerCase();
+    const monday = new Date(Date.UTC(year, month - 1, day - (WEEKDAYS.indexOf(weekday) + 6) % 7));
+    return {
+      day: `${part('year')}-${part('month')}-${part('day')}`,
+      week: monday.toISOString().slice(0, 10),
+      month: `${part('year')}-${part('month')}`,
+      weekday,
+      minutes: Number(part('hour')) * 60 + Number(part('minute')),
+    };
+  }
+
+  private resolvePeriod(period: TariffPeriod): ResolvedPeriod | undefined {
+    const start = parseTime(period?.start);
+    const end = parseTime(period?.end);
+    const days = period?.days?.map(day => String(day).slice(0, 3).toLowerCase());
+    if (start === undefined || end === undefined || !Number.isFinite(period.rate) || period.rate < 0 ||
+        days?.some(day => !WEEKDAYS.includes(day))) {
+      this.logger.warn(`Ignoring invalid energy tariff period ${JSON.stringify(period)}`);
+      return undefined;
+    }
+    return { start, end, rate: period.rate, days };
+  }
+
+  /**
+   * Validate the configured report timezone, falling back to the host's
+   */
+  private resolveTimeZone(timeZone?: string): string {
+    const hostTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    if (!timeZone) {
+      return hostTimeZone;
+    }
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return timeZone;
+    } catch {
+      this.logger.warn(`Invalid energy report timezone "${timeZone}"; using ${hostTimeZone}`);
+      return hostTimeZone;
+    }
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Eve app energy characteristics and history for outlets that report power.
+ *
+ * Eve reads Consumption, Voltage and Total Consumption from its own characteristic UUIDs on the
+ * Outlet service, and downloads graph data from a hidden history service in the format FakeGato
+ * documented: a status record, then entries fetched by address in batches.
+ */
+import { Characteristic, CharacteristicValue, Formats, HAP, Perms, PlatformAccessory, Service } from 'homebridge';
+import { EnergyHistory, EnergyReading } from './energy-history';
+
+// Eve timestamps count seconds from 2001-01-01
+export const EVE_EPOCH_OFFSET = 978307200;
+
+const HISTORY_SERVICE_UUID = 'E863F007-079E-48FF-8F27-9C2605A29F52';
+
+interface EveCharacteristicDefinition {
+  name: string;
+  uuid: string;
+  format: Formats;
+  perms: Perms[];
+  unit?: string;
+  minValue?: number;
+  maxValue?: number;
+  minStep?: number;
+}
+
+const READ = [Perms.PAIRED_READ, Perms.NOTIFY];
+const READ_WRITE = [Perms.PAIRED_READ, Perms.PAIRED_WRITE, Perms.NOTIFY];
+const HIDDEN_READ = [Perms.PAIRED_READ, Perms.NOTIFY, Perms.HIDDEN];
+const HIDDEN_WRITE = [Perms.PAIRED_WRITE, Perms.HIDDEN];
+
+const CONSUMPTION: EveCharacteristicDefinition = {
+  name: 'Consumption', uuid: 'E863F10D-079E-48FF-8F27-9C2605A29F52', format: Formats.FLOAT, perms: READ,
+  unit: 'W', minValue: 0, maxValue: 100000, minStep: 0.1,
+};
+const TOTAL_CONSUMPTION: EveCharacteristicDefinition = {
+  name: 'Total Consumption', uuid: 'E863F10C-079E-48FF-8F27-9C2605A29F52', format: Formats.FLOAT, perms: READ,
+  unit: 'kWh', minValue: 0, maxValue: 1000000000, minStep: 0.001,
+};
+const VOLTAGE: EveCharacteristicDefinition = {
+  name: 'Voltage', uuid: 'E863F10A-079E-48FF-8F27-9C2605A29F52', format: Formats.FLOAT, perms: READ,
+  unit: 'V', minValue: 0, maxValue: 1000, minStep: 0.1,
+};
+const RESET_TOTAL: EveCharacteristicDefinition = {
+  name: 'Reset Total', uuid: 'E863F112-079E-48FF-8F27-9C2605A29F52', format: Formats.UINT32, perms: READ_WRITE,
+};
+const HISTORY_STATUS: EveCharacteristicDefinition = {
+  name: 'History Status', uuid: 'E863F116-079E-48FF-8F27-9C2605A29F52', format: Formats.DATA, perms: HIDDEN_READ,
+};
+const HISTORY_ENTRIES: EveCharacteristicDefinition = {
+  name: 'History Entries', uuid: 'E863F117-079E-48FF-8F27-9C2605A29F52', format: Formats.DATA, perms: HIDDEN_READ,
+};
+const HISTORY_REQUEST: EveCharacteristicDefinition = {
+  name: 'History Request', uuid: 'E863F11C-079E-48FF-8F27-9C2605A29F52', format: Formats.DATA, perms: HIDDEN_WRITE,
+};
+const SET_TIME: EveCharacteristicDefinition = {
+  name: 'Set Time', uuid: 'E863F121-079E-48FF-8F27-9C2605A29F52', format: Formats.DATA, perms: HIDDEN_WRITE,
+};
+
+// Identifies the entries as Eve Energy power samples
+const ENERGY_SIGNATURE = '040102020207020f03';
+// Entries sent per read of History Entries
+const ENTRIES_PER_READ = 11;
+
+const hex32 = (value: number): string => {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(Math.max(0, Math.round(value)) >>> 0);
+  return buffer.toString('hex');
+};
+
+const hex16 = (value: number): string => {
+  const buffer = Buffer.alloc(2);
+  buffer.writeUInt16LE(Math.min(0xffff, Math.max(0, Math.round(value))));
+  return buffer.toString('hex');
+};
+
+const toBase64 = (hex: string): string => Buffer.from(hex, 'hex').toString('base64');
+
+/**
+ * The History Status value: time of the last entry, reference time, and the range of addresses held.
+ * The reference entry sits just before the oldest sample.
+ */
+export function encodeHistoryStatus(history: EnergyHistory): string {
+  const samples = history.samples;
+  const refTime = history.refTime;
+  const last = samples[samples.length - 1];
+  return toBase64(
+    hex32(last && refTime !== undefined ? last.time - refTime : 0) +
+    '00000000' +
+    hex32(refTime !== undefined ? refTime - EVE_EPOCH_OFFSET : 0) +
+    ENERGY_SIGNATURE +
+    hex16(samples.length > 0 ? samples.length + 1 : 0) +
+    hex16(EnergyHistory.MEMORY_SIZE) +
+    hex32(history.firstAddress - 2) +
+    '000000000101',
+  );
+}
+
+/**
+ * Up to `ENTRIES_PER_READ` entries starting at `address`, and the address to continue from
+ */
+export function encodeHistoryEntries(history: EnergyHistory, address: number): { value: string; next: number } {
+  const samples = history.samples;
+  const refTime = history.refTime;
+  const referenceAddress = history.firstAddress - 1;
+  const lastAddress = history.firstAddress + samples.length - 1;
+  let current = Math.max(address, referenceAddress);
+  let hex = '';
+
+  for (let count = 0; count < ENTRIES_PER_READ && current <= lastAddress && refTime !== undefined; count++, current++) {
+    if (current === referenceAddress) {
+      hex += '15' + hex32(current) + '01000000' + '81' + hex32(refTime - EVE_EPOCH_OFFSET) + '00000000' + '00' + '0000';
+    } else {
+      const sample = samples[current - history.firstAddress];
+      hex += '14' + hex32(current) + hex32(sample.time - refTime) + '1f' + '0000' + '0000' +
+        hex16(sample.power * 10) + '0000' + '0000';
+    }
+  }
+  return { value: toBase64(hex || '00'), next: current };
+}
+
+/**
+ * Eve energy characteristics on an outlet's service plus its history service
+ */
+export class EveEnergyService {
+  private readonly historyService: Service;
+  private readonly ready: Promise<void>;
+  private power = 0;
+  private voltage = 0;
+  // Next address to send from History Entries; set by the Eve app through History Request
+  private transferAddress?: number;
+
+  constructor(
+    private readonly hap: HAP,
+    accessory: PlatformAccessory,
+    private readonly service: Service,
+    private readonly history: EnergyHistory,
+  ) {
+    this.characteristic(service, CONSUMPTION).onGet(() => this.power);
+    this.characteristic(service, VOLTAGE).onGet(() => this.voltage);
+    this.characteristic(service, TOTAL_CONSUMPTION).onGet(() => this.history.totalEnergy);
+    this.characteristic(service, RESET_TOTAL)
+      .onGet(() => this.history.resetTime)
+      .onSet(this.resetTotal.bind(this));
+
+    this.historyService = accessory.services.find(candidate => candidate.UUID === HISTORY_SERVICE_UUID)
+      || accessory.addService(new hap.Service('History', HISTORY_SERVICE_UUID, 'history'));
+    this.characteristic(this.historyService, HISTORY_STATUS).onGet(() => encodeHistoryStatus(this.history));
+    this.characteristic(this.historyService, HISTORY_ENTRIES).onGet(this.nextEntries.bind(this));
+    this.characteristic(this.historyService, HISTORY_REQUEST).onSet(this.requestEntries.bind(this));
+    this.characteristic(this.historyService, SET_TIME).onSet(() => undefined);
+
+    this.ready = this.history.load().then(() => {
+      this.service.updateCharacteristic(TOTAL_CONSUMPTION.name, this.history.totalEnergy);
+    });
+  }
+
+  /**
+   * Record a reading: updates the characteristics, adds it to the history and schedules a save
+   */
+  async record(reading: EnergyReading & { voltage?: number }): Promise<void> {
+    await this.ready;
+    this.power = reading.power ?? this.power;
+    this.voltage = reading.voltage ?? this.voltage;
+
+    const sampled = this.history.addReading(reading);
+    this.service.updateCharacteristic(CONSUMPTION.name, this.power);
+    this.service.updateCharacteristic(VOLTAGE.name, this.voltage);
+    this.service.updateCharacteristic(TOTAL_CONSUMPTION.name, this.history.totalEnergy);
+    if (sampled) {
+      this.historyService.updateCharacteristic(HISTORY_STATUS.name, encodeHistoryStatus(this.history));
+    }
+    this.history.scheduleSave();
+  }
+
+  private async resetTotal(value: CharacteristicValue): Promise<void> {
+    await this.ready;
+    this.history.reset(Number(value) || Math.floor(Date.now() / 1000) - EVE_EPOCH_OFFSET);
+    this.service.updateCharacteristic(TOTAL_CONSUMPTION.name, 0);
+    await this.history.flush();
+  }
+
+  /**
+   * Write the history synchronously if a save is pending, for shutdown
+   */
+  flushSync(): void {
+    this.history.flushSync();
+  }
+
+  private requestEntries(value: CharacteristicValue): void {
+    const request = Buffer.from(String(value), 'base64');
+    this.transferAddress = request.length >= 6 ? request.readUInt32LE(2) || 1 : 1;
+  }
+
+  private nextEntries(): string {
+    if (this.transferAddress === undefined) {
+      return toBase64('00');
+    }
+    const { value, next } = encodeHistoryEntries(this.history, this.transferAddress);
+    this.transferAddress = next;
+    return value;
+  }
+
+  private characteristic(service: Service, definition: EveCharacteristicDefinition): Characteristic {
+    const existing = service.characteristics.find(candidate => candidate.UUID === definition.uuid);
+    if (existing) {
+      return existing;
+    }
+    const { name, uuid, ...props } = definition;
+    return service.addCharacteristic(new this.hap.Characteristic(name, uuid, props));
+  }
+}
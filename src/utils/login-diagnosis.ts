@@ -0,0 +1,103 @@
+import { PluginLogger } from './logger';
+
+export type LoginFailure = 'credentials' | 'region' | 'network' | 'unknown';
+
+export interface CapturedLog {
+  level: 'debug' | 'info' | 'warn' | 'error';
+  args: unknown[];
+}
+
+// Error codes explained by scripts/vesync-auth-test.sh
+export const ERROR_CODE_MEANINGS: Record<number, string> = {
+  [-11000086]: 'Legacy authentication required',
+  [-11012022]: 'App version too low / API version mismatch',
+  [-11260022]: 'Cross-region authentication error',
+  [-11261022]: 'Access region conflict',
+  [-11201129]: 'Account or password incorrect',
+  [-11202129]: 'Account does not exist',
+  [-10011]: 'Account does not exist',
+  [-10013]: 'Account locked',
+  [-10014]: 'Incorrect password',
+  [-10015]: 'Account not activated',
+  [-11000020]: 'Invalid token',
+  [-11000021]: 'Token expired',
+  [-11000041]: 'Too many requests',
+};
+
+/**
+ * Collect error codes from the library's `... error code: <code>` and `Cross-region error detected: <code>` lines
+ */
+export function collectErrorCodes(logs: CapturedLog[]): { code: number; meaning?: string }[] {
+  const codes: number[] = [];
+  for (const { args } of logs) {
+    const [message, code] = args;
+    if (typeof message === 'string' && /error (code|detected):$/.test(message) && typeof code === 'number' && !codes.includes(code)) {
+      codes.push(code);
+    }
+  }
+  return codes.map(code => ({ code, meaning: ERROR_CODE_MEANINGS[code] }));
+}
+
+/**
+ * Why a login failed, from what the library logged while attempting it
+ */
+export function classifyLoginFailure(logs: CapturedLog[]): LoginFailure {
+  const messages = logs
+    .filter(log => log.level === 'error')
+    .map(log => log.args.filter(arg => typeof arg === 'string').join(' '));
+  const logged = (text: string) => messages.some(message => message.includes(text));
+
+  if (logged('COUNTRY CODE REQUIRED') || logged('rejected by both US and EU')) {
+    return 'region';
+  }
+  if (logged('invalid credentials') || logged('Credential error detected')) {
+    return 'credentials';
+  }
+  if (collectErrorCodes(logs).length === 0 && (logged('Step 1 failed') || logged('API call failed') || logged('Unable to connect'))) {
+    return 'network';
+  }
+  return 'unknown';
+}
+
+/**
+ * Failures that retrying with the same configuration cannot fix, and that risk locking the account
+ */
+export function isPermanentLoginFailure(failure: LoginFailure): boolean {
+  return failure === 'credentials' || failure === 'region';
+}
+
+// tsvesync logs through a single global logger, so its lines can't be told apart by account. Captures
+// therefore run one at a time: while one is active, the lines are those of its own task.
+let activeCapture: CapturedLog[] | null = null;
+let captureQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * A logger for a VeSync client that also hands its lines to `captureLibraryLogs`
+ */
+export function tapLibraryLogger(logger: PluginLogger): PluginLogger {
+  const tapped = Object.create(logger) as PluginLogger;
+  for (const level of ['debug', 'info', 'warn', 'error'] as const) {
+    tapped[level] = (message: string, ...args: unknown[]) => {
+      activeCapture?.push({ level, args: [message, ...args] });
+      logger[level](message, ...args);
+    };
+  }
+  return tapped;
+}
+
+/**
+ * Run `task` once earlier captures have finished, and collect what tapped library loggers log meanwhile
+ */
+export function captureLibraryLogs<T>(task: () => Promise<T>): Promise<{ result: T; logs: CapturedLog[] }> {
+  const capture = captureQueue.then(async () => {
+    const logs: CapturedLog[] = [];
+    activeCapture = logs;
+    try {
+      return { result: await task(), logs };
+    } finally {
+      activeCapture = null;
+    }
+  });
+  captureQueue = capture.catch(() => undefined);
+  return capture;
+}
@@ -0,0 +1,144 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { PluginLogger } from './logger';
+import { MetricsConfig } from '../types/device.types';
+
+const DEFAULT_METRICS_PORT = 9464;
+
+export type MetricLabels = Record<string, string>;
+
+/**
+ * One metric and its samples, rendered in the Prometheus text exposition format
+ */
+export interface MetricFamily {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge';
+  samples: { labels?: MetricLabels; value: number }[];
+}
+
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatValue = (value: number): string => {
+  if (Number.isNaN(value)) {
+    return 'NaN';
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? '+Inf' : '-Inf';
+  }
+  return String(value);
+};
+
+/**
+ * Render metric families as Prometheus text. Families without samples are left out.
+ */
+export function formatMetrics(families: MetricFamily[]): string {
+  const lines: string[] = [];
+  for (const family of families) {
+    if (family.samples.length === 0) {
+      continue;
+    }
+    lines.push(`# HELP ${family.name} ${family.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+    lines.push(`# TYPE ${family.name} ${family.type}`);
+    for (const sample of family.samples) {
+      const labels = Object.entries(sample.labels ?? {})
+        .map(([key, value]) => `${key}="${escapeLabelValue(value)}"`)
+        .join(',');
+      lines.push(`${family.name}${labels ? `{${labels}}` : ''} ${formatValue(sample.value)}`);
+    }
+  }
+  return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+}
+
+/**
+ * Serves `GET /metrics` for Prometheus. Metrics are collected on every scrape, so they never go stale
+ * and scraping makes no VeSync API calls. With energy reports enabled it also serves them as JSON at
+ * `GET /energy`.
+ */
+export class MetricsServer {
+  private server?: http.Server;
+
+  constructor(
+    private readonly config: MetricsConfig,
+    private readonly logger: PluginLogger,
+    private readonly collect: () => MetricFamily[],
+    private readonly energyReport?: () => unknown,
+  ) {}
+
+  /**
+   * Port the server is listening on, once started
+   */
+  get port(): number | undefined {
+    const address = this.server?.address() as AddressInfo | null | undefined;
+    return address?.port;
+  }
+
+  /**
+   * Start listening. A port that cannot be bound is logged rather than failing the platform.
+   */
+  async start(): Promise<void> {
+    const server = http.createServer((req, res) => this.handle(req, res));
+    const port = this.config.port ?? DEFAULT_METRICS_PORT;
+    // Only this machine can scrape unless the user opens it up
+    const host = this.config.host || '127.0.0.1';
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, host, () => {
+          server.off('error', reject);
+          resolve();
+        });
+      });
+    } catch (error) {
+      this.logger.error(`Failed to start metrics server on ${host}:${port}:`, error);
+      return;
+    }
+
+    this.server = server;
+    this.logger.info(`Serving Prometheus metrics on http://${host}:${this.port}/metrics`);
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const path = (req.url ?? '').split('?')[0];
+    const render = path === '/metrics'
+      ? () => formatMetrics(this.collect())
+      : path === '/energy' && this.energyReport
+        ? () => `${JSON.stringify(this.energyReport!(), null, 2)}\n`
+        : undefined;
+    if (!render) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('Not found\n');
+      return;
+    }
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405, { 'Content-Type': 'text/plain', 'Allow': 'GET, HEAD' });
+      res.end('Method not allowed\n');
+      return;
+    }
+
+    let body: string;
+    try {
+      body = render();
+    } catch (error) {
+      this.logger.error(`Failed to collect ${path.slice(1)}:`, error);
+      res.writeHead(500, { 'Content-Type': 'text/plain' });
+      res.end(`Failed to collect ${path.slice(1)}\n`);
+      return;
+    }
+
+    const contentType = path === '/metrics' ? 'text/plain; version=0.0.4; charset=utf-8' : 'application/json; charset=utf-8';
+    res.writeHead(200, { 'Content-Type': contentType });
+    res.end(req.method === 'HEAD' ? undefined : body);
+  }
+}
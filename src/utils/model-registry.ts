@@ -0,0 +1,157 @@
+/**
+ * Data-driven device model registry.
+ *
+ * Maps VeSync `deviceType` patterns to the accessory a device is bridged as, its HomeKit category,
+ * and optionally its feature set and speed levels. Kept free of Homebridge imports so it can be used
+ * outside the platform, e.g. by the settings UI server.
+ */
+import { AccessoryCategoryName, DeviceTypeKey, ModelDefinition, ModelOverride } from '../types/device.types';
+
+export const DEVICE_TYPE_KEYS: DeviceTypeKey[] = ['airPurifier', 'humidifier', 'fan', 'light', 'outlet', 'switch'];
+
+const ACCESSORY_CATEGORY_NAMES: AccessoryCategoryName[] = ['AIR_PURIFIER', 'AIR_HUMIDIFIER', 'FAN', 'LIGHTBULB', 'OUTLET', 'SWITCH'];
+
+const DEFAULT_CATEGORIES: Record<DeviceTypeKey, AccessoryCategoryName> = {
+  airPurifier: 'AIR_PURIFIER',
+  humidifier: 'AIR_HUMIDIFIER',
+  fan: 'FAN',
+  light: 'LIGHTBULB',
+  outlet: 'OUTLET',
+  switch: 'SWITCH',
+};
+
+const TOWER_FAN_LEVELS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12];
+const MIST_LEVELS = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+const WARM_MIST_LEVELS = [1, 2, 3];
+
+const family = (type: DeviceTypeKey, models: string[]): ModelDefinition[] =>
+  models.map(model => ({ model: `*${model}*`, type }));
+
+/**
+ * Built-in models, in the order they are matched: the first matching entry wins
+ */
+export const BUILT_IN_MODELS: ModelDefinition[] = [
+  // Air Purifiers
+  { model: 'LAP-*', type: 'airPurifier' },
+  ...family('airPurifier', [
+    'Core200S', 'Core300S', 'Core400S', 'Core600S',
+    'Vital100S', 'Vital200S', 'LV-PUR131S', 'LV-RH131S',
+    'EverestAir',
+  ]),
+
+  // Humidifiers; levels are the mist levels
+  { model: 'LUH-D301S-*', type: 'humidifier', levels: [1, 2] },
+  { model: '*Dual200S*', type: 'humidifier', levels: [1, 2] },
+  { model: '*Classic200S*', type: 'humidifier', levels: [1, 2, 3] },
+  { model: 'LUH-A602S-*', type: 'humidifier', levels: MIST_LEVELS, warmLevels: WARM_MIST_LEVELS },
+  { model: 'LUH-O451S-*', type: 'humidifier', levels: MIST_LEVELS, warmLevels: WARM_MIST_LEVELS },
+  { model: 'LUH-O601S-*', type: 'humidifier', levels: MIST_LEVELS, warmLevels: WARM_MIST_LEVELS },
+  { model: 'LUH-*', type: 'humidifier' },
+  { model: 'LEH-*', type: 'humidifier' },
+  ...family('humidifier', [
+    'Classic200S', 'Classic300S', 'Dual200S', 'LV600S',
+    'OasisMist', 'OasisMist600S', 'Superior6000S',
+    'OasisMist1000S',
+  ]),
+
+  // Fans
+  { model: 'LTF-F422S-KEU', type: 'fan', levels: TOWER_FAN_LEVELS },
+  { model: 'LTF-F422S-WUSR', type: 'fan', levels: TOWER_FAN_LEVELS },
+  { model: 'LTF-F422_WJP', type: 'fan', levels: TOWER_FAN_LEVELS },
+  { model: 'LTF-F422S-WUS', type: 'fan', levels: TOWER_FAN_LEVELS },
+  { model: 'LTF-*', type: 'fan' },
+  ...family('fan', ['LTF-F422']),
+
+  // Dimmers and bulbs
+  ...family('light', ['ESWD16']),
+  { model: 'ESL*', type: 'light' },
+  { model: 'XYD0001', type: 'light' },
+
+  // Outlets; the energy feature adds Eve energy characteristics and history
+  { model: '*ESO15-TB*', type: 'outlet', features: ['energy'] },
+  { model: '*ESW15-USA*', type: 'outlet', features: ['energy'] },
+  ...family('outlet', [
+    'ESW03-USA', 'ESW01-EU',
+    'ESW10-USA', 'wifi-switch-1.3',
+  ]),
+
+  // Switches
+  ...family('switch', ['ESWL01', 'ESWL03']),
+];
+
+interface CompiledEntry<T> {
+  pattern: RegExp;
+  definition: T;
+}
+
+function compilePattern(model: string): RegExp {
+  const source = model.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Resolves device models against user `modelOverrides` and the built-in models
+ */
+export class ModelRegistry {
+  private readonly overrides: CompiledEntry<ModelOverride>[] = [];
+  private readonly builtIns: CompiledEntry<ModelDefinition>[];
+
+  /**
+   * @param overrides Entries from the `modelOverrides` config, matched before the built-in models
+   * @param onInvalid Called with a description of each override that is skipped as invalid
+   */
+  constructor(overrides: ModelOverride[] = [], onInvalid?: (message: string) => void) {
+    for (const override of overrides) {
+      if (!override?.model || typeof override.model !== 'string') {
+        onInvalid?.('Ignoring model override without a model pattern');
+        continue;
+      }
+      if (override.type !== undefined && !DEVICE_TYPE_KEYS.includes(override.type)) {
+        onInvalid?.(`Ignoring model override for ${override.model}: unknown type "${override.type}"`);
+        continue;
+      }
+      if (override.category !== undefined && !ACCESSORY_CATEGORY_NAMES.includes(override.category)) {
+        onInvalid?.(`Ignoring model override for ${override.model}: unknown category "${override.category}"`);
+        continue;
+      }
+      this.overrides.push({ pattern: compilePattern(override.model), definition: override });
+    }
+    this.builtIns = BUILT_IN_MODELS.map(definition => ({ pattern: compilePattern(definition.model), definition }));
+  }
+
+  /**
+   * The definition for a device model: the first matching override laid over the first matching
+   * built-in model. Undefined when neither says what type of accessory the model is.
+   */
+  resolve(deviceType: string): ModelDefinition | undefined {
+    const override = this.overrides.find(entry => entry.pattern.test(deviceType))?.definition;
+    const builtIn = this.builtIns.find(entry => entry.pattern.test(deviceType))?.definition;
+    const type = override?.type ?? builtIn?.type;
+    if (!type) {
+      return undefined;
+    }
+    // A type change drops the built-in model's category along with the rest of its definition
+    const base = builtIn && builtIn.type === type ? builtIn : undefined;
+    return { ...base, ...override, type } as ModelDefinition;
+  }
+
+  /**
+   * The accessory type a model is bridged as. Undefined for models the registry does not know.
+   */
+  getDeviceTypeKey(deviceType: string): DeviceTypeKey | undefined {
+    return this.resolve(deviceType)?.type;
+  }
+
+  /**
+   * The HomeKit category for a model. Undefined for models the registry does not know.
+   */
+  getCategoryName(deviceType: string): AccessoryCategoryName | undefined {
+    const definition = this.resolve(deviceType);
+    return definition && (definition.category ?? DEFAULT_CATEGORIES[definition.type]);
+  }
+}
+
+/**
+ * Registry with only the built-in models, for callers without a platform config
+ */
+export const DEFAULT_MODEL_REGISTRY = new ModelRegistry();
@@ -0,0 +1,144 @@
+import mqtt, { MqttClient } from 'mqtt';
+import { PluginLogger } from './logger';
+import { MqttConfig } from '../types/device.types';
+
+const DEFAULT_TOPIC_PREFIX = 'tsvesync';
+
+/**
+ * An accessory the bridge can publish and command
+ */
+export interface MqttDevice {
+  getMqttState(): Record<string, unknown>;
+  handleMqttCommand(command: Record<string, unknown>): Promise<void>;
+}
+
+/**
+ * Publishes accessory state to an MQTT broker and accepts commands, so other home automation
+ * systems can share the plugin's VeSync polling instead of running their own.
+ *
+ * Topics, keyed by device id (the cid, or `cid_subDeviceNo` for sub-devices):
+ * - `<prefix>/<id>/state`: retained JSON state, published whenever it changes
+ * - `<prefix>/<id>/set`: JSON commands, e.g. `{"active": 1, "rotationSpeed": 50}`
+ * - `<prefix>/status`: `online` while connected, `offline` via the last will
+ */
+export class MqttBridge {
+  private client?: MqttClient;
+  private readonly prefix: string;
+  private readonly devices: Map<string, MqttDevice> = new Map();
+  private readonly deviceIds: Map<MqttDevice, string> = new Map();
+  private readonly lastPublished: Map<string, string> = new Map();
+
+  constructor(
+    private readonly config: MqttConfig,
+    private readonly logger: PluginLogger,
+  ) {
+    this.prefix = (config.topicPrefix || DEFAULT_TOPIC_PREFIX).replace(/\/+$/, '');
+  }
+
+  /**
+   * Connect to the broker. Publishes made before the connection is up are queued by the client.
+   */
+  start(): void {
+    const bridgeTopic = `${this.prefix}/status`;
+    this.client = mqtt.connect(this.config.url, {
+      username: this.config.username,
+      password: this.config.password,
+      will: { topic: bridgeTopic, payload: Buffer.from('offline'), qos: 1, retain: true },
+    });
+
+    this.client.on('connect', () => {
+      this.logger.info(`Connected to MQTT broker at ${this.config.url}`);
+      this.client?.publish(bridgeTopic, 'online', { qos: 1, retain: true });
+      this.client?.subscribe(`${this.prefix}/+/set`, { qos: 1 }, (error) => {
+        if (error) {
+          this.logger.error('Failed to subscribe to MQTT command topics:', error);
+        }
+      });
+    });
+    this.client.on('error', (error) => {
+      this.logger.warn(`MQTT connection error: ${error.message}`);
+    });
+    this.client.on('message', (topic, payload) => {
+      void this.handleMessage(topic, payload);
+    });
+  }
+
+  /**
+   * Publish the bridge going offline and disconnect
+   */
+  async stop(): Promise<void> {
+    const client = this.client;
+    if (!client) {
+      return;
+    }
+    this.client = undefined;
+    if (client.connected) {
+      await client.publishAsync(`${this.prefix}/status`, 'offline', { qos: 1, retain: true });
+    }
+    await client.endAsync();
+  }
+
+  register(id: string, device: MqttDevice): void {
+    this.devices.set(id, device);
+    this.deviceIds.set(device, id);
+  }
+
+  unregister(device: MqttDevice): void {
+    const id = this.deviceIds.get(device);
+    if (id === undefined) {
+      return;
+    }
+    this.deviceIds.delete(device);
+    this.devices.delete(id);
+    this.lastPublished.delete(id);
+  }
+
+  /**
+   * Publish a device's state if it changed since the last publish
+   */
+  publishState(device: MqttDevice): void {
+    const id = this.deviceIds.get(device);
+    if (id === undefined || !this.client) {
+      return;
+    }
+
+    const payload = JSON.stringify(device.getMqttState());
+    if (this.lastPublished.get(id) === payload) {
+      return;
+    }
+    this.lastPublished.set(id, payload);
+    this.client.publish(`${this.prefix}/${id}/state`, payload, { qos: 0, retain: this.config.retain !== false });
+  }
+
+  private async handleMessage(topic: string, payload: Buffer): Promise<void> {
+    const match = topic.slice(this.prefix.length + 1).match(/^([^/]+)\/set$/);
+    if (!topic.startsWith(`${this.prefix}/`) || !match) {
+      return;
+    }
+
+    const id = match[1];
+    const device = this.devices.get(id);
+    if (!device) {
+      this.logger.warn(`Ignoring MQTT command for unknown device ${id}`);
+      return;
+    }
+
+    let command: unknown;
+    try {
+      command = JSON.parse(payload.toString());
+    } catch {
+      command = undefined;
+    }
+    if (!command || typeof command !== 'object' || Array.isArray(command)) {
+      this.logger.warn(`Ignoring MQTT command for ${id}: payload must be a JSON object`);
+      return;
+    }
+
+    try {
+      await device.handleMqttCommand(command as Record<string, unknown>);
+    } catch (error) {
+      this.logger.warn(`MQTT command for ${id} failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    this.publishState(device);
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * How recently an accessory changed or was looked at, as seen by the poll scheduler
+ */
+export interface AccessoryActivity {
+  trackedSince: number;
+  lastStateChange: number;
+  lastInteraction: number;
+  offline: boolean;
+}
+
+export type PollActivityClass = 'active' | 'normal' | 'idle' | 'offline';
+
+export interface AdaptivePollingConfig {
+  enabled: boolean;
+  minInterval?: number;  // seconds
+  maxInterval?: number;  // seconds
+}
+
+/**
+ * Quota left for one account, used to size the adaptive base interval
+ */
+export interface PollBudget {
+  remainingCalls: number;
+  msUntilReset: number;
+  activities: PollActivityClass[];
+  // Calls per second spent regardless of device intervals (the periodic device list refresh)
+  fixedCallsPerSecond: number;
+}
+
+const ACTIVE_WINDOW = 15 * 60 * 1000;    // Changed or interacted with in the last 15 minutes
+const IDLE_AFTER = 2 * 60 * 60 * 1000;   // Unchanged for 2 hours
+const BUDGET_SHARE = 0.8;                // Leave 20% of the remaining quota for commands and logins
+const DEFAULT_MIN_INTERVAL = 60;         // Matches BaseAccessory's details cache TTL
+const DEFAULT_MAX_INTERVAL = 30 * 60;
+
+// Poll interval relative to the base interval for each activity class
+const ACTIVITY_MULTIPLIERS: Record<PollActivityClass, number> = {
+  active: 0.5,
+  normal: 1,
+  idle: 3,
+  offline: 6,
+};
+
+/**
+ * Decides when each accessory is next due for a state sync.
+ *
+ * With adaptive polling disabled every accessory uses the platform update interval. With it enabled,
+ * each account's remaining daily quota is spread over the rest of the quota day: a base interval is
+ * derived from the budget, then scaled per accessory so recently-changed or watched devices poll more
+ * often and idle or offline devices less.
+ */
+export class PollScheduler {
+  private readonly lastPolled: Map<string, number> = new Map();
+  private readonly baseIntervals: Map<string, number> = new Map();
+  private readonly minInterval: number;
+  private readonly maxInterval: number;
+
+  constructor(
+    private readonly defaultInterval: number,  // milliseconds
+    private readonly adaptive?: AdaptivePollingConfig,
+  ) {
+    this.minInterval = (adaptive?.minInterval ?? DEFAULT_MIN_INTERVAL) * 1000;
+    this.maxInterval = Math.max((adaptive?.maxInterval ?? DEFAULT_MAX_INTERVAL) * 1000, this.minInterval);
+  }
+
+  get isAdaptive(): boolean {
+    return this.adaptive?.enabled === true;
+  }
+
+  /**
+   * Classify an accessory by how recently it changed or was interacted with
+   */
+  classify(activity: AccessoryActivity, now = Date.now()): PollActivityClass {
+    if (activity.offline) {
+      return 'offline';
+    }
+    const lastActivity = Math.max(activity.lastStateChange, activity.lastInteraction);
+    if (now - lastActivity < ACTIVE_WINDOW) {
+      return 'active';
+    }
+    if (now - Math.max(activity.lastStateChange, activity.trackedSince) >= IDLE_AFTER) {
+      return 'idle';
+    }
+    return 'normal';
+  }
+
+  /**
+   * Recalculate an account's base interval from its remaining quota
+   */
+  updateBudget(group: string, budget: PollBudget): void {
+    if (!this.isAdaptive) {
+      return;
+    }
+
+    const secondsLeft = Math.max(budget.msUntilReset, 60 * 1000) / 1000;
+    const availableRate = (budget.remainingCalls * BUDGET_SHARE) / secondsLeft - budget.fixedCallsPerSecond;
+    // Calls per second each device costs at a base interval of one second
+    const demand = budget.activities.reduce((sum, activity) => sum + 1 / ACTIVITY_MULTIPLIERS[activity], 0);
+
+    let base: number;
+    if (demand === 0) {
+      base = this.defaultInterval;
+    } else if (availableRate <= 0) {
+      base = this.maxInterval;
+    } else {
+      base = (demand / availableRate) * 1000;
+    }
+    this.baseIntervals.set(group, this.clamp(base));
+  }
+
+  /**
+   * The interval in milliseconds between syncs for an accessory
+   */
+  getInterval(group: string, activity: AccessoryActivity, now = Date.now()): number {
+    if (!this.isAdaptive) {
+      return this.defaultInterval;
+    }
+    const base = this.baseIntervals.get(group) ?? this.defaultInterval;
+    return this.clamp(base * ACTIVITY_MULTIPLIERS[this.classify(activity, now)]);
+  }
+
+  /**
+   * Whether an accessory should be synced now. Accessories that have never been polled are due.
+   */
+  isDue(key: string, interval: number, now = Date.now()): boolean {
+    const lastPolled = this.lastPolled.get(key);
+    return lastPolled === undefined || now - lastPolled >= interval;
+  }
+
+  markPolled(key: string, now = Date.now()): void {
+    this.lastPolled.set(key, now);
+  }
+
+  forget(key: string): void {
+    this.lastPolled.delete(key);
+  }
+
+  private clamp(interval: number): number {
+    return Math.min(Math.max(interval, this.minInterval), this.maxInterval);
+  }
+}
@@ -1,12 +1,38 @@
+import fs from 'fs';
+import path from 'path';
 import { PluginLogger } from './logger';
 
+/**
+ * On-disk record of the calls made during one quota day
+ */
+export interface QuotaLedger {
+  date: string;
+  timeZone: string;
+  apiCallCount: number;
+  methods: Record<string, number>;
+  updatedAt: number;
+}
+
+const DEFAULT_QUOTA_TIMEZONE = 'UTC';
+const LEDGER_WRITE_DELAY = 5000; // Coalesce ledger writes from bursts of API calls
+
 /**
  * Manages API call quotas to prevent exceeding VeSync's daily limits
  * Based on the formula: 3200 + 1500 * (number of devices)
+ *
+ * When given a ledger path, the day's call count and per-method breakdown are persisted so a
+ * Homebridge restart does not forget calls VeSync has already counted.
  */
 export class QuotaManager {
   private apiCallCount = 0;
+  private methodCallCounts: Map<string, number> = new Map();
   private lastResetDate: string;
+  private readonly timeZone: string;
+  private readonly ledgerPath?: string;
+  private ledgerWriteTimer?: NodeJS.Timeout;
+  private ledgerWriteInProgress: Promise<void> | null = null;
+  // Set once the ledger was written at shutdown; later async writes would only put older counts back
+  private ledgerClosed = false;
   private dailyQuota = 0;
   private readonly BASE_QUOTA = 3200;
   private readonly DEVICE_QUOTA_MULTIPLIER = 1500;
@@ -21,6 +47,8 @@ export class QuotaManager {
     config?: {
       bufferPercentage?: number;
       priorityMethods?: string[];
+      timeZone?: string;
+      ledgerPath?: string;
     }
   ) {
     // Set default buffer percentage (95% of quota)
@@ -39,8 +67,12 @@ export class QuotaManager {
       'setOscillation',
       'setChildLock'
     ];
+    this.timeZone = this.resolveTimeZone(config?.timeZone);
+    this.ledgerPath = config?.ledgerPath;
+
     // Initialize with today's date
     this.lastResetDate = this.getCurrentDate();
+    this.loadLedger();
     this.calculateDailyQuota();
     this.logger.info(`Initialized QuotaManager with ${this.deviceCount} devices. Daily quota: ${this.dailyQuota} API calls`);
   }
@@ -53,11 +85,49 @@ export class QuotaManager {
   }
 
   /**
-   * Get the current date in YYYY-MM-DD format
+   * Validate the configured quota timezone, falling back to UTC
+   */
+  private resolveTimeZone(timeZone?: string): string {
+    if (!timeZone) {
+      return DEFAULT_QUOTA_TIMEZONE;
+    }
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return timeZone;
+    } catch {
+      this.logger.warn(`Invalid quota timezone "${timeZone}"; using ${DEFAULT_QUOTA_TIMEZONE}`);
+      return DEFAULT_QUOTA_TIMEZONE;
+    }
+  }
+
+  /**
+   * Get the current quota day in YYYY-MM-DD format, in the quota timezone
    */
   private getCurrentDate(): string {
-    const now = new Date();
-    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: this.timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    }).formatToParts(new Date());
+    const part = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+    return `${part('year')}-${part('month')}-${part('day')}`;
+  }
+
+  /**
+   * Milliseconds until the quota day rolls over, in the quota timezone
+   */
+  public getMsUntilReset(now = new Date()): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: this.timeZone,
+      hourCycle: 'h23',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    }).formatToParts(now);
+    const part = (type: string) => Number(parts.find(p => p.type === type)?.value ?? 0);
+    const elapsedMs = ((part('hour') * 60 + part('minute')) * 60 + part('second')) * 1000 + now.getMilliseconds();
+    return 24 * 60 * 60 * 1000 - elapsedMs;
   }
 
   /**
@@ -68,8 +138,119 @@ export class QuotaManager {
     if (currentDate !== this.lastResetDate) {
       this.logger.info(`Resetting API call quota. Previous: ${this.apiCallCount}/${this.dailyQuota}`);
       this.apiCallCount = 0;
+      this.methodCallCounts.clear();
       this.lastResetDate = currentDate;
+      this.scheduleLedgerWrite();
+    }
+  }
+
+  /**
+   * Restore today's call count from the ledger. A ledger from an earlier quota day is ignored.
+   */
+  private loadLedger(): void {
+    if (!this.ledgerPath) {
+      return;
+    }
+    try {
+      const ledger = JSON.parse(fs.readFileSync(this.ledgerPath, 'utf8')) as QuotaLedger;
+      if (ledger?.date !== this.lastResetDate || ledger.timeZone !== this.timeZone) {
+        this.logger.debug(`Quota ledger at ${this.ledgerPath} is from ${ledger?.date}; starting a new quota day`);
+        return;
+      }
+      this.apiCallCount = Number(ledger.apiCallCount) || 0;
+      this.methodCallCounts = new Map(Object.entries(ledger.methods || {}).map(([method, count]) => [method, Number(count) || 0]));
+      this.logger.info(`Restored ${this.apiCallCount} API calls already made today from the quota ledger`);
+    } catch (e: any) {
+      if (e?.code !== 'ENOENT') {
+        this.logger.warn(`Failed to read quota ledger: ${e?.message || e}`);
+      }
+    }
+  }
+
+  /**
+   * Write the ledger shortly, folding any calls made in the meantime into the same write
+   */
+  private scheduleLedgerWrite(): void {
+    if (!this.ledgerPath || this.ledgerWriteTimer) {
+      return;
     }
+    this.ledgerWriteTimer = setTimeout(() => {
+      this.ledgerWriteTimer = undefined;
+      void this.flush();
+    }, LEDGER_WRITE_DELAY);
+    this.ledgerWriteTimer.unref?.();
+  }
+
+  /**
+   * Persist the ledger now. Call on shutdown so no recorded calls are lost.
+   */
+  public async flush(): Promise<void> {
+    if (!this.ledgerPath) {
+      return;
+    }
+    if (this.ledgerWriteTimer) {
+      clearTimeout(this.ledgerWriteTimer);
+      this.ledgerWriteTimer = undefined;
+    }
+    // One write at a time: concurrent writes would share the temp file
+    while (this.ledgerWriteInProgress) {
+      await this.ledgerWriteInProgress;
+    }
+    if (this.ledgerClosed) {
+      return;
+    }
+
+    const ledgerPath = this.ledgerPath;
+    this.ledgerWriteInProgress = (async () => {
+      try {
+        await fs.promises.mkdir(path.dirname(ledgerPath), { recursive: true });
+        const tmp = ledgerPath + '.tmp';
+        await fs.promises.writeFile(tmp, JSON.stringify(this.buildLedger()), 'utf8');
+        if (this.ledgerClosed) {
+          await fs.promises.unlink(tmp).catch(() => undefined);
+          return;
+        }
+        await fs.promises.rename(tmp, ledgerPath);
+      } catch (e: any) {
+        this.logger.warn(`Failed to write quota ledger: ${e?.message || e}`);
+      } finally {
+        this.ledgerWriteInProgress = null;
+      }
+    })();
+
+    await this.ledgerWriteInProgress;
+  }
+
+  /**
+   * Persist the ledger synchronously, for shutdown, where Homebridge doesn't wait for pending writes
+   */
+  public flushSync(): void {
+    if (!this.ledgerPath || this.ledgerClosed) {
+      return;
+    }
+    if (this.ledgerWriteTimer) {
+      clearTimeout(this.ledgerWriteTimer);
+      this.ledgerWriteTimer = undefined;
+    }
+    this.ledgerClosed = true;
+    try {
+      fs.mkdirSync(path.dirname(this.ledgerPath), { recursive: true });
+      const tmp = this.ledgerPath + '.shutdown.tmp';
+      fs.writeFileSync(tmp, JSON.stringify(this.buildLedger()), 'utf8');
+      fs.renameSync(tmp, this.ledgerPath);
+    } catch (e: any) {
+      this.logger.warn(`Failed to write quota ledger: ${e?.message || e}`);
+    }
+  }
+
+  private buildLedger(): QuotaLedger {
+    return {
+      date: this.lastResetDate,
+      timeZone: this.timeZone,
+      apiCallCount: this.apiCallCount,
+      methods: Object.fromEntries(this.methodCallCounts),
+      updatedAt: Date.now(),
+    };
   }
 
   /**
@@ -113,6 +294,8 @@ export class QuotaManager {
   public recordApiCall(methodName: string): void {
     this.checkAndResetQuota();
     this.apiCallCount++;
+    this.methodCallCounts.set(methodName, (this.methodCallCounts.get(methodName) || 0) + 1);
+    this.scheduleLedgerWrite();
 
     // Log when approaching quota limits
     const quotaPercentage = (this.apiCallCount / this.dailyQuota) * 100;
@@ -152,6 +335,13 @@ export class QuotaManager {
     return this.apiCallCount;
   }
 
+  /**
+   * Get today's call count per API method
+   */
+  public getMethodCallCounts(): Record<string, number> {
+    return Object.fromEntries(this.methodCallCounts);
+  }
+
   /**
    * Get the daily quota
    */
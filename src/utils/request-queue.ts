@@ -0,0 +1,184 @@
+import { PluginLogger } from './logger';
+
+/**
+ * Priority classes, most urgent first: commands from HomeKit, then logging in and listing devices,
+ * then background state and energy polls
+ */
+export type RequestPriority = 'write' | 'discovery' | 'poll';
+
+export const REQUEST_PRIORITIES: readonly RequestPriority[] = ['write', 'discovery', 'poll'];
+
+const DISCOVERY_METHODS = ['login', 'getDevices'];
+
+/**
+ * Queue wait and drop counts per priority class since startup, and the requests waiting now
+ */
+export interface RequestQueueStats {
+  depth: Record<RequestPriority, number>;
+  dispatched: Record<RequestPriority, number>;
+  waitMs: Record<RequestPriority, number>;
+  maxWaitMs: Record<RequestPriority, number>;
+  dropped: Record<RequestPriority, number>;
+  coalesced: number;
+}
+
+interface QueuedRequest {
+  methodName: string;
+  priority: RequestPriority;
+  // Polls with the same key are the same request; writes have none
+  key?: string;
+  enqueuedAt: number;
+  task: () => Promise<unknown>;
+  waiters: { resolve: (result: any) => void; reject: (error: unknown) => void }[];
+}
+
+/**
+ * Class an API method by its name: setters and toggles are writes, getters and updates are polls
+ */
+export function classifyRequest(methodName: string): RequestPriority {
+  if (DISCOVERY_METHODS.includes(methodName)) {
+    return 'discovery';
+  }
+  return /^(get|update)/.test(methodName) ? 'poll' : 'write';
+}
+
+const perPriority = (): Record<RequestPriority, number> => ({ write: 0, discovery: 0, poll: 0 });
+
+/**
+ * Spaces out one account's API calls and starts them in priority order.
+ *
+ * Calls start at least `spacing` ms apart; whenever one may start, the most urgent waiting request goes
+ * first, in arrival order within its class. A poll that is requested again while it is still waiting
+ * is not queued twice: the callers share the one call. When `maxDepth` requests are waiting, a new
+ * request takes the place of the newest less urgent one, or is dropped if there is none.
+ */
+export class RequestQueue {
+  private readonly queue: QueuedRequest[] = [];
+  private lastStart = 0;
+  private timer?: NodeJS.Timeout;
+  private readonly stats: RequestQueueStats = {
+    depth: perPriority(),
+    dispatched: perPriority(),
+    waitMs: perPriority(),
+    maxWaitMs: perPriority(),
+    dropped: perPriority(),
+    coalesced: 0,
+  };
+
+  constructor(
+    private readonly logger: PluginLogger,
+    private readonly spacing: number,   // milliseconds
+    private readonly maxDepth: number,
+  ) {}
+
+  /**
+   * Run an API call in its turn. Resolves with the call's result, or null when the call was dropped
+   * from a full queue. While a poll is waiting, requests with the same `key` get its result instead of
+   * running their own task.
+   */
+  run<T>(methodName: string, key: string | undefined, task: () => Promise<T>): Promise<T | null> {
+    const priority = classifyRequest(methodName);
+    return new Promise<T | null>((resolve, reject) => {
+      const waiting = priority === 'poll' && key !== undefined
+        ? this.queue.find(request => request.key === key)
+        : undefined;
+      if (waiting) {
+        this.stats.coalesced++;
+        this.logger.debug(`Merging '${methodName}' with the same call already waiting in the queue`);
+        waiting.waiters.push({ resolve, reject });
+        return;
+      }
+
+      if (this.queue.length >= this.maxDepth && !this.evictFor(priority)) {
+        this.stats.dropped[priority]++;
+        this.logger.warn(`API request queue is full (${this.maxDepth} waiting). Dropping '${methodName}'`);
+        resolve(null);
+        return;
+      }
+
+      this.queue.push({
+        methodName,
+        priority,
+        key: priority === 'poll' ? key : undefined,
+        enqueuedAt: Date.now(),
+        task,
+        waiters: [{ resolve, reject }],
+      });
+      this.stats.depth[priority]++;
+      this.schedule();
+    });
+  }
+
+  getStats(): RequestQueueStats {
+    return {
+      depth: { ...this.stats.depth },
+      dispatched: { ...this.stats.dispatched },
+      waitMs: { ...this.stats.waitMs },
+      maxWaitMs: { ...this.stats.maxWaitMs },
+      dropped: { ...this.stats.dropped },
+      coalesced: this.stats.coalesced,
+    };
+  }
+
+  /**
+   * Drop the newest waiting request that is less urgent than `priority`
+   */
+  private evictFor(priority: RequestPriority): boolean {
+    const rank = REQUEST_PRIORITIES.indexOf(priority);
+    for (const candidate of [...REQUEST_PRIORITIES].reverse()) {
+      if (REQUEST_PRIORITIES.indexOf(candidate) <= rank) {
+        return false;
+      }
+      const index = this.queue.map(request => request.priority).lastIndexOf(candidate);
+      if (index !== -1) {
+        const [evicted] = this.queue.splice(index, 1);
+        this.stats.depth[evicted.priority]--;
+        this.stats.dropped[evicted.priority]++;
+        this.logger.warn(`API request queue is full (${this.maxDepth} waiting). Dropping '${evicted.methodName}' for a more urgent call`);
+        evicted.waiters.forEach(waiter => waiter.resolve(null));
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private schedule(): void {
+    if (this.timer || this.queue.length === 0) {
+      return;
+    }
+    const wait = Math.max(0, this.lastStart + this.spacing - Date.now());
+    if (wait === 0) {
+      this.dispatch();
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.dispatch();
+    }, wait);
+  }
+
+  private dispatch(): void {
+    const next = REQUEST_PRIORITIES
+      .map(priority => this.queue.findIndex(request => request.priority === priority))
+      .find(index => index !== -1);
+    if (next === undefined) {
+      return;
+    }
+    const [request] = this.queue.splice(next, 1);
+    const now = Date.now();
+    const waited = now - request.enqueuedAt;
+    this.lastStart = now;
+    this.stats.depth[request.priority]--;
+    this.stats.dispatched[request.priority]++;
+    this.stats.waitMs[request.priority] += waited;
+    this.stats.maxWaitMs[request.priority] = Math.max(this.stats.maxWaitMs[request.priority], waited);
+    if (waited > this.spacing) {
+      this.logger.debug(`'${request.methodName}' waited ${waited}ms in the API request queue (${this.queue.length} still waiting)`);
+    }
+    this.schedule();
+    Promise.resolve().then(request.task).then(
+      result => request.waiters.forEach(waiter => waiter.resolve(result)),
+      error => request.waiters.forEach(waiter => waiter.reject(error)),
+    );
+  }
+}
@@ -1,6 +1,14 @@
+import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
+import { promisify } from 'util';
 import { PluginLogger } from './logger';
+import { SessionEncryptionConfig, SessionStoreConfig } from '../types/device.types';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+export const DEFAULT_SESSION_SECRET_ENV = 'TSVESYNC_SESSION_SECRET';
+export const DEFAULT_SESSION_ENV = 'TSVESYNC_SESSION';
 
 export interface PluginSession {
   token: string;
@@ -21,21 +29,203 @@ export interface PluginSession {
   username?: string;
 }
 
-export class FileSessionStore {
+// Session file contents when encrypted at rest. The key is derived from the secret with scrypt and a
+// fresh salt on every save; all binary fields are base64.
+interface EncryptedSessionFile {
+  encrypted: 'aes-256-gcm';
+  kdf: 'scrypt';
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+function isEncryptedSessionFile(value: unknown): value is EncryptedSessionFile {
+  return typeof value === 'object' && value !== null && (value as EncryptedSessionFile).encrypted === 'aes-256-gcm';
+}
+
+/**
+ * Throws when `key` is not the one the session was encrypted with
+ */
+function decryptSessionFile(contents: EncryptedSessionFile, key: Buffer): PluginSession {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(contents.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(contents.tag, 'base64'));
+  const data = Buffer.concat([decipher.update(Buffer.from(contents.data, 'base64')), decipher.final()]);
+  return JSON.parse(data.toString('utf8')) as PluginSession;
+}
+
+/**
+ * The username stored in a session file, if it can be read
+ */
+function readStoredUsername(file: string, secret?: string): string | undefined {
+  try {
+    const contents = JSON.parse(fs.readFileSync(file, 'utf8')) as PluginSession | EncryptedSessionFile;
+    if (!isEncryptedSessionFile(contents)) {
+      return contents?.username;
+    }
+    return secret ? decryptSessionFile(contents, crypto.scryptSync(secret, Buffer.from(contents.salt, 'base64'), 32)).username : undefined;
+  } catch {
+    // Missing, corrupted or encrypted with another secret
+    return undefined;
+  }
+}
+
+/**
+ * Suffix for an account's files: its session, quota ledger, login circuit and token status. It is a
+ * hash of the username, so reordering or replacing accounts never hands one account another's files.
+ * The unsuffixed names from single-account versions stay with the account whose username is stored in
+ * the unsuffixed session file, so upgrading keeps its token and quota ledger.
+ */
+export function accountFileSuffix(username: string, storagePath: string, config?: SessionStoreConfig, secret?: string): string {
+  const key = username.trim().toLowerCase();
+  const legacySessionFile = config?.type === 'file' && config.path
+    ? path.resolve(storagePath, config.path)
+    : path.join(storagePath, 'tsvesync', 'session.json');
+  if (readStoredUsername(legacySessionFile, secret)?.trim().toLowerCase() === key) {
+    return '';
+  }
+  return `-${crypto.createHash('sha256').update(key).digest('hex').slice(0, 12)}`;
+}
+
+/**
+ * The secret sessions are encrypted with, from `sessionEncryption.secret` or else the environment
+ * variable it names. Undefined leaves sessions in plain JSON.
+ */
+export function resolveSessionSecret(config: SessionEncryptionConfig | undefined, logger: PluginLogger): string | undefined {
+  if (!config?.enabled) {
+    return undefined;
+  }
+  const envVar = config.secretEnv || DEFAULT_SESSION_SECRET_ENV;
+  const secret = config.secret || process.env[envVar];
+  if (!secret) {
+    logger.warn(`Session encryption is enabled but neither sessionEncryption.secret nor $${envVar} is set; the session is stored unencrypted.`);
+    return undefined;
+  }
+  return secret;
+}
+
+/**
+ * Where a VeSync account's session is persisted between restarts. The client saves every new token
+ * through `save`; `clear` drops a session that can no longer be used.
+ */
+export interface SessionStore {
+  load(): Promise<PluginSession | null>;
+  save(session: PluginSession): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * The session store selected by `sessionStore`. `fileSuffix` keeps accounts sharing a configured
+ * file path apart; a read-only store is shared, and a session in it for another account
+ * is ignored at restore.
+ */
+export function createSessionStore(
+  config: SessionStoreConfig | undefined,
+  storagePath: string,
+  logger: PluginLogger,
+  fileSuffix = '',
+  secret?: string,
+): SessionStore {
+  switch (config?.type) {
+    case 'file': {
+      if (!config.path) {
+        logger.warn('sessionStore type "file" needs a path; using the Homebridge storage directory.');
+        break;
+      }
+      const ext = path.extname(config.path);
+      const file = fileSuffix ? `${config.path.slice(0, config.path.length - ext.length)}${fileSuffix}${ext}` : config.path;
+      return new FileSessionStore(storagePath, logger, path.resolve(storagePath, file), secret);
+    }
+    case 'readonly':
+      return new ReadOnlySessionStore(logger, config.path ? { path: config.path } : { env: config.env || DEFAULT_SESSION_ENV });
+  }
+  return new FileSessionStore(storagePath, logger, `session${fileSuffix}.json`, secret);
+}
+
+/**
+ * A session provisioned outside the plugin, as JSON in an environment variable or a file such as a
+ * mounted container secret. Tokens from later logins are kept in memory only, so the next start
+ * uses the provisioned session again.
+ */
+export class ReadOnlySessionStore implements SessionStore {
+  private readonly source: string;
+
+  constructor(private readonly logger: PluginLogger, private readonly from: { env: string } | { path: string }) {
+    this.source = 'env' in from ? `$${from.env}` : from.path;
+  }
+
+  async load(): Promise<PluginSession | null> {
+    try {
+      const data = 'env' in this.from ? process.env[this.from.env] : await fs.promises.readFile(this.from.path, 'utf8');
+      if (!data) {
+        this.logger.debug(`No provisioned session found in ${this.source}`);
+        return null;
+      }
+      const session = JSON.parse(data) as PluginSession;
+      if (!session || !session.token || !session.accountId) {
+        this.logger.warn(`The provisioned session in ${this.source} has no token or accountId; ignoring it.`);
+        return null;
+      }
+      this.logger.debug(`Loaded provisioned session from ${this.source}`);
+      return session;
+    } catch (e: any) {
+      if (e?.code === 'ENOENT') {
+        this.logger.debug(`No provisioned session found at ${this.source}`);
+      } else {
+        this.logger.warn(`Could not read the provisioned session in ${this.source}: ${e?.message || e}`);
+      }
+      return null;
+    }
+  }
+
+  async save(): Promise<void> {
+    this.logger.debug(`Session store ${this.source} is read-only; new session kept in memory only`);
+  }
+
+  async clear(): Promise<void> {
+    // Nothing to clear: the provisioned session is managed outside the plugin
+  }
+}
+
+export class FileSessionStore implements SessionStore {
   private readonly dir: string;
   private readonly file: string;
   private saveInProgress: Promise<void> | null = null;
 
-  constructor(basePath: string, private readonly logger: PluginLogger) {
-    this.dir = path.join(basePath, 'tsvesync');
-    this.file = path.join(this.dir, 'session.json');
+  /**
+   * The session is kept as `fileName` in the plugin's storage dir, or at `fileName` itself when it is
+   * an absolute path. With a `secret`, sessions are written encrypted (AES-256-GCM) and a plaintext
+   * session file is encrypted the first time it is loaded.
+   */
+  constructor(basePath: string, private readonly logger: PluginLogger, fileName = 'session.json', private readonly secret?: string) {
+    this.file = path.resolve(basePath, 'tsvesync', fileName);
+    this.dir = path.dirname(this.file);
   }
 
   async load(): Promise<PluginSession | null> {
     try {
       await fs.promises.mkdir(this.dir, { recursive: true });
       const data = await fs.promises.readFile(this.file, 'utf8');
-      const session = JSON.parse(data) as PluginSession;
+      const contents = JSON.parse(data) as PluginSession | EncryptedSessionFile;
+      let session: PluginSession;
+      if (isEncryptedSessionFile(contents)) {
+        if (!this.secret) {
+          this.logger.error(`The persisted session in ${this.file} is encrypted, but session encryption is not configured; logging in again.`);
+          return null;
+        }
+        try {
+          session = await this.decrypt(contents);
+        } catch {
+          this.logger.error(`Could not decrypt the persisted session in ${this.file}: the session encryption secret does not match the one it was saved with. Logging in again; the new session is saved with the current secret.`);
+          return null;
+        }
+      } else {
+        session = contents;
+        if (this.secret && session?.token) {
+          await this.write(session);
+          this.logger.info(`Encrypted the persisted session in ${this.file}`);
+        }
+      }
       if (!session || !session.token || !session.accountId) return null;
       try {
         const expSec = session.expiresAt && session.expiresAt > 1e11 ? Math.floor(session.expiresAt / 1000) : session.expiresAt;
@@ -67,9 +257,10 @@ export class FileSessionStore {
         let existingSession: PluginSession | null = null;
         try {
           const data = await fs.promises.readFile(this.file, 'utf8');
-          existingSession = JSON.parse(data) as PluginSession;
+          const contents = JSON.parse(data) as PluginSession | EncryptedSessionFile;
+          existingSession = isEncryptedSessionFile(contents) ? await this.decrypt(contents) : contents;
         } catch {
-          // File doesn't exist or is corrupted, that's okay
+          // File doesn't exist, is corrupted or was encrypted with another secret, that's okay
         }
 
         // Merge: new session takes precedence, but preserve username if present
@@ -83,10 +274,7 @@ export class FileSessionStore {
           appId: session.appId || existingSession?.appId,
         };
 
-        const tmp = this.file + '.tmp';
-        await fs.promises.writeFile(tmp, JSON.stringify(mergedSession), { encoding: 'utf8', mode: 0o600 });
-        await fs.promises.rename(tmp, this.file);
-        try { await fs.promises.chmod(this.file, 0o600); } catch { /* best effort */ }
+        await this.write(mergedSession);
         try {
           const expSec = session.expiresAt && session.expiresAt > 1e11 ? Math.floor(session.expiresAt / 1000) : session.expiresAt;
           const exp = expSec ? new Date(expSec * 1000).toISOString() : 'unknown';
@@ -102,6 +290,39 @@ export class FileSessionStore {
     await this.saveInProgress;
   }
 
+  private async write(session: PluginSession): Promise<void> {
+    const contents = this.secret ? await this.encrypt(session) : session;
+    const tmp = this.file + '.tmp';
+    await fs.promises.writeFile(tmp, JSON.stringify(contents), { encoding: 'utf8', mode: 0o600 });
+    await fs.promises.rename(tmp, this.file);
+    try { await fs.promises.chmod(this.file, 0o600); } catch { /* best effort */ }
+  }
+
+  private async encrypt(session: PluginSession): Promise<EncryptedSessionFile> {
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', await scrypt(this.secret!, salt, 32), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(session), 'utf8'), cipher.final()]);
+    return {
+      encrypted: 'aes-256-gcm',
+      kdf: 'scrypt',
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+  }
+
+  /**
+   * Throws when the secret is missing or differs from the one the session was encrypted with
+   */
+  private async decrypt(contents: EncryptedSessionFile): Promise<PluginSession> {
+    if (!this.secret) {
+      throw new Error('No session encryption secret');
+    }
+    return decryptSessionFile(contents, await scrypt(this.secret, Buffer.from(contents.salt, 'base64'), 32));
+  }
+
   async clear(): Promise<void> {
     try {
       await fs.promises.unlink(this.file);
@@ -0,0 +1,770 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { VeSync } from 'tsvesync';
+import { PluginLogger } from './logger';
+import { createRateLimitedVeSync } from './api-proxy';
+import { RequestQueueStats } from './request-queue';
+import { PluginSession, SessionStore, accountFileSuffix, createSessionStore, decodeJwtTimestampsLocal, resolveSessionSecret } from './session-store';
+import { PlatformConfig, VeSyncAccountConfig } from '../types/device.types';
+import {
+  LoginFailure,
+  captureLibraryLogs,
+  classifyLoginFailure,
+  isPermanentLoginFailure,
+  tapLibraryLogger,
+} from './login-diagnosis';
+
+/**
+ * Collect the VeSync accounts configured for this platform.
+ *
+ * The top-level `username`/`password` pair (the original single-account config) always comes first so
+ * it keeps its existing session file. Entries from `accounts` follow in order; incomplete entries and
+ * repeats of an account already listed are dropped.
+ */
+export function resolveAccountConfigs(config: PlatformConfig): VeSyncAccountConfig[] {
+  const candidates: VeSyncAccountConfig[] = [];
+  if (config.username && config.password) {
+    candidates.push({
+      username: config.username,
+      password: config.password,
+      countryCode: config.countryCode,
+      apiUrl: config.apiUrl,
+    });
+  }
+  candidates.push(...(config.accounts ?? []));
+
+  const seen = new Set<string>();
+  return candidates.filter(account => {
+    if (!account?.username || !account?.password) {
+      return false;
+    }
+    const key = account.username.trim().toLowerCase();
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * A login failure that retrying cannot fix, kept so that restarts with the same configuration don't
+ * retry it either
+ */
+export interface LoginCircuit {
+  failure: LoginFailure;
+  openedAt: number;
+  // Salted hash of the credentials and endpoint settings the failure happened with
+  fingerprint: string;
+  salt: string;
+}
+
+export type TokenRefreshTrigger = 'scheduled' | 'manual';
+
+/**
+ * The account's token and refresh schedule, as written to `tsvesync/token-status.json`
+ */
+export interface TokenStatus {
+  account: string;
+  issuedAt: string | null;
+  expiresAt: string | null;
+  nextRefreshAt: string | null;
+  lastRefresh: {
+    at: string;
+    trigger: TokenRefreshTrigger;
+    outcome: 'success' | 'failed' | 'skipped';
+    reason?: string;
+  } | null;
+}
+
+const LOGIN_FAILURE_MESSAGES: Partial<Record<LoginFailure, string>> = {
+  credentials: 'VeSync rejected the username or password',
+  region: 'Both the US and EU endpoints rejected the account; set the country code the account was created in',
+};
+
+/**
+ * One VeSync cloud account: its rate-limited client, persisted session, and token refresh schedule.
+ *
+ * Each account has its own client, so each also gets its own quota manager — VeSync counts the daily
+ * quota per account.
+ */
+export class VeSyncAccount {
+  public client: VeSync;
+  public sessionStore: SessionStore;
+  public readonly label: string;
+  private readonly logPrefix: string;
+  private refreshTimer?: NodeJS.Timeout;
+  private refreshInProgress = false;
+  private scheduledExpMs: number | null = null;
+  private refreshRemainingMs: number | null = null;
+  private nextRefreshAt: number | null = null;
+  private lastRefresh: TokenStatus['lastRefresh'] = null;
+  private readonly tokenStatusPath: string;
+  private tokenStatusWrite: Promise<void> = Promise.resolve();
+  private lastLoginAttempt: Date = new Date(0);
+  private loginBackoffTime = 10000; // Start with 10 seconds
+  private loginAttempts = 0;
+  private loginFailures = 0;
+  private lastLoginFailed = false;
+  private loginCircuit: LoginCircuit | null = null;
+  private readonly loginCircuitPath: string;
+  private readonly accountSettings: string;
+  // Called when logins start or stop failing
+  public onLoginStateChange?: () => void;
+  // VeSync JWT tokens are valid for 30 days (verified by decoding the JWT)
+  // We'll refresh at 25 days to ensure we never hit expiration
+  private readonly TOKEN_EXPIRY = 25 * 24 * 60 * 60 * 1000; // 25 days in milliseconds
+  private lastTokenRefresh: Date = new Date(0);
+
+  constructor(
+    private readonly account: VeSyncAccountConfig,
+    config: PlatformConfig,
+    storagePath: string,
+    private readonly logger: PluginLogger,
+    multiAccount = false,
+  ) {
+    this.label = account.name || account.username;
+    this.logPrefix = multiAccount ? `[${this.label}] ` : '';
+
+    // Prepare session store and quota ledger, side by side in the plugin storage dir
+    const secret = resolveSessionSecret(config.sessionEncryption, this.logger);
+    const fileSuffix = accountFileSuffix(account.username, storagePath, config.sessionStore, secret);
+    // An account's own sessionStore is used as configured; the platform-level one is shared by suffix
+    this.sessionStore = createSessionStore(
+      account.sessionStore ?? config.sessionStore,
+      storagePath,
+      this.logger,
+      account.sessionStore ? '' : fileSuffix,
+      secret,
+    );
+
+    this.loginCircuitPath = path.join(storagePath, 'tsvesync', `login-circuit${fileSuffix}.json`);
+    this.tokenStatusPath = path.join(storagePath, 'tsvesync', `token-status${fileSuffix}.json`);
+    this.accountSettings = JSON.stringify([
+      account.username,
+      account.password,
+      account.countryCode ?? config.countryCode ?? null,
+      account.apiUrl ?? config.apiUrl ?? null,
+    ]);
+
+    // Initialize VeSync client with all configuration
+    this.client = createRateLimitedVeSync(
+      account.username,
+      account.password,
+      Intl.DateTimeFormat().resolvedOptions().timeZone,
+      config.debug || false,
+      true, // redact sensitive info
+      account.apiUrl ?? config.apiUrl,
+      tapLibraryLogger(this.logger),
+      config.exclude,
+      {
+        countryCode: account.countryCode ?? config.countryCode,
+        quotaManagement: config.quotaManagement || { enabled: true },
+        quotaLedgerPath: path.join(storagePath, 'tsvesync', `quota${fileSuffix}.json`),
+      },
+      {
+        store: this.sessionStore,
+        onTokenChange: (s) => this.onTokenChange(s)
+      }
+    );
+  }
+
+  get username(): string {
+    return this.account.username;
+  }
+
+  /**
+   * Whether the client holds credentials, either from a login or a hydrated session
+   */
+  hasSession(): boolean {
+    return Boolean((this.client as any).token && (this.client as any).accountId);
+  }
+
+  /**
+   * Try to hydrate the client from the persisted session before any login
+   */
+  async restoreSession(): Promise<void> {
+    await this.restoreLoginCircuit();
+
+    const session = await this.sessionStore.load();
+    if (!session) {
+      this.logger.debug(`${this.logPrefix}No persisted VeSync session available; will authenticate.`);
+      return;
+    }
+
+    try {
+      if ((session as any).username && (session as any).username !== this.account.username) {
+        this.logger.info(`${this.logPrefix}Found persisted session for a different account; ignoring persisted session.`);
+        return;
+      }
+
+      const ts = decodeJwtTimestampsLocal(session.token);
+      // A token whose exp has already passed can only be rejected by VeSync, so don't hand it to
+      // the client: doing so skips the login below and burns a request to be told it expired.
+      // Keep the client identity from that session so the fresh login presents the same terminal.
+      const expiredBySkewMs = 60 * 1000;
+      if (ts?.exp && ts.exp * 1000 <= Date.now() + expiredBySkewMs) {
+        this.logger.info(
+          `${this.logPrefix}Persisted VeSync session expired ${new Date(ts.exp * 1000).toISOString()}; authenticating again.`,
+        );
+        this.adoptClientIdentity(session);
+        await this.sessionStore.clear();
+      } else {
+        this.hydrateSessionCompat(session);
+        // Use actual token issuance time if available to avoid overextending lifetime
+        this.lastTokenRefresh = ts?.iat ? new Date(ts.iat * 1000) : new Date();
+        const expStr = ts?.exp ? new Date(ts.exp * 1000).toISOString() : 'unknown';
+        this.logger.info(`${this.logPrefix}Reusing persisted VeSync session. Token exp: ${expStr}`);
+        // Schedule a proactive refresh before expiry
+        this.scheduleProactiveRefreshFromToken(session.token);
+      }
+    } catch (e: any) {
+      this.logger.debug(`${this.logPrefix}Failed to hydrate persisted session, will login fresh: ${e?.message || e}`);
+    }
+  }
+
+  /**
+   * Ensure client is logged in, but avoid unnecessary logins
+   *
+   * @param retry Keep trying until the login works. Without it, make at most one attempt and none
+   * while the backoff after a failed login is still running.
+   */
+  async ensureLogin(forceLogin = false, retry = true): Promise<boolean> {
+    // Check if token needs refresh
+    const timeSinceLastRefresh = Date.now() - this.lastTokenRefresh.getTime();
+    if (!forceLogin && timeSinceLastRefresh < this.TOKEN_EXPIRY) {
+      return true; // Token is still valid
+    }
+    if (this.loginCircuit) {
+      this.logger.debug(`${this.logPrefix}Not logging in: the last login failed permanently (${this.loginCircuit.failure})`);
+      return false;
+    }
+
+    let isLoggedIn = false;
+    while (!isLoggedIn) {  // Keep trying until successful
+      try {
+        // Check if we need to wait for backoff
+        const timeSinceLastAttempt = Date.now() - this.lastLoginAttempt.getTime();
+        if (timeSinceLastAttempt < this.loginBackoffTime) {
+          if (!retry) {
+            return false;
+          }
+          const waitTime = this.loginBackoffTime - timeSinceLastAttempt;
+          this.logger.debug(`${this.logPrefix}Waiting ${waitTime}ms before next login attempt (backoff)`);
+          await new Promise(resolve => setTimeout(resolve, waitTime));
+        }
+
+        // Need to login again
+        this.logger.debug(`${this.logPrefix}${forceLogin ? 'Forcing new login to VeSync API' : 'Refreshing VeSync API token'}`);
+
+        this.lastLoginAttempt = new Date();
+        this.loginAttempts++;
+        const { result: loginResult, logs } = await captureLibraryLogs(() => this.client.login());
+
+        if (!loginResult) {
+          this.loginFailures++;
+          this.setLoginFailed(true);
+          const failure = classifyLoginFailure(logs);
+          if (isPermanentLoginFailure(failure)) {
+            await this.openLoginCircuit(failure);
+            return false;
+          }
+          this.logger.error(`${this.logPrefix}Login failed - invalid credentials or API error`);
+          this.loginBackoffTime = Math.min(this.loginBackoffTime * 2, 300000);
+          if (!retry) {
+            return false;
+          }
+          continue;  // Try again after backoff
+        }
+
+        // Reset backoff and update token refresh time on successful login
+        this.loginBackoffTime = 10000;
+        this.setLoginFailed(false);
+        this.lastTokenRefresh = new Date();
+        // Best-effort: persist the fresh session immediately in case callbacks fail
+        try {
+          const token = (this.client as any).token as string | null;
+          const accountId = (this.client as any).accountId as string | null;
+          const region = (this.client as any).region as string | null;
+          const apiBaseUrl = (this.client as any).apiBaseUrl as string | null;
+          if (token && accountId && region && apiBaseUrl) {
+            const ts = decodeJwtTimestampsLocal(token);
+            await this.sessionStore.save({
+              token,
+              accountId,
+              region,
+              apiBaseUrl,
+              terminalId: (this.client as any).terminalId ?? undefined,
+              appId: (this.client as any).appId ?? undefined,
+              issuedAt: ts?.iat ?? null,
+              expiresAt: ts?.exp ?? null,
+              lastValidatedAt: Date.now(),
+              username: this.account.username,
+            } as any);
+          }
+        } catch {/* ignore */}
+        isLoggedIn = true;
+        return true;
+      } catch (error) {
+        // Handle specific errors
+        const errorObj = error as any;
+        const errorMsg = errorObj?.error?.msg || errorObj?.msg || String(error);
+        this.loginFailures++;
+        this.setLoginFailed(true);
+
+        if (errorMsg.includes('Not logged in')) {
+          this.logger.debug(`${this.logPrefix}Session expired, forcing new login`);
+          this.loginBackoffTime = Math.min(this.loginBackoffTime, 5000);
+          if (!retry) {
+            return false;
+          }
+          continue;  // Try again after backoff
+        }
+
+        // Increase backoff time exponentially, max 5 minutes
+        this.loginBackoffTime = Math.min(this.loginBackoffTime * 2, 300000);
+
+        this.logger.error(`${this.logPrefix}Login error:`, error);
+        if (!retry) {
+          return false;
+        }
+        continue;  // Try again after backoff
+      }
+    }
+    return true;  // This line will never be reached but TypeScript needs it
+  }
+
+  /**
+   * Refresh devices from the API, retrying with backoff until it succeeds.
+   *
+   * A full update fetches the device list and then details for every device. A list-only refresh is
+   * a single call; device details are then fetched per accessory as the poll scheduler makes them due.
+   */
+  async update(full = true): Promise<void> {
+    // Do not force login; rely on library to re-login only if needed
+    let retryCount = 0;
+    let success = false;
+
+    // Keep retrying API calls
+    while (!success) {
+      if (this.loginCircuit) {
+        this.logger.debug(`${this.logPrefix}Skipping device refresh: not logged in`);
+        return;
+      }
+      try {
+        // Update device data from API
+        if (full) {
+          await this.client.update();
+        } else {
+          await (this.client as any).getDevices();
+        }
+        success = true;
+      } catch (error) {
+        retryCount++;
+        const backoffTime = Math.min(10000 * Math.pow(2, retryCount), 300000);
+        this.logger.warn(`${this.logPrefix}API call failed, retry attempt ${retryCount}. Waiting ${backoffTime/1000} seconds...`);
+        await new Promise(resolve => setTimeout(resolve, backoffTime));
+
+        // Try to ensure we're still logged in before next attempt
+        if (!await this.ensureLogin()) {
+          continue;
+        }
+      }
+    }
+  }
+
+  /**
+   * Get all devices from all categories
+   */
+  getAllDevices() {
+    return [
+      ...this.client.fans,
+      ...this.client.outlets,
+      ...this.client.switches,
+      ...this.client.bulbs,
+    ];
+  }
+
+  /**
+   * Device list entries from the last refresh, as the cloud returned them. Unlike `getAllDevices()`
+   * this includes models the library has no device class for.
+   */
+  getRawDeviceList(): Record<string, any>[] {
+    if (typeof (this.client as any).getRawDeviceList === 'function') {
+      return (this.client as any).getRawDeviceList();
+    }
+    return [];
+  }
+
+  /**
+   * Quota usage for this account, or null when quota management is disabled
+   */
+  getQuotaStatus(): { used: number; remaining: number; dailyQuota: number; msUntilReset: number } | null {
+    if (typeof (this.client as any).getQuotaStatus === 'function') {
+      return (this.client as any).getQuotaStatus();
+    }
+    return null;
+  }
+
+  /**
+   * API calls made and calls blocked by the quota, per method, since startup
+   */
+  getApiCallStats(): { calls: Record<string, number>; blocked: Record<string, number> } {
+    if (typeof (this.client as any).getApiCallStats === 'function') {
+      return (this.client as any).getApiCallStats();
+    }
+    return { calls: {}, blocked: {} };
+  }
+
+  /**
+   * Depth, wait times and dropped calls of the API request queue, per priority class
+   */
+  getRequestQueueStats(): RequestQueueStats | null {
+    if (typeof (this.client as any).getRequestQueueStats === 'function') {
+      return (this.client as any).getRequestQueueStats();
+    }
+    return null;
+  }
+
+  /**
+   * Login attempts made by ensureLogin, and the backoff before the next attempt while logins are failing
+   */
+  getLoginStats(): { attempts: number; failures: number; backoffMs: number } {
+    return {
+      attempts: this.loginAttempts,
+      failures: this.loginFailures,
+      backoffMs: this.lastLoginFailed ? this.loginBackoffTime : 0,
+    };
+  }
+
+  /**
+   * The permanent login failure that stops this account logging in, if any
+   */
+  getLoginCircuit(): LoginCircuit | null {
+    return this.loginCircuit;
+  }
+
+  /**
+   * Whether the account's last login failed, or logins are stopped after a permanent failure
+   */
+  isLoginFailing(): boolean {
+    return this.lastLoginFailed || this.loginCircuit !== null;
+  }
+
+  private setLoginFailed(failed: boolean): void {
+    if (this.lastLoginFailed !== failed) {
+      this.lastLoginFailed = failed;
+      this.onLoginStateChange?.();
+    }
+  }
+
+  /**
+   * Stop logging in after a failure that only a configuration change can fix. Repeating a rejected
+   * login every few minutes gets nowhere and can get the account locked.
+   */
+  private async openLoginCircuit(failure: LoginFailure): Promise<void> {
+    const salt = crypto.randomBytes(16).toString('hex');
+    this.loginCircuit = { failure, openedAt: Date.now(), fingerprint: this.fingerprintSettings(salt), salt };
+    this.logger.error(
+      `${this.logPrefix}${LOGIN_FAILURE_MESSAGES[failure]}. Not logging in again until the account settings change, to avoid locking the account.`,
+    );
+    try {
+      await fs.promises.mkdir(path.dirname(this.loginCircuitPath), { recursive: true });
+      await fs.promises.writeFile(this.loginCircuitPath, JSON.stringify(this.loginCircuit), { encoding: 'utf8', mode: 0o600 });
+    } catch (e: any) {
+      this.logger.debug(`${this.logPrefix}Failed to save login circuit: ${e?.message || e}`);
+    }
+    this.onLoginStateChange?.();
+  }
+
+  private async closeLoginCircuit(): Promise<void> {
+    const wasOpen = this.loginCircuit !== null;
+    this.loginCircuit = null;
+    await fs.promises.unlink(this.loginCircuitPath).catch(() => undefined);
+    if (wasOpen) {
+      this.onLoginStateChange?.();
+    }
+  }
+
+  /**
+   * Salted so that the stored fingerprint doesn't give the password away
+   */
+  private fingerprintSettings(salt: string): string {
+    return crypto.scryptSync(this.accountSettings, salt, 32).toString('hex');
+  }
+
+  /**
+   * Pick up a permanent login failure from an earlier run, unless the account settings changed since
+   */
+  private async restoreLoginCircuit(): Promise<void> {
+    let circuit: LoginCircuit;
+    try {
+      circuit = JSON.parse(await fs.promises.readFile(this.loginCircuitPath, 'utf8')) as LoginCircuit;
+    } catch {
+      return;
+    }
+    if (!circuit.salt || circuit.fingerprint !== this.fingerprintSettings(circuit.salt)) {
+      this.logger.info(`${this.logPrefix}Account settings changed since the last login failure; logging in again.`);
+      await this.closeLoginCircuit();
+      return;
+    }
+    this.loginCircuit = circuit;
+    this.logger.error(
+      `${this.logPrefix}${LOGIN_FAILURE_MESSAGES[circuit.failure]} at ${new Date(circuit.openedAt).toISOString()}. Not logging in until the account settings change.`,
+    );
+    this.onLoginStateChange?.();
+  }
+
+  /**
+   * Log in again now, e.g. after the account was unlocked or its token revoked. Also retries an
+   * account that stopped logging in after a permanent failure.
+   */
+  async relogin(): Promise<boolean> {
+    if (this.loginCircuit) {
+      this.logger.info(`${this.logPrefix}Logging in again on request despite the last login failure`);
+      await this.closeLoginCircuit();
+    }
+    return this.refreshSession('manual');
+  }
+
+  /**
+   * Whether logging in again could help: the account fails to log in, or has no token or an expired one
+   */
+  needsRelogin(): boolean {
+    if (this.isLoginFailing() || !this.hasSession()) {
+      return true;
+    }
+    const exp = decodeJwtTimestampsLocal((this.client as any).token)?.exp;
+    return typeof exp === 'number' && exp * 1000 <= Date.now();
+  }
+
+  /**
+   * The current token's lifetime, the next proactive refresh and how the last refresh went
+   */
+  getTokenStatus(): TokenStatus {
+    const token = (this.client as any).token as string | null;
+    const ts = token ? decodeJwtTimestampsLocal(token) : null;
+    const iso = (ms: number | null | undefined) => (ms ? new Date(ms).toISOString() : null);
+    return {
+      account: this.label,
+      issuedAt: iso(ts?.iat && ts.iat * 1000),
+      expiresAt: iso(ts?.exp && ts.exp * 1000),
+      nextRefreshAt: iso(this.nextRefreshAt),
+      lastRefresh: this.lastRefresh,
+    };
+  }
+
+  /**
+   * Log a one-line summary of the token status, e.g. at startup
+   */
+  logTokenStatus(): void {
+    const { issuedAt, expiresAt, nextRefreshAt } = this.getTokenStatus();
+    if (!expiresAt) {
+      this.logger.info(`${this.logPrefix}VeSync token expiry unknown; no proactive refresh scheduled`);
+      return;
+    }
+    const refresh = nextRefreshAt ? `proactive refresh at ${nextRefreshAt}` : 'no proactive refresh scheduled';
+    this.logger.info(`${this.logPrefix}VeSync token issued ${issuedAt ?? 'unknown'}, expires ${expiresAt}; ${refresh}`);
+  }
+
+  /**
+   * Queue a write of the token status so that writes land in order
+   */
+  private writeTokenStatus(): void {
+    const status = this.getTokenStatus();
+    this.tokenStatusWrite = this.tokenStatusWrite
+      .then(() => fs.promises.mkdir(path.dirname(this.tokenStatusPath), { recursive: true }))
+      .then(() => fs.promises.writeFile(this.tokenStatusPath, JSON.stringify(status, null, 2), 'utf8'))
+      .catch((e: any) => this.logger.debug(`${this.logPrefix}Failed to write token status: ${e?.message || e}`));
+  }
+
+  private recordRefresh(trigger: TokenRefreshTrigger, outcome: 'success' | 'failed' | 'skipped', reason?: string): void {
+    this.lastRefresh = { at: new Date().toISOString(), trigger, outcome, ...(reason ? { reason } : {}) };
+    this.writeTokenStatus();
+  }
+
+  /**
+   * Log in again ahead of token expiry or on request, and record how it went in the token status
+   */
+  private async refreshSession(trigger: TokenRefreshTrigger): Promise<boolean> {
+    if (this.refreshInProgress) {
+      this.logger.debug(`${this.logPrefix}Token refresh already in progress; skipping.`);
+      this.recordRefresh(trigger, 'skipped', 'a refresh was already in progress');
+      return false;
+    }
+    this.refreshInProgress = true;
+    this.nextRefreshAt = null;
+    this.logger.debug(`${this.logPrefix}${trigger === 'manual' ? 'Logging in to VeSync again on request' : 'Proactively refreshing VeSync session before token expiry'}`);
+    try {
+      const success = await this.ensureLogin(true);
+      this.recordRefresh(trigger, success ? 'success' : 'failed', this.loginCircuit ? `login failed (${this.loginCircuit.failure})` : undefined);
+      if (trigger === 'manual') {
+        this.logger.info(`${this.logPrefix}${success ? 'Logged in to VeSync again' : 'Logging in to VeSync again failed'}`);
+      }
+      return success;
+    } catch (e: any) {
+      this.recordRefresh(trigger, 'failed', e?.message || String(e));
+      return false;
+    } finally {
+      this.refreshInProgress = false;
+    }
+  }
+
+  /**
+   * Update the quota manager with the number of devices bridged from this account
+   */
+  updateQuotaDeviceCount(count: number): void {
+    if (typeof (this.client as any).updateQuotaDeviceCount === 'function') {
+      (this.client as any).updateQuotaDeviceCount(count);
+      this.logger.debug(`${this.logPrefix}Updated quota manager with ${count} devices`);
+    }
+  }
+
+  /**
+   * Stop any pending token refresh and persist the quota ledger
+   */
+  shutdown(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+    }
+    // Homebridge exits without waiting for async work, so the last counts are written synchronously
+    if (typeof (this.client as any).flushQuotaLedgerSync === 'function') {
+      (this.client as any).flushQuotaLedgerSync();
+    }
+  }
+
+  /**
+   * Handle token updates from the library
+   */
+  private onTokenChange(session: { token: string } | undefined) {
+    if (!session?.token) return;
+    this.scheduleProactiveRefreshFromToken(session.token);
+    // NOTE: The library already saved the session via sessionStore.save()
+    // We should NOT save again here as it creates a race condition and corrupts the file
+    // The username field is added during initial login in ensureLogin()
+  }
+
+  /**
+   * Reuse the client identity from a persisted session whose credentials we are discarding.
+   *
+   * VeSync binds tokens to the terminal id, so keeping it stable stops every login looking like a new
+   * device to VeSync (which is what triggers its "new login to your account" notifications).
+   */
+  private adoptClientIdentity(session: PluginSession) {
+    if (!session.terminalId && !session.appId) return;
+    const client: any = this.client as any;
+    if (typeof client.restoreClientIdentity === 'function') {
+      client.restoreClientIdentity({ terminalId: session.terminalId, appId: session.appId });
+    }
+  }
+
+  /**
+   * Backward-compatible session hydration when using older tsvesync versions
+   */
+  private hydrateSessionCompat(session: { token: string; accountId: string; countryCode?: string | null; apiBaseUrl?: string; region?: string; terminalId?: string; appId?: string }) {
+    const client: any = this.client as any;
+    if (typeof client.hydrateSession === 'function') {
+      client.hydrateSession(session);
+      return;
+    }
+    // Fallback: set core fields directly
+    client.token = session.token;
+    client.accountId = session.accountId;
+    client.countryCode = session.countryCode ?? null;
+    if (session.apiBaseUrl) {
+      client.apiBaseUrl = session.apiBaseUrl;
+    }
+    if (session.region) {
+      try { client.region = session.region; } catch { /* ignore */ }
+    }
+    client.enabled = true;
+  }
+
+  /**
+   * Schedule a proactive token refresh before JWT expiry
+   */
+  private scheduleProactiveRefreshFromToken(token: string) {
+    try {
+      const ts = decodeJwtTimestampsLocal(token);
+      if (!ts?.exp) {
+        return; // Cannot schedule without exp
+      }
+      const now = Date.now();
+      const expMs = ts.exp * 1000;
+      const msToExpiry = expMs - now;
+
+      // If we already have a timer for this exact token expiration, skip
+      if (this.scheduledExpMs === expMs && this.refreshTimer) {
+        return;
+      }
+      if (msToExpiry <= 0) {
+        // Already expired; trigger immediate login in background
+        void this.refreshSession('scheduled');
+        return;
+      }
+
+      // Schedule policy to prevent thrash and avoid frequent logins:
+      // - If >7d left: refresh 5d before expiry
+      // - If 1–7d left: refresh 12h before expiry
+      // - If 1–24h left: refresh 1h before expiry
+      // - If <1h left: do not proactively refresh; rely on library's 401-triggered re-login
+      const ONE_HOUR = 60 * 60 * 1000;
+      const TWELVE_HOURS = 12 * ONE_HOUR;
+      const FIVE_DAYS = 5 * 24 * ONE_HOUR;
+      const SEVEN_DAYS = 7 * 24 * ONE_HOUR;
+
+      let refreshIn: number;
+      if (msToExpiry > SEVEN_DAYS) {
+        refreshIn = msToExpiry - FIVE_DAYS;
+      } else if (msToExpiry > 24 * ONE_HOUR) {
+        refreshIn = msToExpiry - TWELVE_HOURS;
+      } else if (msToExpiry > ONE_HOUR) {
+        refreshIn = msToExpiry - ONE_HOUR;
+      } else {
+        // Too close to expiry; avoid hammering login — let 401 path handle it
+        this.logger.debug(`${this.logPrefix}Token near expiry (<1h). Skipping proactive refresh; relying on auto re-login.`);
+        this.nextRefreshAt = null;
+        this.recordRefresh('scheduled', 'skipped', 'token expires within an hour; relying on re-login when the API rejects it');
+        return;
+      }
+
+      // Safety floor: never schedule earlier than 30 minutes from now
+      refreshIn = Math.max(refreshIn, 30 * 60 * 1000);
+
+      if (this.refreshTimer) {
+        clearTimeout(this.refreshTimer);
+      }
+      this.scheduledExpMs = expMs;
+      // Handle Node.js setTimeout max delay (~24.8 days). Chain timers when needed.
+      const MAX_DELAY = 0x7fffffff; // 2,147,483,647 ms
+      if (refreshIn > MAX_DELAY) {
+        this.refreshRemainingMs = refreshIn - MAX_DELAY;
+        this.logger.debug(`${this.logPrefix}Proactive refresh scheduled beyond setTimeout max; chaining timers.`);
+        this.refreshTimer = setTimeout(() => this.chainRefreshTimer(), MAX_DELAY);
+      } else {
+        this.refreshRemainingMs = 0;
+        this.refreshTimer = setTimeout(() => void this.refreshSession('scheduled'), refreshIn);
+      }
+      this.nextRefreshAt = now + refreshIn;
+      this.writeTokenStatus();
+
+      const hours = Math.round(refreshIn / (60 * 60 * 1000));
+      this.logger.debug(`${this.logPrefix}Scheduled proactive token refresh in ~${hours}h`);
+    } catch (e) {
+      // Best-effort scheduling; ignore errors
+    }
+  }
+
+  private chainRefreshTimer() {
+    if (!this.refreshRemainingMs || this.refreshRemainingMs <= 0) {
+      // Final hop: trigger refresh now
+      void this.refreshSession('scheduled');
+      return;
+    }
+    const MAX_DELAY = 0x7fffffff;
+    const hop = Math.min(this.refreshRemainingMs, MAX_DELAY);
+    this.refreshRemainingMs -= hop;
+    this.refreshTimer = setTimeout(() => this.chainRefreshTimer(), hop);
+  }
+}